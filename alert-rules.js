@@ -0,0 +1,255 @@
+// Alert rules over the accepted wallets, e.g. "ROI > 5000% and PnL > 100000" or "seen in 3+ tokens". The server
+// checks the rules whenever a portfolio is added or changed or another token lists its wallet, and a rule fires once
+// for a portfolio when it starts matching, not on every later change. A rule notifies through the dashboard as a
+// toast, a browser notification, or through webhooks. The rules are saved with the config as ALERT_RULES.
+import { randomUUID } from 'crypto';
+
+/**
+ * @typedef {Object} AlertCondition
+ * @property {'roi' | 'pnl' | 'tokens' | 'status' | 'tag'} field
+ * @property {string} operator One of the operators of the field's type
+ * @property {number | string} value A number for roi (percent), pnl (dollars) and tokens, text for status and tag
+ */
+
+/**
+ * @typedef {Object} AlertRule
+ * @property {string} id
+ * @property {string} name
+ * @property {boolean} enabled
+ * @property {'all' | 'any'} match Whether every condition has to hold or one is enough
+ * @property {AlertCondition[]} conditions
+ * @property {{ toast: boolean, browser: boolean, webhookIds: string[] }} channels
+ */
+
+/**
+ * @typedef {Object} AlertPortfolio A portfolio with what the rules look at besides its own fields
+ * @property {string} id
+ * @property {string} roi
+ * @property {string} pnl
+ * @property {{ status: string, tags: string[] }} review
+ * @property {number} tokens Number of tokens whose top traders listed the wallet
+ */
+
+// Fields a condition can look at, with the operators their type allows
+export const ALERT_FIELDS = {
+    roi: { label: 'ROI', type: 'number', unit: '%' },
+    pnl: { label: 'PnL', type: 'number', unit: '$' },
+    tokens: { label: 'Tokens seen in', type: 'number', unit: '' },
+    status: { label: 'Review status', type: 'status', unit: '' },
+    tag: { label: 'Tag', type: 'tag', unit: '' },
+};
+
+const OPERATORS = {
+    number: ['>', '>=', '<', '<=', '='],
+    status: ['=', '!='],
+    tag: ['has', 'lacks'],
+};
+
+/**
+ * Why the conditions of a rule cannot be checked, null when they can. The name and channels are not looked at
+ * @param {AlertRule} rule
+ * @returns {string | null}
+ */
+export function validateAlertConditions(rule) {
+    if (rule.conditions.length === 0) return 'Add at least one condition';
+    for (const condition of rule.conditions) {
+        const field = ALERT_FIELDS[condition.field];
+        if (!field) return `Unknown field "${condition.field}"`;
+        if (!OPERATORS[field.type].includes(condition.operator)) {
+            return `${field.label} can be compared with ${OPERATORS[field.type].join(' ')}`;
+        }
+        if (field.type === 'number' && !Number.isFinite(condition.value)) return `${field.label} needs a number`;
+        if (field.type !== 'number' && !condition.value) return `${field.label} needs a value`;
+    }
+    return null;
+}
+
+/**
+ * Why a rule cannot be saved, null when it is valid
+ * @param {AlertRule} rule
+ * @param {string[]} webhookIds Ids of the saved webhooks
+ * @returns {string | null}
+ */
+export function validateAlertRule(rule, webhookIds) {
+    if (!rule.name) return 'Name is required';
+    const error = validateAlertConditions(rule);
+    if (error) return error;
+    const { toast, browser, webhookIds: targets } = rule.channels;
+    if (!toast && !browser && targets.length === 0) return 'Pick at least one channel';
+    if (targets.some((id) => !webhookIds.includes(id))) return 'One of its webhooks no longer exists';
+    return null;
+}
+
+/**
+ * Normalise the saved ALERT_RULES, giving new rules an id
+ * @param {Record<string, unknown>} [config]
+ * @returns {AlertRule[]}
+ */
+export function resolveAlertRules(config = {}) {
+    const configured = Array.isArray(config.ALERT_RULES) ? config.ALERT_RULES : [];
+    return configured
+        .filter((rule) => rule && typeof rule === 'object')
+        .map((rule) => ({
+            id: rule.id ? String(rule.id) : randomUUID(),
+            name: String(rule.name ?? '').trim(),
+            enabled: rule.enabled !== false,
+            match: rule.match === 'any' ? 'any' : 'all',
+            conditions: (Array.isArray(rule.conditions) ? rule.conditions : [])
+                .filter((condition) => condition && typeof condition === 'object')
+                .map((condition) => {
+                    const field = String(condition.field ?? '');
+                    const numeric = ALERT_FIELDS[field]?.type === 'number';
+                    const value = String(condition.value ?? '').trim();
+                    return {
+                        field,
+                        operator: String(condition.operator ?? ''),
+                        value: numeric ? (value === '' ? NaN : Number(value)) : value,
+                    };
+                }),
+            channels: {
+                toast: rule.channels?.toast === true,
+                browser: rule.channels?.browser === true,
+                webhookIds: Array.isArray(rule.channels?.webhookIds) ? rule.channels.webhookIds.map(String) : [],
+            },
+        }));
+}
+
+/**
+ * The conditions of a rule as one line, e.g. "ROI > 5000% and PnL > $100000"
+ * @param {AlertRule} rule
+ * @returns {string}
+ */
+export function describeAlertRule(rule) {
+    return rule.conditions
+        .map(({ field, operator, value }) => {
+            const { label, unit } = ALERT_FIELDS[field];
+            const shown = unit === '$' ? `$${value}` : `${value}${unit}`;
+            return `${label} ${operator} ${shown}`;
+        })
+        .join(rule.match === 'any' ? ' or ' : ' and ');
+}
+
+/**
+ * @param {AlertCondition} condition
+ * @param {AlertPortfolio} portfolio
+ * @returns {boolean}
+ */
+function conditionHolds({ field, operator, value }, portfolio) {
+    if (field === 'status') return (portfolio.review.status === value) === (operator === '=');
+    if (field === 'tag') {
+        const tagged = portfolio.review.tags.some((tag) => tag.toLowerCase() === String(value).toLowerCase());
+        return tagged === (operator === 'has');
+    }
+    const actual = {
+        roi: parseFloat(portfolio.roi),
+        pnl: parseFloat(portfolio.pnl),
+        tokens: portfolio.tokens,
+    }[field];
+    if (!Number.isFinite(actual)) return false;
+    if (operator === '>') return actual > value;
+    if (operator === '>=') return actual >= value;
+    if (operator === '<') return actual < value;
+    if (operator === '<=') return actual <= value;
+    return actual === value;
+}
+
+/**
+ * @param {AlertRule} rule
+ * @param {AlertPortfolio} portfolio
+ * @returns {boolean}
+ */
+export function alertRuleMatches(rule, portfolio) {
+    return rule.match === 'any'
+        ? rule.conditions.some((condition) => conditionHolds(condition, portfolio))
+        : rule.conditions.every((condition) => conditionHolds(condition, portfolio));
+}
+
+/**
+ * Checks changed portfolios against the rules. Which portfolios each rule matches is worked out from all of them
+ * when the server starts and when the rule's conditions change, so only portfolios that start matching later fire
+ * @template {{ id: string, roi: string, pnl: string, review: { status: string, tags: string[] } }} P
+ * @param {{
+ *   getRules: () => AlertRule[],
+ *   listPortfolios: () => Iterable<P>,
+ *   tokenCounts: (ids?: string[]) => Map<string, number>,
+ *   onAlert: (rule: AlertRule, portfolio: P & { tokens: number }) => void,
+ * }} options tokenCounts returns the number of tokens of the given portfolios, or of all of them
+ */
+export function createAlertEngine({ getRules, listPortfolios, tokenCounts, onAlert }) {
+    /** @type {Map<string, { signature: string, matched: Set<string> }>} */
+    const states = new Map();
+
+    const withTokens = (portfolio, counts) => ({ ...portfolio, tokens: counts.get(portfolio.id) ?? 0 });
+
+    // Work out the matches of new and changed rules from every portfolio, without firing them
+    const refresh = () => {
+        const rules = getRules().filter((rule) => rule.enabled && validateAlertConditions(rule) === null);
+        const changed = [];
+        for (const rule of rules) {
+            const signature = JSON.stringify([rule.match, rule.conditions]);
+            if (states.get(rule.id)?.signature === signature) continue;
+            const state = { signature, matched: new Set() };
+            states.set(rule.id, state);
+            changed.push({ rule, state });
+        }
+        if (changed.length > 0) {
+            const counts = tokenCounts();
+            for (const portfolio of listPortfolios()) {
+                const candidate = withTokens(portfolio, counts);
+                for (const { rule, state } of changed) {
+                    if (alertRuleMatches(rule, candidate)) state.matched.add(portfolio.id);
+                }
+            }
+        }
+        for (const id of states.keys()) {
+            if (!rules.some((rule) => rule.id === id)) states.delete(id);
+        }
+        return rules;
+    };
+
+    return {
+        refresh,
+
+        /**
+         * Fire the rules that changed portfolios now match and did not before
+         * @param {P[]} portfolios
+         */
+        evaluate(portfolios) {
+            const rules = refresh();
+            if (rules.length === 0) return;
+            const counts = tokenCounts(portfolios.map((portfolio) => portfolio.id));
+            for (const portfolio of portfolios) {
+                const candidate = withTokens(portfolio, counts);
+                for (const rule of rules) {
+                    const { matched } = states.get(rule.id);
+                    const matches = alertRuleMatches(rule, candidate);
+                    if (matches && !matched.has(portfolio.id)) {
+                        matched.add(portfolio.id);
+                        onAlert(rule, candidate);
+                    } else if (!matches) {
+                        matched.delete(portfolio.id);
+                    }
+                }
+            }
+        },
+
+        /**
+         * The portfolios a rule matches now, in the order listPortfolios gives them
+         * @param {AlertRule} rule
+         * @param {number} [limit] How many of them to return
+         * @returns {{ total: number, portfolios: Array<P & { tokens: number }> }}
+         */
+        preview(rule, limit = 20) {
+            const counts = tokenCounts();
+            const portfolios = [];
+            let total = 0;
+            for (const portfolio of listPortfolios()) {
+                const candidate = withTokens(portfolio, counts);
+                if (!alertRuleMatches(rule, candidate)) continue;
+                total++;
+                if (portfolios.length < limit) portfolios.push(candidate);
+            }
+            return { total, portfolios };
+        },
+    };
+}
@@ -0,0 +1,138 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createAlertEngine, resolveAlertRules } from './alert-rules.js';
+
+const portfolio = (id, roi, pnl, status = 'new', tags = []) => ({
+    id,
+    roi: `${roi}%`,
+    pnl: String(pnl),
+    review: { status, tags },
+});
+
+/**
+ * An engine over portfolios and token counts kept in memory, recording the alerts it fires
+ * @param {Array<Record<string, unknown>>} rules As saved in ALERT_RULES
+ * @param {ReturnType<typeof portfolio>[]} portfolios
+ */
+function createHarness(rules, portfolios = []) {
+    const harness = {
+        rules: resolveAlertRules({ ALERT_RULES: rules }),
+        portfolios: new Map(portfolios.map((entry) => [entry.id, entry])),
+        /** @type {Map<string, number>} */
+        tokens: new Map(),
+        /** @type {string[]} */
+        alerts: [],
+    };
+    const engine = createAlertEngine({
+        getRules: () => harness.rules,
+        listPortfolios: () => harness.portfolios.values(),
+        tokenCounts: (ids) => new Map([...harness.tokens].filter(([id]) => !ids || ids.includes(id))),
+        onAlert: (rule, matched) => harness.alerts.push(`${rule.id}:${matched.id}:${matched.tokens}`),
+    });
+    // As the server does when it starts
+    engine.refresh();
+    // Store a changed portfolio and evaluate it, as the server does when it polls
+    const change = (...changed) => {
+        for (const entry of changed) harness.portfolios.set(entry.id, entry);
+        engine.evaluate(changed);
+    };
+    return { harness, engine, change };
+}
+
+const bigWins = {
+    id: 'big-wins',
+    name: 'Big wins',
+    match: 'all',
+    conditions: [
+        { field: 'roi', operator: '>', value: 5000 },
+        { field: 'pnl', operator: '>', value: 100000 },
+    ],
+    channels: { toast: true },
+};
+
+test('a rule fires once when a portfolio starts matching', () => {
+    const { harness, change } = createHarness([bigWins], [portfolio('Matching', 6000, 200000)]);
+
+    // Portfolios that matched before the rule was first checked do not fire
+    change(portfolio('Matching', 6000, 250000));
+    change(portfolio('Wallet1', 6000, 50000));
+    assert.deepEqual(harness.alerts, []);
+
+    change(portfolio('Wallet1', 6000, 150000));
+    change(portfolio('Wallet1', 7000, 160000, 'reviewed'));
+    assert.deepEqual(harness.alerts, ['big-wins:Wallet1:0']);
+});
+
+test('a rule fires again after the portfolio stopped matching', () => {
+    const { harness, change } = createHarness([bigWins]);
+    change(portfolio('Wallet1', 6000, 150000));
+    change(portfolio('Wallet1', 6000, 90000));
+    change(portfolio('Wallet1', 6000, 150000));
+    assert.deepEqual(harness.alerts, ['big-wins:Wallet1:0', 'big-wins:Wallet1:0']);
+});
+
+test('changing the conditions of a rule starts it over from the portfolios matching then', () => {
+    const { harness, engine, change } = createHarness([bigWins]);
+    change(portfolio('Wallet1', 6000, 150000));
+    change(portfolio('Wallet2', 6000, 90000));
+    assert.deepEqual(harness.alerts, ['big-wins:Wallet1:0']);
+
+    // Both match the lowered rule already, neither fires for it
+    harness.rules = resolveAlertRules({
+        ALERT_RULES: [{ ...bigWins, conditions: [{ field: 'pnl', operator: '>', value: 50000 }] }],
+    });
+    engine.refresh();
+    change(portfolio('Wallet1', 6000, 150000), portfolio('Wallet2', 6000, 95000));
+    change(portfolio('Wallet3', 10, 60000));
+    assert.deepEqual(harness.alerts, ['big-wins:Wallet1:0', 'big-wins:Wallet3:0']);
+
+    // Renaming a rule keeps its state
+    harness.rules = harness.rules.map((rule) => ({ ...rule, name: 'Renamed' }));
+    engine.refresh();
+    change(portfolio('Wallet3', 10, 70000));
+    assert.equal(harness.alerts.length, 2);
+});
+
+test('a rule on tokens fires when another token lists the wallet', () => {
+    const seenTwice = {
+        id: 'seen-twice',
+        name: 'Seen twice',
+        conditions: [{ field: 'tokens', operator: '>=', value: 2 }],
+        channels: { toast: true },
+    };
+    const wallet = portfolio('Wallet1', 100, 1000);
+    const { harness, change } = createHarness([seenTwice], [wallet]);
+    harness.tokens.set('Wallet1', 1);
+    change(wallet);
+    assert.deepEqual(harness.alerts, []);
+
+    // The portfolio itself is unchanged, the server re-checks it as listed since the last poll
+    harness.tokens.set('Wallet1', 2);
+    change(wallet);
+    assert.deepEqual(harness.alerts, ['seen-twice:Wallet1:2']);
+});
+
+test('any needs one condition to hold, all needs every one', () => {
+    const conditions = [
+        { field: 'status', operator: '=', value: 'following' },
+        { field: 'tag', operator: 'has', value: 'Whale' },
+    ];
+    const { harness, change } = createHarness([
+        { id: 'any', name: 'Any', match: 'any', conditions, channels: { toast: true } },
+        { id: 'all', name: 'All', match: 'all', conditions, channels: { toast: true } },
+    ]);
+    change(portfolio('Wallet1', 100, 1000, 'following'));
+    change(portfolio('Wallet2', 100, 1000, 'new', ['whale']));
+    change(portfolio('Wallet3', 100, 1000, 'following', ['whale']));
+    change(portfolio('Wallet4', 100, 1000, 'reviewed', ['sniper']));
+    assert.deepEqual(harness.alerts, ['any:Wallet1:0', 'any:Wallet2:0', 'any:Wallet3:0', 'all:Wallet3:0']);
+});
+
+test('disabled and invalid rules do not fire', () => {
+    const { harness, change } = createHarness([
+        { ...bigWins, id: 'disabled', enabled: false },
+        { ...bigWins, id: 'invalid', conditions: [{ field: 'roi', operator: 'has', value: 5 }] },
+    ]);
+    change(portfolio('Wallet1', 6000, 150000));
+    assert.deepEqual(harness.alerts, []);
+});
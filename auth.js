@@ -0,0 +1,150 @@
+// Access to the control server. Clients send a token as "Authorization: Bearer <token>", or in the Socket.IO
+// handshake, and each token has a role: a viewer can read everything, an operator can also start and stop the
+// scraper, change the configuration and update the code. The tokens and the origins allowed to call the server
+// live in auth.json next to the server, which is created with a token of each role on first start.
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import fs from 'fs';
+
+/** @typedef {'viewer' | 'operator'} Role */
+
+/**
+ * @typedef {Object} ApiToken
+ * @property {string} name Shown in the dashboard and the server log
+ * @property {Role} role
+ * @property {string} token
+ */
+
+/**
+ * @typedef {Object} AuthConfig
+ * @property {ApiToken[]} tokens
+ * @property {string[]} corsOrigins Origins of the dashboards allowed to call the server
+ */
+
+/** @type {Role[]} */
+export const ROLES = ['viewer', 'operator'];
+
+// Vite's default port
+const DEFAULT_CORS_ORIGINS = ['http://localhost:5173'];
+
+/**
+ * Whether a role may do what `required` allows, an operator can do anything a viewer can
+ * @param {Role} role
+ * @param {Role} required
+ * @returns {boolean}
+ */
+export function hasRole(role, required) {
+    return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/**
+ * Read auth.json, creating it with a new operator and viewer token when it does not exist. Throws when it
+ * cannot be used, the server should not start without access control
+ * @param {string} file
+ * @returns {{ config: AuthConfig, created: boolean }}
+ */
+export function loadAuthConfig(file) {
+    if (!fs.existsSync(file)) {
+        /** @type {AuthConfig} */
+        const config = {
+            tokens: ROLES.map((role) => ({ name: role, role, token: randomBytes(24).toString('hex') })),
+            corsOrigins: DEFAULT_CORS_ORIGINS,
+        };
+        fs.writeFileSync(file, `${JSON.stringify(config, null, 4)}\n`, { mode: 0o600 });
+        return { config, created: true };
+    }
+
+    const saved = JSON.parse(fs.readFileSync(file, 'utf8'));
+    const tokens = Array.isArray(saved.tokens) ? saved.tokens : [];
+    for (const [index, entry] of tokens.entries()) {
+        if (typeof entry?.token !== 'string' || entry.token.length < 16) {
+            throw new Error(`${file}: token ${index + 1} must be a string of at least 16 characters`);
+        }
+        if (!ROLES.includes(entry.role)) {
+            throw new Error(`${file}: token ${index + 1} must have the role ${ROLES.join(' or ')}`);
+        }
+    }
+    if (tokens.length === 0) throw new Error(`${file}: no tokens configured`);
+    return {
+        config: {
+            tokens: tokens.map((entry, index) => ({
+                name: String(entry.name ?? `token ${index + 1}`),
+                role: entry.role,
+                token: entry.token,
+            })),
+            corsOrigins: Array.isArray(saved.corsOrigins) ? saved.corsOrigins.map(String) : DEFAULT_CORS_ORIGINS,
+        },
+        created: false,
+    };
+}
+
+// Compare digests rather than the tokens, so the time taken does not depend on where they differ
+const digest = (token) => createHash('sha256').update(token).digest();
+
+/**
+ * Checks tokens against the configured ones
+ * @param {AuthConfig} config
+ */
+export function createAuth(config) {
+    const known = config.tokens.map((entry) => ({ name: entry.name, role: entry.role, digest: digest(entry.token) }));
+
+    /**
+     * Name and role of a token, null when it is unknown
+     * @param {unknown} token
+     * @returns {{ name: string, role: Role } | null}
+     */
+    const authenticate = (token) => {
+        if (typeof token !== 'string' || !token) return null;
+        const candidate = digest(token);
+        const match = known.find((entry) => timingSafeEqual(entry.digest, candidate));
+        return match ? { name: match.name, role: match.role } : null;
+    };
+
+    return {
+        authenticate,
+
+        /**
+         * Express middleware that lets GET requests through for viewers and everything else for operators only.
+         * The caller is available as req.user
+         */
+        middleware() {
+            return (req, res, next) => {
+                if (req.method === 'OPTIONS') return next();
+                const header = req.get('Authorization') ?? '';
+                const user = authenticate(header.startsWith('Bearer ') ? header.slice('Bearer '.length) : null);
+                if (!user) return res.status(401).json({ error: 'Sign in with an access token' });
+                const required = req.method === 'GET' || req.method === 'HEAD' ? 'viewer' : 'operator';
+                if (!hasRole(user.role, required)) {
+                    return res
+                        .status(403)
+                        .json({ error: `The ${user.role} role cannot do this, ${required} required` });
+                }
+                req.user = user;
+                next();
+            };
+        },
+
+        /**
+         * Express middleware for a route that needs more than its method does, e.g. a GET that shows secrets.
+         * Goes after middleware(), which sets req.user
+         * @param {Role} required
+         */
+        requireRole(required) {
+            return (req, res, next) => {
+                if (hasRole(req.user.role, required)) return next();
+                res.status(403).json({ error: `The ${req.user.role} role cannot do this, ${required} required` });
+            };
+        },
+
+        /**
+         * Socket.IO middleware that only lets clients with a valid token in the handshake connect
+         */
+        socketMiddleware() {
+            return (socket, next) => {
+                const user = authenticate(socket.handshake.auth?.token);
+                if (!user) return next(new Error('Sign in with an access token'));
+                socket.data.user = user;
+                next();
+            };
+        },
+    };
+}
@@ -0,0 +1,169 @@
+import type { Page, Response } from 'playwright';
+
+// How wallet metrics are read: 'dom' polls the modal text, 'network' reads the JSON the app fetches
+export type ExtractionMode = 'dom' | 'network';
+
+// Wallet metrics built from raw API numbers. Any field may be missing if the payload did not carry it
+export interface CapturedWalletMetrics {
+    address: string;
+    pnl?: number;
+    sevenDayPnl?: number;
+    revenue?: number;
+    spent?: number;
+}
+
+export interface ResponseCapture {
+    waitForWallet(address: string, timeout: number): Promise<CapturedWalletMetrics | null>;
+    dispose(): void;
+}
+
+// URL fragments of the BullX API calls behind the Top Traders table and the wallet modal
+const TOP_TRADERS_URL_PATTERN = /top-?traders/i;
+const WALLET_URL_PATTERN = /wallet|portfolio|trader-?stats/i;
+
+// Key names the API has used for each metric, checked in order
+const ADDRESS_KEYS = ['address', 'walletAddress', 'wallet', 'owner', 'maker', 'trader'];
+const PNL_KEYS = ['realizedPnlUsd', 'realizedPnL', 'realizedPnl', 'realized_pnl', 'pnlUsd', 'pnl'];
+const SEVEN_DAY_PNL_KEYS = ['realizedPnl7dUsd', 'realizedPnl7d', 'realized_pnl_7d', 'pnl7d', 'pnl_7d'];
+const REVENUE_KEYS = ['totalRevenueUsd', 'totalRevenue', 'total_revenue', 'revenueUsd', 'revenue', 'soldUsd'];
+const SPENT_KEYS = ['totalSpentUsd', 'totalSpent', 'total_spent', 'spentUsd', 'spent', 'boughtUsd'];
+
+// The last path segment of a Solscan account link is the wallet address
+export function walletAddressFromLink(href: string | null): string {
+    if (!href) return '';
+    return href.split('?')[0].split('#')[0].replace(/\/+$/, '').split('/').pop() || '';
+}
+
+function toNumber(value: unknown): number | undefined {
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+    return undefined;
+}
+
+function pickNumber(record: Record<string, unknown>, keys: string[]): number | undefined {
+    for (const key of keys) {
+        const value = toNumber(record[key]);
+        if (value !== undefined) return value;
+    }
+    return undefined;
+}
+
+function pickAddress(record: Record<string, unknown>): string | undefined {
+    for (const key of ADDRESS_KEYS) {
+        const value = record[key];
+        if (typeof value === 'string' && value.length >= 32) return value;
+    }
+    return undefined;
+}
+
+// Walk a JSON payload and collect every object that carries a wallet address and at least one metric. The
+// objects inside a wallet record, such as its per-token results, are not searched: their metrics are not the
+// wallet's totals and would pick up the fallback address
+function collectWalletRecords(payload: unknown, fallbackAddress?: string): CapturedWalletMetrics[] {
+    const records: CapturedWalletMetrics[] = [];
+    const visit = (node: unknown) => {
+        if (Array.isArray(node)) {
+            node.forEach(visit);
+            return;
+        }
+        if (!node || typeof node !== 'object') return;
+
+        const record = node as Record<string, unknown>;
+        const metrics: CapturedWalletMetrics = {
+            address: pickAddress(record) || fallbackAddress || '',
+            pnl: pickNumber(record, PNL_KEYS),
+            sevenDayPnl: pickNumber(record, SEVEN_DAY_PNL_KEYS),
+            revenue: pickNumber(record, REVENUE_KEYS),
+            spent: pickNumber(record, SPENT_KEYS),
+        };
+        const hasMetric = [metrics.pnl, metrics.sevenDayPnl, metrics.revenue, metrics.spent].some(
+            (value) => value !== undefined,
+        );
+        if (metrics.address && hasMetric) {
+            records.push(metrics);
+            return;
+        }
+
+        Object.values(record).forEach(visit);
+    };
+    visit(payload);
+    return records;
+}
+
+// Wallet addresses mentioned in the request URL, used when the payload itself omits the address
+function addressFromUrl(url: string): string | undefined {
+    const match = url.match(/[1-9A-HJ-NP-Za-km-z]{32,44}/);
+    return match?.[0];
+}
+
+function mergeMetrics(target: CapturedWalletMetrics | undefined, source: CapturedWalletMetrics): CapturedWalletMetrics {
+    const merged: CapturedWalletMetrics = { ...(target || { address: source.address }) };
+    for (const key of ['pnl', 'sevenDayPnl', 'revenue', 'spent'] as const) {
+        if (source[key] !== undefined) merged[key] = source[key];
+    }
+    return merged;
+}
+
+// Listen to the page's JSON responses and keep the latest metrics seen for every wallet.
+// Wallet modal payloads are merged over Top Traders rows, so the modal's numbers win.
+export function createResponseCapture(page: Page): ResponseCapture {
+    const wallets = new Map<string, CapturedWalletMetrics>();
+    const waiters = new Map<string, Array<(metrics: CapturedWalletMetrics) => void>>();
+
+    const store = (metrics: CapturedWalletMetrics, fromModal: boolean) => {
+        const merged = mergeMetrics(wallets.get(metrics.address), metrics);
+        wallets.set(metrics.address, merged);
+
+        // Only the modal's own payload means the modal has loaded, Top Traders rows arrive long before
+        const pending = waiters.get(metrics.address);
+        if (fromModal && pending) {
+            waiters.delete(metrics.address);
+            pending.forEach((resolve) => resolve(merged));
+        }
+    };
+
+    const onResponse = async (response: Response) => {
+        const url = response.url();
+        const isTopTraders = TOP_TRADERS_URL_PATTERN.test(url);
+        if (!isTopTraders && !WALLET_URL_PATTERN.test(url)) return;
+        if (!(response.headers()['content-type'] || '').includes('json')) return;
+
+        try {
+            const payload = await response.json();
+            const records = collectWalletRecords(payload, isTopTraders ? undefined : addressFromUrl(url));
+            records.forEach((record) => store(record, !isTopTraders));
+        } catch (error) {
+            // Bodies of redirects and aborted requests cannot be read, nothing to capture
+        }
+    };
+
+    page.on('response', onResponse);
+
+    return {
+        // Resolve with the wallet's metrics once its modal payload arrives. On timeout fall back to
+        // whatever the Top Traders payload gave us, or null when the wallet was never seen
+        waitForWallet(address: string, timeout: number) {
+            return new Promise((resolve) => {
+                const timer = setTimeout(() => {
+                    const list = waiters.get(address) || [];
+                    waiters.set(
+                        address,
+                        list.filter((entry) => entry !== done),
+                    );
+                    resolve(wallets.get(address) || null);
+                }, timeout);
+                const done = (metrics: CapturedWalletMetrics) => {
+                    clearTimeout(timer);
+                    resolve(metrics);
+                };
+                waiters.set(address, [...(waiters.get(address) || []), done]);
+            });
+        },
+
+        dispose() {
+            page.off('response', onResponse);
+            wallets.clear();
+            waiters.clear();
+        },
+    };
+}
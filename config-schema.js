@@ -0,0 +1,259 @@
+// The scraper settings that live in .env, with their types, defaults and bounds. The server validates saved
+// configs against it and serves it to the dashboard, which builds the settings form from it, and the scraper
+// reads its environment through it. Nested settings such as FILTER_RULES have their own resolvers.
+
+/**
+ * @typedef {Object} ConfigField
+ * @property {string} key
+ * @property {'integer' | 'number' | 'string' | 'url' | 'boolean' | 'enum'} type
+ * @property {string} label
+ * @property {string} description
+ * @property {string | number | boolean} default
+ * @property {number} [min]
+ * @property {number} [max]
+ * @property {string[]} [options] Allowed values of an enum
+ * @property {boolean} [hidden] Edited elsewhere in the dashboard, MIN_PNL and MIN_ROI follow the filter rules
+ */
+
+/**
+ * @typedef {Object} ScraperConfig
+ * @property {number} MIN_PNL
+ * @property {number} MIN_ROI
+ * @property {number} MAX_TOKENS_TO_PROCESS
+ * @property {number} MAX_TRADERS_PER_TOKEN
+ * @property {number} START_FROM_ROW
+ * @property {number} WORKER_COUNT
+ * @property {number} RESCAN_TTL_HOURS
+ * @property {'dom' | 'network'} EXTRACTION_MODE
+ * @property {boolean} EXTRACT_ALL_METRICS
+ * @property {number} CHROME_DEBUG_PORT
+ * @property {string} HOST_IP
+ * @property {string} BASE_URL
+ */
+
+/** @type {ConfigField[]} */
+export const CONFIG_FIELDS = [
+    {
+        key: 'MIN_PNL',
+        type: 'number',
+        label: 'Minimum PnL',
+        description: 'Minimum all-time realized PnL in USD, kept in step with the min-pnl filter rule.',
+        default: 25000,
+        min: 0,
+        hidden: true,
+    },
+    {
+        key: 'MIN_ROI',
+        type: 'number',
+        label: 'Minimum ROI',
+        description: 'Minimum ROI in percent, kept in step with the min-roi filter rule.',
+        default: 2000,
+        hidden: true,
+    },
+    {
+        key: 'MAX_TOKENS_TO_PROCESS',
+        type: 'integer',
+        label: 'Max Tokens to Process',
+        description: 'Tokens scanned per run.',
+        default: 10,
+        min: 1,
+        max: 1000,
+    },
+    {
+        key: 'MAX_TRADERS_PER_TOKEN',
+        type: 'integer',
+        label: 'Max Traders per Token',
+        description: 'Last Top Traders row looked at for each token.',
+        default: 20,
+        min: 1,
+        max: 500,
+    },
+    {
+        key: 'START_FROM_ROW',
+        type: 'integer',
+        label: 'Start From Row',
+        description: 'First Top Traders row looked at for each token.',
+        default: 3,
+        min: 1,
+        max: 500,
+    },
+    {
+        key: 'WORKER_COUNT',
+        type: 'integer',
+        label: 'Parallel Workers',
+        description: 'Browser pages scanning tokens side by side.',
+        default: 1,
+        min: 1,
+        max: 16,
+    },
+    {
+        key: 'RESCAN_TTL_HOURS',
+        type: 'number',
+        label: 'Re-scan Tokens After (hours)',
+        description: "Hours before a processed token's top traders are scanned again, 0 never scans a token twice.",
+        default: 0,
+        min: 0,
+        max: 8760,
+    },
+    {
+        key: 'EXTRACTION_MODE',
+        type: 'enum',
+        label: 'Extraction Mode',
+        description: 'Read wallet metrics from the modal text (dom) or from the API responses (network).',
+        default: 'dom',
+        options: ['dom', 'network'],
+    },
+    {
+        key: 'EXTRACT_ALL_METRICS',
+        type: 'boolean',
+        label: 'Extract All Metrics',
+        description: 'Keep extracting rejected wallets so looser filter rules can be re-applied to them. Slower.',
+        default: false,
+    },
+    {
+        key: 'CHROME_DEBUG_PORT',
+        type: 'integer',
+        label: 'Chrome Debug Port',
+        description: 'Remote debugging port of the Chrome instance the scraper connects to.',
+        default: 9222,
+        min: 1,
+        max: 65535,
+    },
+    {
+        key: 'HOST_IP',
+        type: 'string',
+        label: 'Chrome Host',
+        description: 'Host running that Chrome instance.',
+        default: 'localhost',
+    },
+    {
+        key: 'BASE_URL',
+        type: 'url',
+        label: 'Base URL',
+        description: 'Site the scraper opens the explore page of.',
+        default: 'https://neo.bullx.io',
+    },
+];
+
+const fieldsByKey = new Map(CONFIG_FIELDS.map((field) => [field.key, field]));
+
+/**
+ * Every field at its default
+ * @returns {ScraperConfig}
+ */
+export function defaultConfig() {
+    return /** @type {ScraperConfig} */ (Object.fromEntries(CONFIG_FIELDS.map((field) => [field.key, field.default])));
+}
+
+/**
+ * Read a value of a field from the config or the environment, where everything is a string
+ * @param {ConfigField} field
+ * @param {unknown} raw
+ * @returns {{ value: string | number | boolean } | { error: string }}
+ */
+export function parseConfigValue(field, raw) {
+    const text = typeof raw === 'string' ? raw.trim() : raw;
+    switch (field.type) {
+        case 'integer':
+        case 'number': {
+            const value = typeof text === 'number' ? text : Number(text);
+            if (text === '' || text === null || typeof text === 'boolean' || !Number.isFinite(value)) {
+                return { error: 'Must be a number' };
+            }
+            if (field.type === 'integer' && !Number.isInteger(value)) return { error: 'Must be a whole number' };
+            if (field.min !== undefined && value < field.min) return { error: `Must be at least ${field.min}` };
+            if (field.max !== undefined && value > field.max) return { error: `Must be at most ${field.max}` };
+            return { value };
+        }
+        case 'boolean':
+            if (text === true || text === 'true') return { value: true };
+            if (text === false || text === 'false') return { value: false };
+            return { error: 'Must be true or false' };
+        case 'enum':
+            return field.options.includes(String(text))
+                ? { value: String(text) }
+                : { error: `Must be one of ${field.options.join(', ')}` };
+        case 'url':
+            try {
+                const url = new URL(String(text));
+                if (url.protocol !== 'http:' && url.protocol !== 'https:') return { error: 'Must be an http(s) URL' };
+                return { value: String(text).replace(/\/+$/, '') };
+            } catch {
+                return { error: 'Must be a URL' };
+            }
+        default:
+            return text === '' || text === null || text === undefined
+                ? { error: 'Is required' }
+                : { value: String(text) };
+    }
+}
+
+/**
+ * Errors across fields, added to the ones of the fields themselves
+ * @param {ScraperConfig} config
+ * @returns {Record<string, string>}
+ */
+function crossFieldErrors(config) {
+    return config.START_FROM_ROW > config.MAX_TRADERS_PER_TOKEN
+        ? { START_FROM_ROW: 'Must not be past Max Traders per Token' }
+        : {};
+}
+
+/**
+ * Check a config against the schema. Missing fields get their default and settings outside the schema are
+ * passed through untouched.
+ * @param {Record<string, unknown>} [input]
+ * @returns {{ config: ScraperConfig & Record<string, unknown>, errors: Record<string, string> }} Errors by field
+ */
+export function validateConfig(input = {}) {
+    /** @type {Record<string, unknown>} */
+    const config = { ...input };
+    /** @type {Record<string, string>} */
+    const errors = {};
+    for (const field of CONFIG_FIELDS) {
+        const raw = input[field.key];
+        if (raw === undefined || raw === null || raw === '') {
+            config[field.key] = field.default;
+            continue;
+        }
+        const result = parseConfigValue(field, raw);
+        if ('error' in result) errors[field.key] = result.error;
+        else config[field.key] = result.value;
+    }
+    const valid = /** @type {ScraperConfig & Record<string, unknown>} */ (config);
+    if (Object.keys(errors).length === 0) Object.assign(errors, crossFieldErrors(valid));
+    return { config: valid, errors };
+}
+
+/**
+ * Settings from the environment, a variable that is missing or invalid gets its default
+ * @param {NodeJS.ProcessEnv} [env]
+ * @returns {{ config: ScraperConfig, errors: Record<string, string> }} Problems with the variables, by name
+ */
+export function configFromEnv(env = process.env) {
+    const config = defaultConfig();
+    /** @type {Record<string, string>} */
+    const errors = {};
+    for (const field of CONFIG_FIELDS) {
+        const raw = env[field.key];
+        if (raw === undefined || raw.trim() === '') continue;
+        const result = parseConfigValue(field, raw);
+        if ('error' in result) errors[field.key] = `${result.error}, using ${field.default}`;
+        else config[field.key] = result.value;
+    }
+    return { config, errors: { ...errors, ...crossFieldErrors(config) } };
+}
+
+/**
+ * Why an override of a field cannot be used, null when it is fine. Only the fields of the schema can be overridden,
+ * other environment variables such as NODE_OPTIONS or PATH would change how the scraper process runs
+ * @param {string} key
+ * @param {string} value
+ * @returns {string | null}
+ */
+export function validateConfigOverride(key, value) {
+    const field = fieldsByKey.get(key);
+    if (!field) return 'not a scraper setting';
+    const result = parseConfigValue(field, value);
+    return 'error' in result ? result.error : null;
+}
@@ -0,0 +1,67 @@
+// Config changes pushed to a running scraper. After a POST /config the server writes the saved config to the
+// scraper's stdin as one line with a prefix, and test.ts swaps in the new filter thresholds between wallets. The
+// other settings, such as CHROME_DEBUG_PORT or WORKER_COUNT, stay fixed for the run and a change to them is only
+// logged.
+import { CONFIG_FIELDS } from './config-schema.js';
+
+export const CONFIG_UPDATE_PREFIX = '@@config ';
+
+// Settings the filter rules are seeded from, they take effect with the rules
+const FILTER_SETTINGS = ['MIN_PNL', 'MIN_ROI'];
+
+/**
+ * Line to write to the scraper's stdin for a saved config
+ * @param {Record<string, unknown>} config
+ * @returns {string}
+ */
+export function formatConfigUpdate(config) {
+    return `${CONFIG_UPDATE_PREFIX}${JSON.stringify(config)}`;
+}
+
+/**
+ * Config written by formatConfigUpdate, null for any other line
+ * @param {string} line
+ * @returns {Record<string, unknown> | null}
+ */
+export function parseConfigUpdate(line) {
+    if (!line.startsWith(CONFIG_UPDATE_PREFIX)) return null;
+    try {
+        const config = JSON.parse(line.slice(CONFIG_UPDATE_PREFIX.length));
+        return config && typeof config === 'object' && !Array.isArray(config) ? config : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * What changed between two resolved filter pipelines, one entry per change, e.g. "min-pnl min 25000 -> 30000"
+ * @param {import('./filters.js').FilterRule[]} before
+ * @param {import('./filters.js').FilterRule[]} after
+ * @returns {string[]}
+ */
+export function describeFilterRuleChanges(before, after) {
+    const changes = [];
+    for (const rule of after) {
+        const previous = before.find((entry) => entry.id === rule.id);
+        if (!previous) continue;
+        if (previous.enabled !== rule.enabled) changes.push(`${rule.id} ${rule.enabled ? 'enabled' : 'disabled'}`);
+        for (const [key, value] of Object.entries(rule.params)) {
+            if (previous.params[key] !== value) changes.push(`${rule.id} ${key} ${previous.params[key]} -> ${value}`);
+        }
+    }
+    const order = (rules) => rules.map((rule) => rule.id).join(',');
+    if (order(before) !== order(after)) changes.push(`order ${after.map((rule) => rule.id).join(', ')}`);
+    return changes;
+}
+
+/**
+ * Settings of the schema that differ between two saved configs and that a running scraper does not pick up
+ * @param {Record<string, unknown>} before
+ * @param {Record<string, unknown>} after
+ * @returns {string[]} Keys of the changed settings
+ */
+export function changedFixedSettings(before, after) {
+    return CONFIG_FIELDS.filter(({ key }) => !FILTER_SETTINGS.includes(key))
+        .filter(({ key }) => after[key] !== undefined && String(after[key]) !== String(before[key]))
+        .map(({ key }) => key);
+}
@@ -0,0 +1,237 @@
+import dotenv from 'dotenv';
+import { chromium, type Page } from 'playwright';
+import {
+    fillSelector,
+    loadSelectors,
+    SELECTOR_NAMES,
+    SELECTOR_PAGES,
+    type SelectorName,
+    type SelectorPage,
+    type SelectorRegistry,
+} from './selectors';
+import { TOKEN_COLUMNS } from './token-filters.js';
+import { configFromEnv } from './config-schema.js';
+
+// Health check for selectors.json: walks the same path as the scraper (explore table, first token's
+// Top Traders list, a wallet modal and its Most Profitable tab) and reports which selectors still
+// match, plus which explore columns the header patterns find. Selectors on pages that could not be
+// reached are reported as skipped.
+//
+// Usage: npx tsx doctor.ts [--json]
+// --json prints the report as JSON only, that is what the server's POST /doctor returns.
+
+dotenv.config();
+
+// Same connection settings as the scraper, see config-schema.js
+const { CHROME_DEBUG_PORT, BASE_URL, HOST_IP } = configFromEnv(process.env).config;
+
+// Row number filled into selectors with a {row} placeholder
+const SAMPLE_ROW = 1;
+
+const jsonOutput = process.argv.includes('--json');
+
+interface SelectorCheck {
+    // Selector name, or column:<id> for an explore column header pattern
+    name: SelectorName | `column:${string}`;
+    page: SelectorPage;
+    description?: string;
+    status: 'ok' | 'broken' | 'skipped';
+    alternatives: { selector: string; matches: number }[];
+    note?: string;
+}
+
+interface DoctorReport {
+    ok: boolean;
+    baseUrl: string;
+    selectorsFile: string;
+    selectorsVersion: number;
+    checkedAt: string;
+    reachedPages: SelectorPage[];
+    checks: SelectorCheck[];
+    error?: string;
+}
+
+// Progress goes to stderr in JSON mode so stdout only holds the report
+function log(message: string): void {
+    (jsonOutput ? console.error : console.log)(message);
+}
+
+// Count the elements a selector matches, inside every element of its `within` scope
+async function countMatches(page: Page, registry: SelectorRegistry, name: SelectorName, selector: string) {
+    const entry = registry.entries[name];
+    const filled = fillSelector(selector, { row: SAMPLE_ROW });
+    const locator = entry.within
+        ? page.locator(fillSelector(registry.selectors[entry.within], { row: SAMPLE_ROW })).locator(filled)
+        : page.locator(filled);
+    return locator.count().catch(() => 0);
+}
+
+async function checkPage(page: Page, registry: SelectorRegistry, pageName: SelectorPage): Promise<SelectorCheck[]> {
+    const checks: SelectorCheck[] = [];
+    for (const name of SELECTOR_NAMES.filter((entryName) => registry.entries[entryName].page === pageName)) {
+        const alternatives = [];
+        for (const selector of registry.alternatives[name]) {
+            alternatives.push({ selector, matches: await countMatches(page, registry, name, selector) });
+        }
+        checks.push({
+            name,
+            page: pageName,
+            description: registry.entries[name].description,
+            status: alternatives.some((alternative) => alternative.matches > 0) ? 'ok' : 'broken',
+            alternatives,
+        });
+    }
+    return checks;
+}
+
+// Match the explore table headers against the column patterns
+async function checkColumns(page: Page, registry: SelectorRegistry): Promise<SelectorCheck[]> {
+    const headers = await page
+        .$$eval(registry.selectors.exploreHeaderCell, (cells) => cells.map((cell) => cell.textContent?.trim() || ''))
+        .catch(() => [] as string[]);
+    return TOKEN_COLUMNS.map(({ id, label }) => {
+        const pattern = registry.columns[id];
+        const matches = headers.filter((header) => pattern.test(header)).length;
+        return {
+            name: `column:${id}` as const,
+            page: 'explore' as const,
+            description: `${label} column header`,
+            status: matches > 0 ? ('ok' as const) : ('broken' as const),
+            alternatives: [{ selector: pattern.source, matches }],
+        };
+    });
+}
+
+// Get the page into the state each group of selectors appears in
+async function openPage(page: Page, registry: SelectorRegistry, pageName: SelectorPage): Promise<void> {
+    const { selectors } = registry;
+    switch (pageName) {
+        case 'explore':
+            await page.goto(`${BASE_URL}/explore`, { waitUntil: 'domcontentloaded', timeout: 60000 });
+            await page.waitForSelector(selectors.exploreTable, { timeout: 30000 });
+            await page.waitForTimeout(2000);
+            break;
+        case 'token':
+            await page.locator(selectors.tokenRow).first().click();
+            await page.waitForTimeout(2000);
+            break;
+        case 'traders':
+            await page.click(selectors.topTradersTab);
+            await page.waitForSelector(`${selectors.traderRow} ${selectors.solscanLink}`, { timeout: 10000 });
+            break;
+        case 'modal':
+            await page
+                .locator(`${selectors.traderRow}:has(${selectors.solscanLink})`)
+                .first()
+                .locator(selectors.walletButton)
+                .click();
+            await page.waitForTimeout(3000);
+            break;
+        case 'most-profitable':
+            await page.click(selectors.mostProfitableTab);
+            await page.waitForTimeout(1000);
+            break;
+    }
+}
+
+async function runDoctor(registry: SelectorRegistry): Promise<DoctorReport> {
+    const report: DoctorReport = {
+        ok: false,
+        baseUrl: BASE_URL,
+        selectorsFile: registry.file,
+        selectorsVersion: registry.version,
+        checkedAt: new Date().toISOString(),
+        reachedPages: [],
+        checks: [],
+    };
+
+    const browser = await chromium.connectOverCDP(`http://${HOST_IP}:${CHROME_DEBUG_PORT}`);
+    const context = browser.contexts()[0] || (await browser.newContext());
+    const page = await context.newPage();
+
+    try {
+        for (const pageName of SELECTOR_PAGES) {
+            log(`Checking ${pageName} selectors...`);
+            try {
+                await openPage(page, registry, pageName);
+            } catch (error) {
+                // Every later page is reached through this one, so report the rest as skipped
+                const reason = error instanceof Error ? error.message.split('\n')[0] : String(error);
+                report.error = `Could not open the ${pageName} page: ${reason}`;
+                break;
+            }
+            report.reachedPages.push(pageName);
+            report.checks.push(...(await checkPage(page, registry, pageName)));
+            if (pageName === 'explore') report.checks.push(...(await checkColumns(page, registry)));
+        }
+    } finally {
+        await page.close().catch(() => undefined);
+        await browser.close();
+    }
+
+    for (const name of SELECTOR_NAMES) {
+        if (report.checks.some((check) => check.name === name)) continue;
+        const entry = registry.entries[name];
+        report.checks.push({
+            name,
+            page: entry.page,
+            description: entry.description,
+            status: 'skipped',
+            alternatives: registry.alternatives[name].map((selector) => ({ selector, matches: 0 })),
+            note: `${entry.page} page was not reached`,
+        });
+    }
+    if (!report.reachedPages.includes('explore')) {
+        for (const { id, label } of TOKEN_COLUMNS) {
+            report.checks.push({
+                name: `column:${id}`,
+                page: 'explore',
+                description: `${label} column header`,
+                status: 'skipped',
+                alternatives: [{ selector: registry.columns[id].source, matches: 0 }],
+                note: 'explore page was not reached',
+            });
+        }
+    }
+    report.ok = report.checks.every((check) => check.status === 'ok');
+    return report;
+}
+
+function printReport(report: DoctorReport): void {
+    console.log(`\nSelectors v${report.selectorsVersion} (${report.selectorsFile}) against ${report.baseUrl}`);
+    for (const pageName of SELECTOR_PAGES) {
+        console.log(`\n${pageName}`);
+        for (const check of report.checks.filter((entry) => entry.page === pageName)) {
+            const matches = check.alternatives.map((alternative) => alternative.matches).join('/');
+            console.log(`  ${check.status.toUpperCase().padEnd(8)} ${check.name.padEnd(22)} ${matches.padEnd(6)}`);
+            if (check.status === 'broken') {
+                check.alternatives.forEach((alternative) => console.log(`           ${alternative.selector}`));
+            }
+        }
+    }
+
+    const broken = report.checks.filter((check) => check.status === 'broken').length;
+    const skipped = report.checks.filter((check) => check.status === 'skipped').length;
+    if (report.error) console.log(`\n${report.error}`);
+    console.log(report.ok ? '\nAll selectors resolve' : `\n${broken} broken, ${skipped} skipped`);
+}
+
+async function main() {
+    const registry = loadSelectors();
+    const report = await runDoctor(registry);
+    if (jsonOutput) {
+        console.log(JSON.stringify(report, null, 2));
+    } else {
+        printReport(report);
+    }
+    process.exit(report.ok ? 0 : 1);
+}
+
+main().catch((error) => {
+    if (jsonOutput) {
+        console.log(JSON.stringify({ ok: false, error: error instanceof Error ? error.message : String(error) }));
+    } else {
+        console.error('Error running doctor:', error);
+    }
+    process.exit(2);
+});
@@ -0,0 +1,194 @@
+// Wallet acceptance rules. The scraper runs them in the configured order and stops at the first
+// rule that rejects a wallet. A rule is only checked once the metrics it needs have been extracted,
+// so cheap checks like PnL can reject a wallet before the slower modal tabs are opened.
+
+/**
+ * @typedef {Object} TimeGroupCounts
+ * @property {number} seconds
+ * @property {number} lessThan30m
+ * @property {number} moreThan30m
+ * @property {number} lessThan2h
+ * @property {number} moreThan2h
+ * @property {number} days
+ * @property {number} weeks
+ */
+
+/**
+ * @typedef {Object} WalletMetrics
+ * @property {number} [pnl] All-time realized PnL in dollars
+ * @property {number} [sevenDayPnl] 7D realized PnL in dollars
+ * @property {number} [revenue] Total revenue in dollars
+ * @property {number} [spent] Total spent in dollars
+ * @property {number} [roi] ROI in percent
+ * @property {TimeGroupCounts} [timeGroups] Number of trades per holding-time bucket
+ * @property {number} [mostProfitableCount] Rows in the Most Profitable tab
+ * @property {number} [zeroProfitCount] Most Profitable rows with a $0 profit
+ */
+
+/**
+ * @typedef {Object} FilterRule
+ * @property {string} id
+ * @property {boolean} enabled
+ * @property {Record<string, number>} params
+ */
+
+/**
+ * @typedef {Object} FilterResult
+ * @property {boolean} passed
+ * @property {string} [ruleId] The rule that rejected the wallet
+ * @property {string} [reason]
+ */
+
+/**
+ * Every rule the scraper knows, in the default order. `requires` names the metrics the rule reads.
+ * @type {Array<{ id: string, label: string, description: string, requires: string[], params: Record<string, number>, check: (metrics: WalletMetrics, params: Record<string, number>) => string | null }>}
+ */
+export const FILTER_RULE_DEFINITIONS = [
+    {
+        id: 'min-pnl',
+        label: 'Minimum realized PnL',
+        description: 'Reject wallets whose all-time realized PnL is below the minimum (USD).',
+        requires: ['pnl'],
+        params: { min: 25000 },
+        check: (metrics, params) => (metrics.pnl < params.min ? `PnL is too low: ${metrics.pnl}` : null),
+    },
+    {
+        id: 'min-7d-pnl',
+        label: 'Minimum 7D realized PnL',
+        description: 'Reject wallets whose realized PnL over the last 7 days is below the minimum (USD).',
+        requires: ['sevenDayPnl'],
+        params: { min: 0 },
+        check: (metrics, params) =>
+            metrics.sevenDayPnl < params.min ? `7D PnL is too low: ${metrics.sevenDayPnl}` : null,
+    },
+    {
+        id: 'min-roi',
+        label: 'Minimum ROI',
+        description: 'Reject wallets whose ROI is below the minimum (percent).',
+        requires: ['roi'],
+        params: { min: 2000 },
+        check: (metrics, params) =>
+            metrics.roi < params.min ? `ROI is too low (${metrics.roi.toFixed(2)}% < ${params.min}%)` : null,
+    },
+    {
+        id: 'seconds-dominance',
+        label: 'Not mostly second-long trades',
+        description: 'Reject wallets with more trades held for seconds than in any other holding-time group.',
+        requires: ['timeGroups'],
+        params: {},
+        check: (metrics) => {
+            const { seconds, ...others } = metrics.timeGroups;
+            const highestCount = Math.max(...Object.values(others));
+            return seconds > highestCount
+                ? `most trades are in seconds (${seconds} trades in seconds vs ${highestCount} in other groups)`
+                : null;
+        },
+    },
+    {
+        id: 'min-most-profitable-trades',
+        label: 'Minimum most profitable trades',
+        description: 'Reject wallets with fewer rows than the minimum in the Most Profitable tab.',
+        requires: ['mostProfitableCount'],
+        params: { min: 10 },
+        check: (metrics, params) =>
+            metrics.mostProfitableCount < params.min
+                ? `Not enough most profitable rows (${metrics.mostProfitableCount} rows)`
+                : null,
+    },
+    {
+        id: 'max-zero-profit-trades',
+        label: 'Maximum zero-profit trades',
+        description: 'Reject wallets with more $0 rows than the maximum in the Most Profitable tab.',
+        requires: ['zeroProfitCount', 'mostProfitableCount'],
+        params: { max: 3 },
+        check: (metrics, params) =>
+            metrics.zeroProfitCount > params.max
+                ? `too many 0s (${metrics.zeroProfitCount} out of ${metrics.mostProfitableCount})`
+                : null,
+    },
+];
+
+const definitionsById = new Map(FILTER_RULE_DEFINITIONS.map((definition) => [definition.id, definition]));
+
+/**
+ * Default rule pipeline. MIN_PNL and MIN_ROI from older configs seed the PnL and ROI thresholds.
+ * @param {Record<string, unknown>} [config]
+ * @returns {FilterRule[]}
+ */
+export function defaultFilterRules(config = {}) {
+    return FILTER_RULE_DEFINITIONS.map((definition) => {
+        const params = { ...definition.params };
+        if (definition.id === 'min-pnl' && Number(config.MIN_PNL)) params.min = Number(config.MIN_PNL);
+        if (definition.id === 'min-roi' && Number(config.MIN_ROI)) params.min = Number(config.MIN_ROI);
+        return { id: definition.id, enabled: true, params };
+    });
+}
+
+/**
+ * Normalise the saved FILTER_RULES: keep the configured order, drop unknown rules,
+ * fill in missing params and append rules the config does not mention yet.
+ * @param {Record<string, unknown>} [config]
+ * @returns {FilterRule[]}
+ */
+export function resolveFilterRules(config = {}) {
+    const defaults = defaultFilterRules(config);
+    const configured = Array.isArray(config.FILTER_RULES) ? config.FILTER_RULES : [];
+    const resolved = [];
+
+    for (const rule of configured) {
+        const fallback = defaults.find((entry) => entry.id === rule?.id);
+        if (!fallback || resolved.some((entry) => entry.id === rule.id)) continue;
+
+        const params = { ...fallback.params };
+        for (const key of Object.keys(params)) {
+            const value = Number(rule.params?.[key]);
+            if (rule.params?.[key] !== undefined && rule.params[key] !== '' && Number.isFinite(value)) {
+                params[key] = value;
+            }
+        }
+        resolved.push({ id: rule.id, enabled: rule.enabled !== false, params });
+    }
+
+    for (const rule of defaults) {
+        if (!resolved.some((entry) => entry.id === rule.id)) resolved.push(rule);
+    }
+    return resolved;
+}
+
+/**
+ * Run the enabled rules whose metrics are available. Rules waiting on metrics that have not
+ * been extracted yet are skipped, so this can be called after every extraction step.
+ * @param {FilterRule[]} rules
+ * @param {WalletMetrics} metrics
+ * @returns {FilterResult}
+ */
+export function evaluateFilterRules(rules, metrics) {
+    for (const rule of rules) {
+        const definition = definitionsById.get(rule.id);
+        if (!definition || !rule.enabled) continue;
+        if (definition.requires.some((key) => metrics[key] === undefined)) continue;
+
+        const reason = definition.check(metrics, rule.params);
+        if (reason) {
+            return { passed: false, ruleId: rule.id, reason };
+        }
+    }
+    return { passed: true };
+}
+
+/**
+ * Metrics the enabled rules need that have not been extracted, e.g. for a wallet stored after an
+ * early rejection. Such a wallet cannot be accepted until it is scanned again.
+ * @param {FilterRule[]} rules
+ * @param {WalletMetrics} metrics
+ * @returns {string[]}
+ */
+export function missingFilterMetrics(rules, metrics) {
+    const missing = new Set();
+    for (const rule of rules) {
+        const definition = definitionsById.get(rule.id);
+        if (!definition || !rule.enabled) continue;
+        definition.requires.filter((key) => metrics[key] === undefined).forEach((key) => missing.add(key));
+    }
+    return [...missing];
+}
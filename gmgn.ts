@@ -1,6 +1,7 @@
-import { existsSync, readFileSync, writeFileSync } from 'fs';
-import path from 'path';
 import { chromium } from 'playwright';
+import { parseCurrencyIn, parseDuration, tradeAgeGroup, type TradeAgeGroup } from './parsers';
+import { fillSelector, loadSelectors, toXPath } from './selectors';
+import { openStore } from './store.js';
 
 const MIN_PNL = 25000;
 const MIN_ROI = 2000;
@@ -8,6 +9,12 @@ const MAX_TOKENS_TO_PROCESS = 100; // Number of tokens/rows to process
 const MAX_TRADERS_PER_TOKEN = 100; // Maximum number of top traders to process per token
 const START_FROM_ROW = 40;
 
+// Page selectors from selectors.json, shared with test.ts
+const selectors = loadSelectors().selectors;
+
+// Portfolios are saved to the same store as test.ts, in the working directory
+const store = openStore(process.cwd());
+
 (async () => {
     // Connect to the Chrome instance via its debugging port
     const browser = await chromium.connectOverCDP('http://localhost:9222');
@@ -19,11 +26,11 @@ const START_FROM_ROW = 40;
     await page.goto('https://neo.bullx.io/explore');
 
     // Wait for the table body to be visible
-    await page.waitForSelector('.b-table-body');
+    await page.waitForSelector(selectors.exploreTable);
     await page.waitForTimeout(2000);
 
     // Get all token rows
-    const tokenRows = await page.$$('.b-table-row');
+    const tokenRows = await page.$$(selectors.tokenRow);
     console.log(`Found ${tokenRows.length} token rows in the table`);
 
     // Keep track of processed token names to avoid duplicates
@@ -34,19 +41,19 @@ const START_FROM_ROW = 40;
         // Navigate back to the main page if we're not on the first token
         if (tokenIndex > 0) {
             await page.goto('https://neo.bullx.io/explore');
-            await page.waitForSelector('.b-table-body');
+            await page.waitForSelector(selectors.exploreTable);
             await page.waitForTimeout(2000);
         }
 
         // Find all rows that we haven't processed yet
-        const availableRows = await page.$$('.b-table-row');
+        const availableRows = await page.$$(selectors.tokenRow);
         let selectedTokenName = '';
         let foundNewToken = false;
 
         // Try to find a row we haven't processed yet
         for (const row of availableRows) {
             // Get the token name from the span
-            const nameSpan = await row.$('span.font-normal.text-grey-50.block.text-xs');
+            const nameSpan = await row.$(selectors.tokenName);
             if (nameSpan) {
                 const tokenName = (await nameSpan.textContent()) || '';
                 if (tokenName && !processedTokenNames.has(tokenName)) {
@@ -71,20 +78,20 @@ const START_FROM_ROW = 40;
         await page.waitForTimeout(1200);
 
         // Find all spans containing "Top Traders" and log their count and text content
-        const topTradersSpans = await page.$$('span:text("Top Traders")');
+        const topTradersSpans = await page.$$(selectors.topTradersTab);
 
         for (const span of topTradersSpans) {
             const text = await span.textContent();
         }
 
         // Wait for and click the "Top Traders" span
-        await page.click('span:text("Top Traders")');
+        await page.click(selectors.topTradersTab);
 
         await page.waitForTimeout(1000);
 
         // Wait for the table row containing a Solscan link
         try {
-            await page.waitForSelector('.b-table-row a[href*="solscan"]', { timeout: 10000 });
+            await page.waitForSelector(`${selectors.traderRow} ${selectors.solscanLink}`, { timeout: 10000 });
         } catch (error) {
             console.log('Could not find Solscan links within 10 seconds, going back to previous page');
             await page.goBack();
@@ -100,7 +107,7 @@ const START_FROM_ROW = 40;
 
             try {
                 // Find the row with the specific row number in its first cell
-                const rowSelector = `.b-table-row:has(.b-table-cell span:text-is("${rowNumber}"))`;
+                const rowSelector = fillSelector(selectors.traderRowByNumber, { row: rowNumber });
 
                 // Progressive scrolling to find the target row in virtual list
                 let isRowPresent = false;
@@ -117,15 +124,15 @@ const START_FROM_ROW = 40;
                     if (isRowPresent) break;
 
                     // Scroll down progressively to load more rows
-                    await page.evaluate(() => {
-                        const tableBody = document.querySelector('.b-table .no-scrollbar .no-scrollbar');
+                    await page.evaluate((scrollerSelector) => {
+                        const tableBody = document.querySelector(scrollerSelector);
                         if (tableBody) {
                             // Scroll down by a reasonable amount
                             tableBody.scrollTop += 300;
                             return tableBody.scrollTop;
                         }
                         return 0;
-                    });
+                    }, selectors.tradersScroller);
 
                     await page.waitForTimeout(500); // Wait for DOM to update
                     scrollAttempts++;
@@ -151,44 +158,52 @@ const START_FROM_ROW = 40;
                     console.log(`Row ${rowNumber} is not visible, using additional scrolling methods`);
 
                     // Find the scrollable container and scroll it
-                    await page.evaluate((rowNum) => {
-                        // Find the row with this number
-                        const spanWithNumber = Array.from(document.querySelectorAll('.b-table-cell span')).find(
-                            (span) => span.textContent?.trim() === String(rowNum),
-                        );
-
-                        if (spanWithNumber) {
-                            // Get the row containing this span
-                            const targetRow = spanWithNumber.closest('.b-table-row');
-                            if (targetRow) {
-                                // Scroll with both methods for reliability
-                                targetRow.scrollIntoView({ behavior: 'smooth', block: 'center' });
-
-                                // Also scroll the container a bit more
-                                const scrollables = Array.from(
-                                    document.querySelectorAll('.b-table-body, .no-scrollbar, [style*="overflow"]'),
-                                ).filter((el) => {
-                                    const style = window.getComputedStyle(el);
-                                    return (
-                                        style.overflow === 'auto' ||
-                                        style.overflow === 'scroll' ||
-                                        style.overflowY === 'auto' ||
-                                        style.overflowY === 'scroll'
-                                    );
-                                });
-
-                                if (scrollables.length > 0) {
-                                    // Get the innermost container
-                                    const container = scrollables[scrollables.length - 1];
-                                    // Ensure it's scrolled enough to see the row
-                                    // Cast to HTMLElement to access offsetTop property
-                                    const targetRowElement = targetRow as HTMLElement;
-                                    container.scrollTop =
-                                        targetRowElement.offsetTop - (container as HTMLElement).clientHeight / 2;
+                    await page.evaluate(
+                        ({ rowNum, numberSelector, rowSelector, scrollContainerSelector }) => {
+                            // Find the row with this number
+                            const spanWithNumber = Array.from(document.querySelectorAll(numberSelector)).find(
+                                (span) => span.textContent?.trim() === String(rowNum),
+                            );
+
+                            if (spanWithNumber) {
+                                // Get the row containing this span
+                                const targetRow = spanWithNumber.closest(rowSelector);
+                                if (targetRow) {
+                                    // Scroll with both methods for reliability
+                                    targetRow.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+                                    // Also scroll the container a bit more
+                                    const scrollables = Array.from(
+                                        document.querySelectorAll(scrollContainerSelector),
+                                    ).filter((el) => {
+                                        const style = window.getComputedStyle(el);
+                                        return (
+                                            style.overflow === 'auto' ||
+                                            style.overflow === 'scroll' ||
+                                            style.overflowY === 'auto' ||
+                                            style.overflowY === 'scroll'
+                                        );
+                                    });
+
+                                    if (scrollables.length > 0) {
+                                        // Get the innermost container
+                                        const container = scrollables[scrollables.length - 1];
+                                        // Ensure it's scrolled enough to see the row
+                                        // Cast to HTMLElement to access offsetTop property
+                                        const targetRowElement = targetRow as HTMLElement;
+                                        container.scrollTop =
+                                            targetRowElement.offsetTop - (container as HTMLElement).clientHeight / 2;
+                                    }
                                 }
                             }
-                        }
-                    }, rowNumber);
+                        },
+                        {
+                            rowNum: rowNumber,
+                            numberSelector: selectors.traderRowNumber,
+                            rowSelector: selectors.traderRow,
+                            scrollContainerSelector: selectors.scrollContainers,
+                        },
+                    );
 
                     // Wait longer for scroll to complete
                     await page.waitForTimeout(800);
@@ -196,7 +211,7 @@ const START_FROM_ROW = 40;
 
                 // Check if the row has a Solscan link
                 const hasSolscanLink = await row
-                    .locator('a[href*="solscan"]')
+                    .locator(selectors.solscanLink)
                     .count()
                     .then((count) => count > 0);
                 if (!hasSolscanLink) {
@@ -205,7 +220,7 @@ const START_FROM_ROW = 40;
                 }
 
                 // Find and click the div after the Solscan link
-                const divUnderLink = await row.locator('a[href*="solscan"] + div');
+                const divUnderLink = await row.locator(selectors.walletButton);
                 if ((await divUnderLink.count()) === 0) {
                     console.log(`Could not find div under Solscan link for row ${rowNumber}`);
                     continue;
@@ -218,8 +233,7 @@ const START_FROM_ROW = 40;
                 await page.waitForTimeout(2000);
 
                 // Find and extract Total Revenue
-                const totalRevenueSpan = await page.locator('span:text("Total Revenue")');
-                const revenueValueSpan = totalRevenueSpan.locator('xpath=./following-sibling::span');
+                const revenueValueSpan = page.locator(selectors.totalRevenueValue);
 
                 // Wait for loader to disappear and number to appear
                 await page.waitForFunction((selector) => {
@@ -236,11 +250,10 @@ const START_FROM_ROW = 40;
                         !element.textContent.includes('...') &&
                         /[\d.]+[MK]?/.test(element.textContent)
                     );
-                }, '//span[text()="Total Revenue"]/following-sibling::span');
+                }, toXPath(selectors.totalRevenueValue));
 
                 // Find and extract Realized PnL
-                const realizedPnLDiv = await page.locator('span:text("Realized PnL")');
-                const pnlValueDiv = realizedPnLDiv.locator('xpath=./following-sibling::span').first();
+                const pnlValueDiv = page.locator(selectors.realizedPnlValue).first();
 
                 // Wait for loader to disappear and number to appear
                 await page.waitForFunction((selector) => {
@@ -257,40 +270,31 @@ const START_FROM_ROW = 40;
                         !element.textContent.includes('...') &&
                         /[\d.]+[MK]?/.test(element.textContent)
                     );
-                }, '//span[text()="Realized PnL"]/following-sibling::span[1]');
-
-                const revenueValue = (await revenueValueSpan.textContent()) || '0';
-                const cleanRevenueValue = revenueValue.replace(/[^0-9MKk.]/g, ''); // Remove everything except numbers, dots, M and K
-
-                let revenueDollars = parseFloat(cleanRevenueValue);
-                if (cleanRevenueValue.toUpperCase().endsWith('M')) {
-                    revenueDollars *= 1000000;
-                } else if (cleanRevenueValue.toUpperCase().endsWith('K')) {
-                    revenueDollars *= 1000;
-                }
-
-                const pnlValue = (await pnlValueDiv.textContent()) || '0';
-                const cleanPnlValue = pnlValue.replace(/[^0-9MKk.]/g, '');
-
-                let pnlDollars = parseFloat(cleanPnlValue);
-                if (cleanPnlValue.toUpperCase().endsWith('M')) {
-                    pnlDollars *= 1000000;
-                } else if (cleanPnlValue.toUpperCase().endsWith('K')) {
-                    pnlDollars *= 1000;
+                }, toXPath(selectors.realizedPnlValue));
+
+                const revenue = parseCurrencyIn((await revenueValueSpan.textContent()) || '');
+                const pnl = parseCurrencyIn((await pnlValueDiv.textContent()) || '');
+                if (!revenue.ok || !pnl.ok) {
+                    const error = !revenue.ok ? revenue.error : !pnl.ok ? pnl.error : null;
+                    console.log(`Row ${rowNumber} - Could not read wallet values:`, error?.message);
+                    await page.click(selectors.modalClose);
+                    await page.waitForTimeout(500);
+                    continue;
                 }
+                const revenueDollars = revenue.value.value;
+                const pnlDollars = pnl.value.value;
 
                 console.log(`Row ${rowNumber} - Realized PnL:`, pnlDollars);
                 if (pnlDollars < MIN_PNL) {
                     console.log(`Row ${rowNumber} - Not interested in wallet - PnL is too low: ${pnlDollars}`);
-                    await page.click('button.w-5.h-5.bg-transparent.outline-none');
+                    await page.click(selectors.modalClose);
                     await page.waitForTimeout(500);
                     continue;
                 }
                 console.log(`Row ${rowNumber} - Total Revenue:`, revenueDollars);
 
                 // Find and extract Total Spent
-                const totalSpentSpan = await page.locator('span:text("Total Spent")');
-                const spentValueSpan = totalSpentSpan.locator('xpath=./following-sibling::span');
+                const spentValueSpan = page.locator(selectors.totalSpentValue);
 
                 // Wait for loader to disappear and number to appear
                 await page.waitForFunction((selector) => {
@@ -307,17 +311,16 @@ const START_FROM_ROW = 40;
                         !element.textContent.includes('...') &&
                         /[\d.]+[MK]?/.test(element.textContent)
                     );
-                }, '//span[text()="Total Spent"]/following-sibling::span');
-
-                const spentValue = (await spentValueSpan.textContent()) || '0';
-                const cleanSpentValue = spentValue.replace(/[^0-9MKk.]/g, '');
+                }, toXPath(selectors.totalSpentValue));
 
-                let spentDollars = parseFloat(cleanSpentValue);
-                if (cleanSpentValue.toUpperCase().endsWith('M')) {
-                    spentDollars *= 1000000;
-                } else if (cleanSpentValue.toUpperCase().endsWith('K')) {
-                    spentDollars *= 1000;
+                const spent = parseCurrencyIn((await spentValueSpan.textContent()) || '');
+                if (!spent.ok) {
+                    console.log(`Row ${rowNumber} - Could not read Total Spent:`, spent.error.message);
+                    await page.click(selectors.modalClose);
+                    await page.waitForTimeout(500);
+                    continue;
                 }
+                const spentDollars = spent.value.value;
                 console.log(`Row ${rowNumber} - Total Spent:`, spentDollars);
 
                 // Calculate and log ROI
@@ -325,30 +328,22 @@ const START_FROM_ROW = 40;
                 console.log(`Row ${rowNumber} - ROI:`, roi.toFixed(2) + '%');
                 if (roi < MIN_ROI) {
                     console.log(`Row ${rowNumber} - Not interested in wallet - ROI is too low`);
-                    await page.click('button.w-5.h-5.bg-transparent.outline-none');
+                    await page.click(selectors.modalClose);
                     await page.waitForTimeout(500);
                     continue;
                 }
 
                 // Find the link in the drawer content and extract portfolio ID
-                const drawerLink = await page.locator('.ant-modal-content a[href*="/portfolio/"]');
+                const drawerLink = page.locator(selectors.portfolioLink);
                 const href = await drawerLink.getAttribute('href');
                 const portfolioId = href?.split('/portfolio/')[1];
                 console.log(`Row ${rowNumber} - Portfolio ID:`, portfolioId);
 
                 // Find all rows in the modal
-                const rows = await page.locator('.ant-modal-content .b-table-row').all();
+                const rows = await page.locator(selectors.tradeRow).all();
 
                 // For each row, get the first cell's span text within the a tag and group by time
-                const timeGroups: {
-                    seconds: string[];
-                    lessThan30m: string[];
-                    moreThan30m: string[];
-                    lessThan2h: string[];
-                    moreThan2h: string[];
-                    days: string[];
-                    weeks: string[];
-                } = {
+                const timeGroups: Record<TradeAgeGroup, string[]> = {
                     seconds: [],
                     lessThan30m: [],
                     moreThan30m: [],
@@ -359,36 +354,18 @@ const START_FROM_ROW = 40;
                 };
 
                 for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
-                    const spanText = await rows[rowIndex]
-                        .locator('.b-table-cell')
-                        .first()
-                        .locator('a span')
-                        .textContent();
+                    const spanText = await rows[rowIndex].locator(selectors.tradeAge).textContent();
                     const trimmedText = spanText?.trim() || '';
 
                     // Parse the time value
-                    if (trimmedText.includes('s')) {
-                        timeGroups.seconds.push(trimmedText);
-                    } else if (trimmedText.includes('m')) {
-                        const value = parseInt(trimmedText);
-                        if (value < 30) {
-                            timeGroups.lessThan30m.push(trimmedText);
-                        } else {
-                            timeGroups.moreThan30m.push(trimmedText);
-                        }
-                    } else if (trimmedText.includes('h')) {
-                        const value = parseInt(trimmedText);
-                        if (value < 2) {
-                            timeGroups.lessThan2h.push(trimmedText);
-                        } else {
-                            timeGroups.moreThan2h.push(trimmedText);
-                        }
-                    } else if (trimmedText.includes('d')) {
-                        timeGroups.days.push(trimmedText);
-                    } else if (trimmedText.includes('w')) {
-                        timeGroups.weeks.push(trimmedText);
+                    const age = parseDuration(trimmedText);
+                    if (age.ok) {
+                        timeGroups[tradeAgeGroup(age.value)].push(trimmedText);
                     } else {
-                        console.log(`Row ${rowNumber}, Trade ${rowIndex + 1} - Unrecognized time format:`, trimmedText);
+                        console.log(
+                            `Row ${rowNumber}, Trade ${rowIndex + 1} - Unrecognized time format:`,
+                            age.error.message,
+                        );
                     }
                 }
 
@@ -413,7 +390,7 @@ const START_FROM_ROW = 40;
 
                 if (timeGroups.seconds.length > highestCount) {
                     console.log(`Row ${rowNumber} - Not interested in wallet - most trades are in seconds`);
-                    await page.click('button.w-5.h-5.bg-transparent.outline-none');
+                    await page.click(selectors.modalClose);
                     await page.waitForTimeout(500);
                     continue;
                 }
@@ -424,38 +401,18 @@ const START_FROM_ROW = 40;
                     link: `http://neo.bullx.io/portfolio/${portfolioId}`,
                 };
 
-                // Read existing data from file, or create new if doesn't exist
-                const filePath = path.join('portfolios.json');
-
-                let portfolios = {};
-
-                try {
-                    if (existsSync(filePath)) {
-                        const fileContent = readFileSync(filePath, 'utf8');
-                        portfolios = JSON.parse(fileContent);
-                    }
-                } catch (error) {
-                    console.log(`Error reading portfolios file: ${error}`);
-                    // If there's an error parsing, start with an empty object
-                    portfolios = {};
-                }
-
                 // Add or update the portfolio data
-                // @ts-ignore
-                portfolios[portfolioId] = portfolioData;
-
-                // Write the updated data back to the file
                 try {
-                    writeFileSync(filePath, JSON.stringify(portfolios, null, 2));
-                    console.log(`Row ${rowNumber} - Saved portfolio data to file`);
+                    store.savePortfolio(String(portfolioId), portfolioData);
+                    console.log(`Row ${rowNumber} - Saved portfolio data`);
                 } catch (error) {
-                    console.log(`Error writing to portfolios file: ${error}`);
+                    console.log(`Error saving portfolio: ${error}`);
                 }
 
                 // Additional wait to ensure any final loading completes
                 await page.waitForTimeout(1000);
 
-                await page.click('button.w-5.h-5.bg-transparent.outline-none');
+                await page.click(selectors.modalClose);
                 await page.waitForTimeout(500);
             } catch (error) {
                 console.log(`Error processing row ${rowNumber}:`, error);
@@ -466,4 +423,5 @@ const START_FROM_ROW = 40;
 
     // Disconnect when done (this won't close the Chrome instance)
     await browser.close();
+    store.close();
 })();
@@ -0,0 +1,171 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { spawn } from 'child_process';
+import { fileURLToPath } from 'url';
+import { chromium } from 'playwright';
+import { createMockSite, loadFixture } from './server.js';
+import { openStore } from '../store.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const ROOT_DIR = path.join(__dirname, '..');
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+// End-to-end check of test.ts against the mock site: for every fixture and extraction mode, run the
+// scraper with BASE_URL pointed at the mock and compare the saved portfolios to the fixture's
+// expectedPortfolios. A fixture's expectedRejections also checks the rule stored for rejected wallets.
+//
+// Usage: npm run test:e2e -- [fixture names...] [--mode=dom|network] [--verbose]
+// It needs a browser for Playwright: install the bundled Chromium once with `npx playwright install chromium`,
+// or point CHROME_PATH at a Chrome binary.
+
+const SCRAPER_TIMEOUT_MS = 5 * 60 * 1000;
+
+const args = process.argv.slice(2);
+const verbose = args.includes('--verbose');
+const modeArg = args.find((arg) => arg.startsWith('--mode='))?.split('=')[1];
+const fixtureNames = args.filter((arg) => !arg.startsWith('--'));
+
+function listFixtures() {
+    if (fixtureNames.length > 0) {
+        return fixtureNames.map((name) => path.join(FIXTURES_DIR, name.endsWith('.json') ? name : `${name}.json`));
+    }
+    return fs
+        .readdirSync(FIXTURES_DIR)
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => path.join(FIXTURES_DIR, file));
+}
+
+function listen(app) {
+    return new Promise((resolve) => {
+        const server = app.listen(0, '127.0.0.1', () => resolve(server));
+    });
+}
+
+function runScraper(env) {
+    return new Promise((resolve) => {
+        const child = spawn('npx', ['tsx', 'test.ts'], {
+            cwd: ROOT_DIR,
+            env: { ...process.env, ...env },
+            stdio: verbose ? 'inherit' : 'pipe',
+        });
+        let output = '';
+        child.stdout?.on('data', (chunk) => (output += chunk));
+        child.stderr?.on('data', (chunk) => (output += chunk));
+
+        const timer = setTimeout(() => {
+            output += `\nScraper did not finish within ${SCRAPER_TIMEOUT_MS / 1000}s, killing it`;
+            child.kill('SIGKILL');
+        }, SCRAPER_TIMEOUT_MS);
+
+        child.on('exit', (code) => {
+            clearTimeout(timer);
+            resolve({ code, output });
+        });
+    });
+}
+
+async function runScenario(fixtureFile, mode, debugPort) {
+    const fixture = loadFixture(fixtureFile);
+    const expectedByMode = Array.isArray(fixture.expectedPortfolios)
+        ? { dom: fixture.expectedPortfolios, network: fixture.expectedPortfolios }
+        : fixture.expectedPortfolios;
+    const expected = [...(expectedByMode[mode] || [])].sort();
+
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wltr-e2e-'));
+    const setupStore = openStore(dataDir);
+    setupStore.saveConfig(fixture.config);
+    setupStore.close();
+    const server = await listen(createMockSite(fixture));
+
+    try {
+        // Nested settings such as TOKEN_FILTERS are only read from the saved config, like with the real server
+        const envConfig = Object.fromEntries(
+            Object.entries(fixture.config).filter(([, value]) => value === null || typeof value !== 'object'),
+        );
+        const { code, output } = await runScraper({
+            ...envConfig,
+            EXTRACTION_MODE: mode,
+            BASE_URL: `http://127.0.0.1:${server.address().port}`,
+            HOST_IP: '127.0.0.1',
+            CHROME_DEBUG_PORT: String(debugPort),
+            DATA_DIR: dataDir,
+        });
+
+        const store = openStore(dataDir);
+        const portfolios = store.listPortfolios();
+        const wallets = store.loadWallets();
+        store.close();
+        const actual = Object.keys(portfolios).sort();
+
+        const missing = expected.filter((id) => !actual.includes(id));
+        const unexpected = actual.filter((id) => !expected.includes(id));
+
+        const wrongRejections = Object.entries(fixture.expectedRejections || {})
+            .filter(([address, ruleId]) => wallets[address]?.rejection?.ruleId !== ruleId)
+            .map(([address, ruleId]) => `${address} (expected ${ruleId}, got ${wallets[address]?.rejection?.ruleId})`);
+
+        const passed = code === 0 && missing.length === 0 && unexpected.length === 0 && wrongRejections.length === 0;
+
+        return { passed, code, missing, unexpected, wrongRejections, output };
+    } finally {
+        server.close();
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+}
+
+async function main() {
+    const modes = modeArg ? [modeArg] : ['dom', 'network'];
+    const debugPort = 9300 + Math.floor(Math.random() * 500);
+    const browser = await chromium
+        .launch({
+            executablePath: process.env.CHROME_PATH || undefined,
+            // Keep background tabs running at full speed when a fixture uses several workers
+            args: [
+                `--remote-debugging-port=${debugPort}`,
+                '--disable-background-timer-throttling',
+                '--disable-renderer-backgrounding',
+            ],
+        })
+        .catch((error) => {
+            throw new Error(
+                `No browser to run the scraper in. Run \`npx playwright install chromium\` or set CHROME_PATH\n${error.message}`,
+            );
+        });
+
+    let failures = 0;
+    try {
+        for (const fixtureFile of listFixtures()) {
+            for (const mode of modes) {
+                const name = `${path.basename(fixtureFile, '.json')} [${mode}]`;
+                console.log(`Running ${name}...`);
+                const result = await runScenario(fixtureFile, mode, debugPort);
+
+                if (result.passed) {
+                    console.log(`  PASS ${name}`);
+                    continue;
+                }
+
+                failures++;
+                console.log(`  FAIL ${name} (scraper exit code ${result.code})`);
+                if (result.missing.length) console.log(`    missing wallets:    ${result.missing.join(', ')}`);
+                if (result.unexpected.length) console.log(`    unexpected wallets: ${result.unexpected.join(', ')}`);
+                if (result.wrongRejections.length) {
+                    console.log(`    wrong rejections:   ${result.wrongRejections.join(', ')}`);
+                }
+                if (!verbose) console.log(result.output.split('\n').slice(-40).join('\n'));
+            }
+        }
+    } finally {
+        await browser.close();
+    }
+
+    console.log(failures ? `${failures} scenario(s) failed` : 'All scenarios passed');
+    process.exit(failures ? 1 : 0);
+}
+
+main().catch((error) => {
+    console.error('Error running end-to-end tests:', error);
+    process.exit(1);
+});
@@ -0,0 +1,268 @@
+import express from 'express';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Offline stand-in for the parts of BullX the scraper touches: the explore table, the token page
+// with its virtualized Top Traders list, and the wallet modal with its stats and tabs.
+// Everything is driven by a fixture file, see mock/fixtures/basic.json.
+
+// Format a dollar amount the way BullX displays it, e.g. 1234 -> "$1.23K", -40000 -> "-$40K"
+function formatDollars(value) {
+    const abs = Math.abs(value);
+    const [divisor, suffix] = abs >= 1e9 ? [1e9, 'B'] : abs >= 1e6 ? [1e6, 'M'] : abs >= 1e3 ? [1e3, 'K'] : [1, ''];
+    const digits = Number((abs / divisor).toFixed(2)).toString();
+    return `${value < 0 ? '-' : ''}$${digits}${suffix}`;
+}
+
+// The text shown for a wallet stat, a fixture `display` override wins over the formatted number
+function displayValue(trader, key) {
+    return trader.display?.[key] ?? formatDollars(trader[key] ?? 0);
+}
+
+function escapeHtml(text) {
+    return String(text).replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function page(title, body) {
+    return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+    body { font-family: sans-serif; margin: 0; }
+    .b-table-row, .b-table-header { display: flex; gap: 16px; align-items: center; height: 40px; cursor: pointer; }
+    .b-table-cell { min-width: 60px; }
+    .ant-modal-root { position: fixed; inset: 0; background: rgba(0, 0, 0, 0.4); }
+    .ant-modal-content { background: #fff; margin: 40px auto; width: 640px; max-height: 80vh; overflow: auto; padding: 16px; }
+    .ant-tabs-tab { display: inline-block; padding: 4px 8px; cursor: pointer; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+// Explore columns after the token name, as [header, fixture field]
+const EXPLORE_COLUMNS = [
+    ['Market Cap', 'marketCap'],
+    ['Liquidity', 'liquidity'],
+    ['Volume', 'volume'],
+    ['Age', 'age'],
+    ['Holders', 'holders'],
+];
+
+function explorePage(fixture) {
+    const header = ['Token', ...EXPLORE_COLUMNS.map(([label]) => label)]
+        .map((label) => `<div class="b-table-cell">${label}</div>`)
+        .join('');
+    const rows = fixture.tokens
+        .map(
+            (token) => `
+        <div class="b-table-row" onclick="location.href='/sol/token/${token.address}'">
+            <div class="b-table-cell"><a href="/sol/token/${token.address}"><span class="font-normal text-grey-50 block text-xs">${escapeHtml(token.name)}</span></a></div>
+            ${EXPLORE_COLUMNS.map(([, field]) => `<div class="b-table-cell">${escapeHtml(token[field] ?? '')}</div>`).join('')}
+        </div>`,
+        )
+        .join('');
+    return page(
+        'Explore',
+        `<div class="b-table"><div class="b-table-header b-table-row-header">${header}</div><div class="b-table-body">${rows}</div></div>`,
+    );
+}
+
+// Client side of the token page: tab switching, the virtualized trader list and the wallet modal
+const TOKEN_PAGE_SCRIPT = `
+const ROW_HEIGHT = 40;
+const BUFFER_ROWS = 2;
+const tokenAddress = location.pathname.split('/').pop();
+const scroller = document.getElementById('scroller');
+const spacer = document.getElementById('spacer');
+let traders = [];
+
+function renderRows() {
+    const first = Math.max(0, Math.floor(scroller.scrollTop / ROW_HEIGHT) - BUFFER_ROWS);
+    const last = Math.min(traders.length, Math.ceil((scroller.scrollTop + scroller.clientHeight) / ROW_HEIGHT) + BUFFER_ROWS);
+    spacer.innerHTML = traders
+        .slice(first, last)
+        .map((trader, offset) => {
+            const index = first + offset;
+            const wallet = trader.solscan === false
+                ? '<div>' + trader.address.slice(0, 6) + '</div>'
+                : '<a href="https://solscan.io/account/' + trader.address + '" target="_blank">S</a>' +
+                  '<div class="wallet-open" data-address="' + trader.address + '">' + trader.address.slice(0, 6) + '</div>';
+            return '<div class="b-table-row" style="position:absolute;top:' + index * ROW_HEIGHT + 'px;left:0;right:0">' +
+                '<div class="b-table-cell"><span>' + (index + 1) + '</span></div>' +
+                '<div class="b-table-cell">' + wallet + '</div>' +
+                '</div>';
+        })
+        .join('');
+}
+
+async function showTopTraders() {
+    const response = await fetch('/api/top-traders/' + tokenAddress);
+    traders = (await response.json()).data;
+    spacer.style.height = traders.length * ROW_HEIGHT + 'px';
+    document.getElementById('traders').hidden = false;
+    renderRows();
+}
+
+function closeModal() {
+    document.getElementById('modal').innerHTML = '';
+}
+
+function tradeRows(cells) {
+    return cells.map((cell) => '<div class="b-table-row">' + cell + '</div>').join('');
+}
+
+async function openWallet(address) {
+    const modal = document.getElementById('modal');
+    modal.innerHTML =
+        '<div class="ant-modal-root"><div class="ant-modal"><div class="ant-modal-content">' +
+        '<button class="w-5 h-5 bg-transparent outline-none" onclick="closeModal()">x</button>' +
+        '<a href="/portfolio/' + address + '">Open portfolio</a>' +
+        '<ul>' +
+        '<li><span>Total Revenue</span><span id="total-revenue">...</span></li>' +
+        '<li><span>Realized PnL</span><span id="realized-pnl">...</span></li>' +
+        '<li><span>Total Spent</span><span id="total-spent">...</span></li>' +
+        '</ul>' +
+        '<p><button id="period-1d">1D</button><button id="period-7d">7D</button></p>' +
+        '<section><div id="period-label">1D Realized PnL</div><div id="period-pnl">...</div></section>' +
+        '<div class="ant-tabs"><nav>' +
+        '<div class="ant-tabs-tab" data-node-key="ACTIVITY">Activity</div>' +
+        '<div class="ant-tabs-tab" data-node-key="MOST_PROFITABLE">Most Profitable</div>' +
+        '</nav><div class="ant-tabs-tabpane ant-tabs-tabpane-active" id="tab-pane"></div></div>' +
+        '</div></div></div>';
+
+    const response = await fetch('/api/wallet/' + address);
+    const wallet = await response.json();
+    document.getElementById('total-revenue').textContent = wallet.display.revenue;
+    document.getElementById('realized-pnl').textContent = wallet.display.pnl;
+    document.getElementById('total-spent').textContent = wallet.display.spent;
+    document.getElementById('period-pnl').textContent = wallet.display.oneDayPnl;
+    document.getElementById('period-7d').onclick = () => {
+        document.getElementById('period-label').textContent = '7D Realized PnL';
+        document.getElementById('period-pnl').textContent = wallet.display.sevenDayPnl;
+    };
+    const pane = document.getElementById('tab-pane');
+    pane.innerHTML = tradeRows(
+        wallet.tradeAges.map((age) => '<div class="b-table-cell"><a href="#"><span>' + age + '</span></a></div><div class="b-table-cell"><div>buy</div></div>'),
+    );
+    document.querySelector('[data-node-key="MOST_PROFITABLE"]').onclick = () => {
+        pane.innerHTML = tradeRows(
+            wallet.mostProfitable.map((profit) => '<div class="b-table-cell"><span>TKN</span></div><div class="b-table-cell"><div>' + profit + '</div></div>'),
+        );
+    };
+}
+
+scroller.addEventListener('scroll', renderRows);
+document.getElementById('top-traders-tab').addEventListener('click', showTopTraders);
+spacer.addEventListener('click', (event) => {
+    const target = event.target.closest('.wallet-open');
+    if (target) openWallet(target.dataset.address);
+});
+`;
+
+function tokenPage(token) {
+    return page(
+        token.name,
+        `<h1>${escapeHtml(token.name)}</h1>
+        <nav><span>Transactions</span> | <span id="top-traders-tab">Top Traders</span></nav>
+        <div class="b-table" id="traders" hidden>
+            <div class="no-scrollbar">
+                <div class="no-scrollbar" id="scroller" style="position:relative;height:300px;overflow-y:auto">
+                    <div id="spacer" style="position:relative"></div>
+                </div>
+            </div>
+        </div>
+        <div id="modal"></div>
+        <script>${TOKEN_PAGE_SCRIPT}</script>`,
+    );
+}
+
+// Raw numbers for the JSON API, the same shape the network capture mode reads
+function walletStats(trader) {
+    return {
+        address: trader.address,
+        realizedPnlUsd: trader.pnl,
+        realizedPnl7dUsd: trader.sevenDayPnl,
+        totalRevenueUsd: trader.revenue,
+        totalSpentUsd: trader.spent,
+    };
+}
+
+export function createMockSite(fixture) {
+    const app = express();
+    const findToken = (address) => fixture.tokens.find((token) => token.address === address);
+    const findTrader = (address) =>
+        fixture.tokens.flatMap((token) => token.traders).find((trader) => trader.address === address);
+
+    app.get(['/', '/explore'], (req, res) => {
+        res.send(explorePage(fixture));
+    });
+
+    app.get('/sol/token/:address', (req, res) => {
+        const token = findToken(req.params.address);
+        if (!token) return res.status(404).send('Unknown token');
+        res.send(tokenPage(token));
+    });
+
+    app.get('/portfolio/:address', (req, res) => {
+        res.send(page('Portfolio', `<h1>${escapeHtml(req.params.address)}</h1>`));
+    });
+
+    app.get('/api/top-traders/:token', (req, res) => {
+        const token = findToken(req.params.token);
+        if (!token) return res.status(404).json({ error: 'Unknown token' });
+        res.json({
+            data: token.traders.map((trader) => ({ ...walletStats(trader), solscan: trader.solscan !== false })),
+        });
+    });
+
+    // Wallet details answer after the trader's loadDelayMs, so the modal shows "..." in the meantime
+    app.get('/api/wallet/:address', (req, res) => {
+        const trader = findTrader(req.params.address);
+        if (!trader) return res.status(404).json({ error: 'Unknown wallet' });
+        setTimeout(() => {
+            res.json({
+                ...walletStats(trader),
+                display: {
+                    revenue: displayValue(trader, 'revenue'),
+                    pnl: displayValue(trader, 'pnl'),
+                    spent: displayValue(trader, 'spent'),
+                    sevenDayPnl: displayValue(trader, 'sevenDayPnl'),
+                    oneDayPnl: formatDollars(0),
+                },
+                tradeAges: trader.tradeAges || [],
+                mostProfitable: trader.mostProfitable || [],
+                // Per-token results of the wallet, with metric names of their own like the real API's
+                tokens: (trader.tokenBreakdown || []).map((entry) => ({
+                    tokenAddress: entry.token,
+                    pnl: entry.pnl,
+                    revenue: entry.revenue,
+                    spent: entry.spent,
+                })),
+            });
+        }, trader.loadDelayMs || 0);
+    });
+
+    return app;
+}
+
+export function loadFixture(file) {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+// Run standalone: node mock/server.js [fixture.json] [port]
+if (process.argv[1] === __filename) {
+    const fixtureFile = process.argv[2] || path.join(__dirname, 'fixtures', 'basic.json');
+    const port = Number(process.argv[3]) || 4545;
+    createMockSite(loadFixture(fixtureFile)).listen(port, () => {
+        console.log(`Mock BullX site for ${path.basename(fixtureFile)} running at http://localhost:${port}`);
+    });
+}
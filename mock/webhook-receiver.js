@@ -0,0 +1,42 @@
+import { createServer } from 'http';
+
+// Local endpoint to point webhooks at while trying them out: prints every request it gets and answers 200.
+// --fail N answers the first N requests with a 500, to watch the server retry them.
+//   npm run mock:webhooks -- --port 4455 --fail 2
+// then add a webhook with the URL http://localhost:4455/ and send it a test event.
+
+function option(name, fallback) {
+    const index = process.argv.indexOf(`--${name}`);
+    return index === -1 ? fallback : Number(process.argv[index + 1]);
+}
+
+const port = option('port', 4455);
+let failuresLeft = option('fail', 0);
+let received = 0;
+
+const server = createServer((req, res) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk) => {
+        body += chunk;
+    });
+    req.on('end', () => {
+        received++;
+        const failing = failuresLeft > 0;
+        if (failing) failuresLeft--;
+        let shown = body;
+        try {
+            shown = JSON.stringify(JSON.parse(body), null, 2);
+        } catch {
+            // Not JSON, printed as it came
+        }
+        console.log(`#${received} ${new Date().toISOString()} ${req.method} ${req.url} -> ${failing ? 500 : 200}`);
+        console.log(shown);
+        res.writeHead(failing ? 500 : 200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ ok: !failing }));
+    });
+});
+
+server.listen(port, () => {
+    console.log(`Webhook receiver listening on http://localhost:${port}/`);
+});
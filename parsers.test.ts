@@ -0,0 +1,142 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    ParseError,
+    parseCount,
+    parseCurrency,
+    parseCurrencyIn,
+    parseDuration,
+    parsePercent,
+    tradeAgeGroup,
+    type ParseResult,
+} from './parsers';
+
+// Strings as BullX and GMGN render them, with the value they stand for and whether it is only a bound
+const CURRENCY_CORPUS: [string, number, boolean][] = [
+    ['$0', 0, false],
+    ['$12.5', 12.5, false],
+    ['$1,234.56', 1234.56, false],
+    ['$1.2K', 1200, false],
+    ['-$40K', -40000, false],
+    ['-$40.2K', -40200, false],
+    ['$-40.2K', -40200, false],
+    ['+$1.2K', 1200, false],
+    ['−$3.1K', -3100, false],
+    ['$2.75M', 2750000, false],
+    ['$3.4B', 3400000000, false],
+    ['$1.1T', 1100000000000, false],
+    ['($1.2K)', -1200, false],
+    ['$ 1,234', 1234, false],
+    ['$.5K', 500, false],
+    ['<$0.01', 0.01, true],
+    ['>$1M', 1000000, true],
+    ['$1.2k', 1200, false],
+];
+
+const PERCENT_CORPUS: [string, number][] = [
+    ['0%', 0],
+    ['35%', 35],
+    ['-35.5%', -35.5],
+    ['+12.34%', 12.34],
+    ['2,150.5%', 2150.5],
+    ['1.2K%', 1200],
+    ['−99.9%', -99.9],
+];
+
+const COUNT_CORPUS: [string, number][] = [
+    ['0', 0],
+    ['42', 42],
+    ['1,234', 1234],
+    ['1.2K', 1200],
+    ['3M', 3000000],
+];
+
+const DURATION_CORPUS: [string, number, string, number][] = [
+    ['12s', 12, 's', 12],
+    ['45m', 45, 'm', 2700],
+    ['3h', 3, 'h', 10800],
+    ['2d', 2, 'd', 172800],
+    ['1w', 1, 'w', 604800],
+    ['1mo', 1, 'mo', 2592000],
+    ['2mo ago', 2, 'mo', 5184000],
+    ['1y', 1, 'y', 31536000],
+    ['5 m', 5, 'm', 300],
+];
+
+function valueOf<T>(result: ParseResult<T>): T {
+    if (!result.ok) throw result.error;
+    return result.value;
+}
+
+function errorOf<T>(result: ParseResult<T>): ParseError {
+    assert.equal(result.ok, false, 'expected a parse error');
+    return (result as { ok: false; error: ParseError }).error;
+}
+
+test('parseCurrency reads BullX money strings', () => {
+    for (const [input, value, approximate] of CURRENCY_CORPUS) {
+        assert.deepEqual(valueOf(parseCurrency(input)), { value, approximate }, input);
+    }
+});
+
+test('parsePercent reads percentages', () => {
+    for (const [input, value] of PERCENT_CORPUS) {
+        assert.deepEqual(valueOf(parsePercent(input)), { value, approximate: false }, input);
+    }
+});
+
+test('parseCount reads plain and abbreviated counts', () => {
+    for (const [input, value] of COUNT_CORPUS) {
+        assert.deepEqual(valueOf(parseCount(input)), { value, approximate: false }, input);
+    }
+});
+
+test('parseDuration reads trade ages', () => {
+    for (const [input, amount, unit, seconds] of DURATION_CORPUS) {
+        assert.deepEqual(valueOf(parseDuration(input)), { amount, unit, seconds }, input);
+    }
+});
+
+test('parseCurrencyIn finds the amount inside a label', () => {
+    assert.deepEqual(valueOf(parseCurrencyIn('+$1.2K (+35%)')), { value: 1200, approximate: false });
+    assert.deepEqual(valueOf(parseCurrencyIn('PnL: -$40K')), { value: -40000, approximate: false });
+    assert.deepEqual(valueOf(parseCurrencyIn('Bought <$0.01')), { value: 0.01, approximate: true });
+});
+
+test('malformed input is a ParseError naming the input', () => {
+    const malformed: [ParseResult<unknown>, string, string][] = [
+        [parseCurrency(''), '', 'Empty value'],
+        [parseCurrency('...'), '...', 'Value is still loading'],
+        [parseCurrency('--'), '--', 'Value is still loading'],
+        [parseCurrency('N/A'), 'N/A', 'Value is still loading'],
+        [parseCurrency('$1.2.3K'), '$1.2.3K', 'Not a currency amount'],
+        [parseCurrency('$12X'), '$12X', 'Not a currency amount'],
+        [parseCurrency('-$-5'), '-$-5', 'Duplicate sign'],
+        [parsePercent('35'), '35', 'Missing percent sign'],
+        [parsePercent('abc%'), 'abc%', 'Not a percentage'],
+        [parseCount('$1,234'), '$1,234', 'Not a count'],
+        [parseDuration(''), '', 'Empty duration'],
+        [parseDuration('3 days'), '3 days', 'Not a duration'],
+        [parseDuration('1mon'), '1mon', 'Not a duration'],
+        [parseCurrencyIn('$1.2.3K'), '$1.2.3K', 'Not a currency amount'],
+    ];
+    for (const [result, input, message] of malformed) {
+        const error = errorOf(result);
+        assert.ok(error instanceof ParseError, input);
+        assert.equal(error.name, 'ParseError');
+        assert.equal(error.input, input);
+        assert.equal(error.message, `${message}: "${input}"`);
+    }
+});
+
+test('tradeAgeGroup buckets ages like the wallet filters', () => {
+    const group = (text: string) => tradeAgeGroup(valueOf(parseDuration(text)));
+    assert.equal(group('12s'), 'seconds');
+    assert.equal(group('29m'), 'lessThan30m');
+    assert.equal(group('30m'), 'moreThan30m');
+    assert.equal(group('1h'), 'lessThan2h');
+    assert.equal(group('2h'), 'moreThan2h');
+    assert.equal(group('3d'), 'days');
+    assert.equal(group('1w'), 'weeks');
+    assert.equal(group('1mo'), 'weeks');
+});
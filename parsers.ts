@@ -0,0 +1,137 @@
+// Parsers for the display strings BullX and GMGN render: money ("-$40.2K", "$1,234.56", "<$0.01"),
+// percentages ("1.2K%", "-35.5%"), counts ("1,234", "1.2K") and relative trade ages ("12s", "45m", "1mo").
+
+export class ParseError extends Error {
+    constructor(
+        message: string,
+        readonly input: string,
+    ) {
+        super(`${message}: "${input}"`);
+        this.name = 'ParseError';
+    }
+}
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; error: ParseError };
+
+export interface ParsedAmount {
+    value: number;
+    // True for bounded display values like "<$0.01", where value is the bound
+    approximate: boolean;
+}
+
+export type DurationUnit = 's' | 'm' | 'h' | 'd' | 'w' | 'mo' | 'y';
+
+export interface ParsedDuration {
+    amount: number;
+    unit: DurationUnit;
+    seconds: number;
+}
+
+const MAGNITUDES: Record<string, number> = {
+    '': 1,
+    K: 1e3,
+    M: 1e6,
+    B: 1e9,
+    T: 1e12,
+};
+
+const UNIT_SECONDS: Record<DurationUnit, number> = {
+    s: 1,
+    m: 60,
+    h: 3600,
+    d: 86400,
+    w: 604800,
+    mo: 2592000,
+    y: 31536000,
+};
+
+// Text shown while a value is still loading
+const PLACEHOLDER_PATTERN = /^(\.{2,}|…|-{1,2}|—|N\/A)$/i;
+
+const AMOUNT_PATTERN = /^([<>≤≥]?)([+-]?)\$?([+-]?)(\d+(?:\.\d+)?|\.\d+)([KMBT]?)$/i;
+const DURATION_PATTERN = /^(\d+(?:\.\d+)?) ?(mo|[smhdwy])(?:\s*ago)?$/i;
+
+function fail<T>(message: string, input: string): ParseResult<T> {
+    return { ok: false, error: new ParseError(message, input) };
+}
+
+// Normalise spacing, unicode minus signs and thousands separators before matching
+function normalise(text: string): string {
+    return text.trim().replace(/\s+/g, '').replace(/[−–]/g, '-').replace(/,/g, '');
+}
+
+function parseAmount(input: string, kind: '$' | '%' | '#'): ParseResult<ParsedAmount> {
+    let text = normalise(input);
+    if (!text) return fail('Empty value', input);
+    if (PLACEHOLDER_PATTERN.test(text)) return fail('Value is still loading', input);
+
+    if (kind === '%') {
+        if (!text.endsWith('%')) return fail('Missing percent sign', input);
+        text = text.slice(0, -1);
+    }
+
+    // Accounting style negatives: ($1.2K)
+    let negative = false;
+    if (text.startsWith('(') && text.endsWith(')')) {
+        negative = true;
+        text = text.slice(1, -1);
+    }
+
+    const match = kind === '#' && text.includes('$') ? null : text.match(AMOUNT_PATTERN);
+    if (!match) {
+        return fail(kind === '%' ? 'Not a percentage' : kind === '#' ? 'Not a count' : 'Not a currency amount', input);
+    }
+
+    const [, bound, signBefore, signAfter, digits, magnitude] = match;
+    if (signBefore && signAfter) return fail('Duplicate sign', input);
+    if (signBefore === '-' || signAfter === '-') negative = !negative;
+
+    const value = parseFloat(digits) * MAGNITUDES[magnitude.toUpperCase()];
+    return { ok: true, value: { value: negative ? -value : value, approximate: bound !== '' } };
+}
+
+// Parse a dollar amount such as "$1.2K", "-$40K", "$1,234.56", "$3.4B" or "<$0.01"
+export function parseCurrency(text: string): ParseResult<ParsedAmount> {
+    return parseAmount(text, '$');
+}
+
+// Parse a percentage such as "2,150.5%", "-35%" or "1.2K%"
+export function parsePercent(text: string): ParseResult<ParsedAmount> {
+    return parseAmount(text, '%');
+}
+
+// Parse a plain count such as "1,234", "1.2K" or "3M"
+export function parseCount(text: string): ParseResult<ParsedAmount> {
+    return parseAmount(text, '#');
+}
+
+// Parse a relative age such as "12s", "45m", "3h", "2d", "1w", "1mo" or "1y"
+export function parseDuration(text: string): ParseResult<ParsedDuration> {
+    const normalised = text.trim().replace(/\s+/g, ' ');
+    if (!normalised) return fail('Empty duration', text);
+
+    const match = normalised.match(DURATION_PATTERN);
+    if (!match) return fail('Not a duration', text);
+
+    const amount = parseFloat(match[1]);
+    const unit = match[2].toLowerCase() as DurationUnit;
+    return { ok: true, value: { amount, unit, seconds: amount * UNIT_SECONDS[unit] } };
+}
+
+// Parse the first dollar amount inside a longer label such as "+$1.2K (+35%)". A malformed amount
+// like "$1.2.3K" is rejected rather than cut short
+export function parseCurrencyIn(text: string): ParseResult<ParsedAmount> {
+    const match = text.match(/[<>≤≥]?\s*[(+\-−–]?\s*\$\s*[+\-−–]?[\d,]*\.?\d+(?![\d.,])\s*[KMBT]?\)?/i);
+    return parseCurrency(match ? match[0] : text);
+}
+
+export type TradeAgeGroup = 'seconds' | 'lessThan30m' | 'moreThan30m' | 'lessThan2h' | 'moreThan2h' | 'days' | 'weeks';
+
+// Bucket a trade's age the way the wallet filters group them. Months and years count as weeks
+export function tradeAgeGroup(duration: ParsedDuration): TradeAgeGroup {
+    if (duration.unit === 's') return 'seconds';
+    if (duration.unit === 'm') return duration.amount < 30 ? 'lessThan30m' : 'moreThan30m';
+    if (duration.unit === 'h') return duration.amount < 2 ? 'lessThan2h' : 'moreThan2h';
+    if (duration.unit === 'd') return 'days';
+    return 'weeks';
+}
@@ -0,0 +1,106 @@
+// Downloads of the accepted wallets for GET /portfolios/export. Each format is generated portfolio by portfolio
+// while the store reads them, instead of building the whole file first. Exports name the instance they were made
+// by, which an instance importing them records as the portfolios' source.
+
+/** @typedef {import('./store.js').Portfolio & { id: string }} StoredPortfolio */
+
+/**
+ * @typedef {Object} ExportHeader What the JSON and NDJSON exports start with, the CSV has it as the exportedBy column
+ * @property {string} exportedBy Name of the exporting instance
+ * @property {string} exportedAt
+ */
+
+/**
+ * Content type and file extension of each format. addresses is one wallet address per line, for the watchlists
+ * of other trackers
+ * @type {Record<string, { contentType: string, extension: string }>}
+ */
+export const EXPORT_FORMATS = {
+    csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+    json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+    ndjson: { contentType: 'application/x-ndjson; charset=utf-8', extension: 'ndjson' },
+    addresses: { contentType: 'text/plain; charset=utf-8', extension: 'txt' },
+};
+
+const CSV_COLUMNS = [
+    'id',
+    'roi',
+    'pnl',
+    'link',
+    'createdAt',
+    'reviewStatus',
+    'tags',
+    'notes',
+    'reviewedBy',
+    'reviewedAt',
+    'source',
+    'importedAt',
+    'exportedBy',
+];
+
+/**
+ * Every stored field of a portfolio as one flat record, the way the CSV columns and JSON objects name them
+ * @param {StoredPortfolio} portfolio
+ */
+function exportRecord(portfolio) {
+    return {
+        id: portfolio.id,
+        roi: portfolio.roi,
+        pnl: portfolio.pnl,
+        link: portfolio.link,
+        createdAt: portfolio.createdAt ?? null,
+        reviewStatus: portfolio.review?.status ?? 'new',
+        tags: portfolio.review?.tags ?? [],
+        notes: portfolio.review?.notes ?? '',
+        reviewedBy: portfolio.review?.updatedBy ?? null,
+        reviewedAt: portfolio.review?.updatedAt ?? null,
+        source: portfolio.source ?? null,
+        importedAt: portfolio.importedAt ?? null,
+    };
+}
+
+/**
+ * A CSV field. Text typed by users that a spreadsheet would run as a formula is prefixed with a quote, and so is
+ * text that starts with a quote itself, so the import can tell the guard from the user's own quote
+ * @param {unknown} value
+ * @param {boolean} userText
+ * @returns {string}
+ */
+function csvField(value, userText) {
+    let text = Array.isArray(value) ? value.join(';') : String(value ?? '');
+    if (userText && /^[=+\-@\t\r']/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const USER_TEXT_COLUMNS = ['tags', 'notes', 'reviewedBy', 'source', 'exportedBy'];
+
+/**
+ * The chunks of an export, to be written in order. JSON is an object with the header's fields and the portfolios,
+ * NDJSON has the header as its first line
+ * @param {keyof typeof EXPORT_FORMATS} format
+ * @param {Iterable<StoredPortfolio>} portfolios
+ * @param {ExportHeader} header
+ * @returns {Generator<string>}
+ */
+export function* formatPortfolios(format, portfolios, header) {
+    if (format === 'csv') {
+        yield `${CSV_COLUMNS.join(',')}\r\n`;
+        for (const portfolio of portfolios) {
+            const record = { ...exportRecord(portfolio), exportedBy: header.exportedBy };
+            yield `${CSV_COLUMNS.map((column) => csvField(record[column], USER_TEXT_COLUMNS.includes(column))).join(',')}\r\n`;
+        }
+    } else if (format === 'json') {
+        let first = true;
+        yield `{"exportedBy":${JSON.stringify(header.exportedBy)},"exportedAt":${JSON.stringify(header.exportedAt)},"portfolios":[`;
+        for (const portfolio of portfolios) {
+            yield `${first ? '\n' : ',\n'}${JSON.stringify(exportRecord(portfolio))}`;
+            first = false;
+        }
+        yield '\n]}\n';
+    } else if (format === 'ndjson') {
+        yield `${JSON.stringify(header)}\n`;
+        for (const portfolio of portfolios) yield `${JSON.stringify(exportRecord(portfolio))}\n`;
+    } else {
+        for (const portfolio of portfolios) yield `${portfolio.id}\n`;
+    }
+}
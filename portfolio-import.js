@@ -0,0 +1,246 @@
+// Portfolios from other instances of the scraper, for POST /portfolios/import. A file in one of the export formats,
+// or an old portfolios.json, is read into records and merged into the local portfolios under a conflict policy.
+// Each record keeps the instance it came from, so a portfolio that travels on from there still names its source.
+// The others get the instance the export names as its maker.
+import { validateReviewUpdate } from './portfolio-review.js';
+
+/** @typedef {import('./portfolio-review.js').PortfolioReview} PortfolioReview */
+
+/**
+ * @typedef {Object} ImportedPortfolio
+ * @property {string} id
+ * @property {string} roi
+ * @property {string} pnl
+ * @property {string} link
+ * @property {string | null} createdAt
+ * @property {string | null} source Instance the portfolio was found by, null when the file does not say
+ * @property {PortfolioReview | null} review Used for portfolios that are new here, local reviews are kept
+ */
+
+/**
+ * What to do when a portfolio is already there with other values:
+ * newest keeps the one created last, highest-pnl the one with the higher PnL and history keeps the newest as the
+ * portfolio and the other one in its history
+ */
+export const IMPORT_POLICIES = ['newest', 'highest-pnl', 'history'];
+
+export const IMPORT_FORMATS = ['csv', 'json', 'ndjson'];
+
+/**
+ * Split CSV text into rows of fields, with quoted fields that can hold commas, quotes and line breaks
+ * @param {string} text
+ * @returns {string[][]}
+ */
+export function parseCsv(text) {
+    const rows = [];
+    let row = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter((fields) => fields.some((value) => value !== ''));
+}
+
+// Undo the quote the CSV export puts before user text a spreadsheet would run as a formula or that starts with a
+// quote. A quote before anything else is the user's, e.g. in a file edited by hand
+const unguard = (text) => (/^'[=+\-@\t\r']/.test(text) ? text.slice(1) : text);
+
+/**
+ * Records of a CSV export, keyed by its header
+ * @param {string} text
+ * @returns {Record<string, unknown>[]}
+ */
+function csvRecords(text) {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) return [];
+    return rows.map((fields) => {
+        const record = Object.fromEntries(header.map((column, index) => [column.trim(), fields[index] ?? '']));
+        return {
+            ...record,
+            tags: record.tags ? unguard(String(record.tags)).split(';') : [],
+            notes: unguard(String(record.notes ?? '')),
+            reviewedBy: record.reviewedBy ? unguard(String(record.reviewedBy)) : null,
+            source: record.source ? unguard(String(record.source)) : null,
+            exportedBy: record.exportedBy ? unguard(String(record.exportedBy)) : null,
+        };
+    });
+}
+
+/**
+ * Whether a JSON value is the header an export starts with rather than a portfolio
+ * @param {unknown} value
+ * @returns {value is import('./portfolio-export.js').ExportHeader}
+ */
+function isExportHeader(value) {
+    return Boolean(value) && typeof value.exportedBy === 'string' && value.id === undefined;
+}
+
+/**
+ * Guess the format of a file: a JSON array or object, lines of JSON, or CSV
+ * @param {string} text
+ * @returns {'csv' | 'json' | 'ndjson'}
+ */
+function detectFormat(text) {
+    const trimmed = text.trimStart();
+    if (trimmed.startsWith('[')) return 'json';
+    if (!trimmed.startsWith('{')) return 'csv';
+    try {
+        JSON.parse(trimmed);
+        return 'json';
+    } catch {
+        return 'ndjson';
+    }
+}
+
+/**
+ * A record of the file as a portfolio, or why it cannot be imported
+ * @param {Record<string, any>} record
+ * @returns {{ portfolio: ImportedPortfolio } | { error: string }}
+ */
+function toPortfolio(record) {
+    const id = typeof record.id === 'string' ? record.id.trim() : '';
+    if (!id) return { error: 'id is missing' };
+    const roi = String(record.roi ?? '').trim();
+    const pnl = String(record.pnl ?? '').trim();
+    if (!Number.isFinite(parseFloat(roi))) return { error: `${id}: roi is not a number` };
+    if (!Number.isFinite(parseFloat(pnl))) return { error: `${id}: pnl is not a number` };
+    const createdAt = record.createdAt ? Date.parse(record.createdAt) : null;
+    if (Number.isNaN(createdAt)) return { error: `${id}: createdAt is not a date` };
+
+    // Exports have the review as flat fields, the API and the store as an object
+    const review = record.review ?? {
+        status: record.reviewStatus,
+        tags: record.tags,
+        notes: record.notes,
+        updatedBy: record.reviewedBy,
+        updatedAt: record.reviewedAt,
+    };
+    let changes = null;
+    if (review.status || review.tags !== undefined || review.notes !== undefined) {
+        const result = validateReviewUpdate({
+            status: review.status || 'new',
+            tags: review.tags ?? [],
+            notes: review.notes ?? '',
+        });
+        if ('error' in result) return { error: `${id}: ${result.error}` };
+        // A review as every portfolio starts, new without tags or notes, is left out
+        const { status, tags, notes } = result.changes;
+        if (status !== 'new' || tags.length > 0 || notes) changes = result.changes;
+    }
+
+    return {
+        portfolio: {
+            id,
+            roi,
+            pnl,
+            link: record.link ? String(record.link) : `http://neo.bullx.io/portfolio/${id}`,
+            createdAt: createdAt === null ? null : new Date(createdAt).toISOString(),
+            source: record.source ? String(record.source) : null,
+            review: changes && {
+                status: changes.status,
+                tags: changes.tags,
+                notes: changes.notes,
+                updatedBy: review.updatedBy ? String(review.updatedBy) : null,
+                updatedAt: review.updatedAt ? String(review.updatedAt) : null,
+            },
+        },
+    };
+}
+
+/**
+ * Read the portfolios in a file. Records that cannot be used are left out and reported with their position
+ * @param {string} text
+ * @param {'csv' | 'json' | 'ndjson' | null} [format] Guessed from the content when not given
+ * @returns {{ format: 'csv' | 'json' | 'ndjson', exportedBy: string | null, portfolios: ImportedPortfolio[], invalid: string[] } | { error: string }}
+ *   exportedBy is the instance the file says made it, null for files from before exports named it
+ */
+export function parsePortfolioImport(text, format = null) {
+    const detected = format ?? detectFormat(text);
+    /** @type {Record<string, unknown>[]} */
+    let records;
+    let exportedBy = null;
+    try {
+        if (detected === 'csv') {
+            records = csvRecords(text);
+            exportedBy = records.find((record) => record.exportedBy)?.exportedBy ?? null;
+        } else if (detected === 'ndjson') {
+            records = text
+                .split(/\r?\n/)
+                .filter((line) => line.trim())
+                .map((line) => JSON.parse(line));
+            if (isExportHeader(records[0])) exportedBy = records.shift().exportedBy;
+        } else {
+            const parsed = JSON.parse(text);
+            // portfolios.json of older versions is an object keyed by portfolio id, an object with an id is a
+            // single record, e.g. NDJSON of one line
+            if (Array.isArray(parsed)) records = parsed;
+            else if (isExportHeader(parsed) && Array.isArray(parsed.portfolios)) {
+                records = parsed.portfolios;
+                exportedBy = parsed.exportedBy;
+            } else if (typeof parsed?.id === 'string') records = [parsed];
+            else records = Object.entries(parsed ?? {}).map(([id, portfolio]) => ({ ...portfolio, id }));
+        }
+    } catch (error) {
+        return { error: `Could not read the file as ${detected}: ${error.message}` };
+    }
+
+    const portfolios = [];
+    const invalid = [];
+    records.forEach((record, index) => {
+        const result = record && typeof record === 'object' ? toPortfolio(record) : { error: 'not an object' };
+        if ('error' in result) invalid.push(`Record ${index + 1}: ${result.error}`);
+        else portfolios.push(result.portfolio);
+    });
+    return { format: detected, exportedBy: exportedBy?.trim() || null, portfolios, invalid };
+}
+
+/**
+ * How to merge a portfolio into the one already there. add and update write the imported values, update under the
+ * history policy moves the old ones to the history first, archive only adds the imported values to the history
+ * @param {{ roi: string, pnl: string, link: string, createdAt?: string | null } | null} existing
+ * @param {ImportedPortfolio} incoming
+ * @param {string} policy One of IMPORT_POLICIES
+ * @returns {'add' | 'update' | 'skip' | 'archive'}
+ */
+export function planPortfolioMerge(existing, incoming, policy) {
+    if (!existing) return 'add';
+    const same =
+        existing.roi === incoming.roi &&
+        existing.pnl === incoming.pnl &&
+        existing.link === incoming.link &&
+        (existing.createdAt ?? null) === incoming.createdAt;
+    if (same) return 'skip';
+
+    const incomingIsNewer = (incoming.createdAt ?? '') > (existing.createdAt ?? '');
+    if (policy === 'highest-pnl') return parseFloat(incoming.pnl) > parseFloat(existing.pnl) ? 'update' : 'skip';
+    if (policy === 'history') return incomingIsNewer ? 'update' : 'archive';
+    return incomingIsNewer ? 'update' : 'skip';
+}
@@ -0,0 +1,126 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatPortfolios } from './portfolio-export.js';
+import { parseCsv, parsePortfolioImport, planPortfolioMerge } from './portfolio-import.js';
+
+const header = { exportedBy: 'desk-a', exportedAt: '2026-10-18T12:00:00.000Z' };
+
+// Portfolios as the store lists them, one with user text a spreadsheet would run or that starts with a quote
+const portfolios = [
+    {
+        id: 'Wallet1111111111111111111111111111111111111',
+        roi: '512.5%',
+        pnl: '120000',
+        link: 'http://neo.bullx.io/portfolio/Wallet1111111111111111111111111111111111111',
+        createdAt: '2026-10-01T08:00:00.000Z',
+        review: {
+            status: 'following',
+            tags: ['=whale', "'quoted", 'sniper, early'],
+            notes: '\'=SUM(A1) is what they wrote, "twice"\nsecond line',
+            updatedBy: '@alice',
+            updatedAt: '2026-10-02T09:00:00.000Z',
+        },
+        source: '+desk-b',
+    },
+    {
+        id: 'Wallet2222222222222222222222222222222222222',
+        roi: '80%',
+        pnl: '-4000',
+        link: 'http://neo.bullx.io/portfolio/Wallet2222222222222222222222222222222222222',
+        createdAt: null,
+        review: {
+            status: 'reviewed',
+            tags: [],
+            notes: "'tis a note\n=1+1",
+            updatedBy: null,
+            updatedAt: null,
+        },
+        source: null,
+    },
+];
+
+const exported = (format) => [...formatPortfolios(format, portfolios, header)].join('');
+
+test('parseCsv reads quoted fields with commas, quotes and line breaks', () => {
+    assert.deepEqual(parseCsv('a,b,c\r\n1,"two, three","say ""hi"""\n"multi\r\nline",,x'), [
+        ['a', 'b', 'c'],
+        ['1', 'two, three', 'say "hi"'],
+        ['multi\r\nline', '', 'x'],
+    ]);
+    // Blank lines and a missing last line break
+    assert.deepEqual(parseCsv('a,b\n\n,\n1,2'), [
+        ['a', 'b'],
+        ['1', '2'],
+    ]);
+    assert.deepEqual(parseCsv(''), []);
+});
+
+test('an export imports as the portfolios it was made from', () => {
+    for (const format of ['csv', 'json', 'ndjson']) {
+        const result = parsePortfolioImport(exported(format));
+        assert.ok(!('error' in result), format);
+        assert.equal(result.format, format);
+        assert.equal(result.exportedBy, 'desk-a', format);
+        assert.deepEqual(result.invalid, [], format);
+        assert.deepEqual(
+            result.portfolios,
+            portfolios.map(({ review, ...portfolio }) => ({ ...portfolio, review })),
+            format,
+        );
+    }
+});
+
+test('the CSV export guards formulas and the import takes off only its own guard', () => {
+    const csv = exported('csv');
+    assert.match(csv, /,"'=whale;'quoted;sniper, early",/);
+    assert.match(csv, /,'@alice,/);
+    // User text starting with a quote gets one more, so the import knows which quote to take off
+    assert.match(csv, /,"''=SUM\(A1\)/);
+    assert.match(csv, /,"''tis a note/);
+
+    const [first, second] = parsePortfolioImport(csv, 'csv').portfolios;
+    assert.deepEqual(first.review?.tags, ['=whale', "'quoted", 'sniper, early']);
+    assert.equal(first.review?.notes, portfolios[0].review.notes);
+    assert.equal(first.source, '+desk-b');
+    assert.equal(second.review?.notes, portfolios[1].review.notes);
+
+    // Files edited by hand keep their quotes
+    const edited = parsePortfolioImport(`id,roi,pnl,notes\nWallet3,1%,2,'tis mine\n`, 'csv');
+    assert.equal(edited.portfolios[0].review?.notes, "'tis mine");
+});
+
+test('records that cannot be imported are reported with their position', () => {
+    const result = parsePortfolioImport(
+        'id,roi,pnl,createdAt\nWallet1,10%,5,\n,1%,1,\nWallet3,lots,1,\nWallet4,1%,1,soon\n',
+    );
+    assert.deepEqual(
+        result.portfolios.map(({ id }) => id),
+        ['Wallet1'],
+    );
+    assert.deepEqual(result.invalid, [
+        'Record 2: id is missing',
+        'Record 3: Wallet3: roi is not a number',
+        'Record 4: Wallet4: createdAt is not a date',
+    ]);
+    assert.match(parsePortfolioImport('{"id":', 'json').error ?? '', /^Could not read the file as json/);
+});
+
+test('planPortfolioMerge follows the conflict policy', () => {
+    const existing = { roi: '100%', pnl: '5000', link: 'link', createdAt: '2026-10-01T00:00:00.000Z' };
+    const incoming = (changes) => ({ ...existing, id: 'Wallet1', source: null, review: null, ...changes });
+    const newer = incoming({ pnl: '4000', createdAt: '2026-10-05T00:00:00.000Z' });
+    const older = incoming({ pnl: '9000', createdAt: '2026-09-01T00:00:00.000Z' });
+
+    assert.equal(planPortfolioMerge(null, newer, 'newest'), 'add');
+    for (const policy of ['newest', 'highest-pnl', 'history']) {
+        assert.equal(planPortfolioMerge(existing, incoming({}), policy), 'skip', policy);
+    }
+    assert.equal(planPortfolioMerge(existing, newer, 'newest'), 'update');
+    assert.equal(planPortfolioMerge(existing, older, 'newest'), 'skip');
+    assert.equal(planPortfolioMerge(existing, newer, 'highest-pnl'), 'skip');
+    assert.equal(planPortfolioMerge(existing, older, 'highest-pnl'), 'update');
+    assert.equal(planPortfolioMerge(existing, newer, 'history'), 'update');
+    assert.equal(planPortfolioMerge(existing, older, 'history'), 'archive');
+    // A portfolio without a date is older than any dated one
+    assert.equal(planPortfolioMerge(existing, incoming({ createdAt: null, roi: '1%' }), 'newest'), 'skip');
+});
@@ -0,0 +1,84 @@
+// Query parameters of GET /portfolios. The dashboard asks for one page of portfolios at a time, sorted and
+// filtered by the server, instead of loading every wallet the scraper ever accepted.
+import { REVIEW_STATUSES } from './portfolio-review.js';
+
+/**
+ * @typedef {Object} PortfolioQuery
+ * @property {number} page Starting at 1
+ * @property {number} pageSize
+ * @property {'roi' | 'pnl' | 'createdAt'} sort
+ * @property {'asc' | 'desc'} order
+ * @property {string} search Part of the portfolio id, case-insensitive
+ * @property {import('./portfolio-review.js').ReviewStatus | null} status
+ * @property {string | null} tag One of the portfolio's tags, case-insensitive
+ * @property {number | null} minRoi In percent
+ * @property {number | null} maxRoi
+ * @property {number | null} minPnl In dollars
+ * @property {number | null} maxPnl
+ * @property {string | null} createdFrom ISO timestamp, inclusive
+ * @property {string | null} createdTo ISO timestamp, exclusive
+ */
+
+export const PORTFOLIO_SORTS = ['roi', 'pnl', 'createdAt'];
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+const RANGE_PARAMS = ['minRoi', 'maxRoi', 'minPnl', 'maxPnl'];
+const DATE_PARAMS = ['createdFrom', 'createdTo'];
+
+/**
+ * Read the query string of a request, newest first unless asked otherwise
+ * @param {Record<string, unknown>} [params]
+ * @returns {{ query: PortfolioQuery } | { error: string }}
+ */
+export function parsePortfolioQuery(params = {}) {
+    const text = (key) => (typeof params[key] === 'string' ? params[key].trim() : '');
+
+    const page = text('page') ? Number(text('page')) : 1;
+    if (!Number.isInteger(page) || page < 1) return { error: 'page must be a whole number from 1' };
+    const pageSize = text('pageSize') ? Number(text('pageSize')) : DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+        return { error: `pageSize must be a whole number from 1 to ${MAX_PAGE_SIZE}` };
+    }
+
+    const sort = text('sort') || 'createdAt';
+    if (!PORTFOLIO_SORTS.includes(sort)) return { error: `sort must be one of ${PORTFOLIO_SORTS.join(', ')}` };
+    const order = text('order') || 'desc';
+    if (order !== 'asc' && order !== 'desc') return { error: 'order must be asc or desc' };
+
+    const status = text('status') || null;
+    if (status !== null && !REVIEW_STATUSES.some((value) => value === status)) {
+        return { error: `status must be one of ${REVIEW_STATUSES.join(', ')}` };
+    }
+
+    /** @type {PortfolioQuery} */
+    const query = {
+        page,
+        pageSize,
+        sort: /** @type {PortfolioQuery['sort']} */ (sort),
+        order,
+        search: text('search'),
+        status: /** @type {PortfolioQuery['status']} */ (status),
+        tag: text('tag') || null,
+        minRoi: null,
+        maxRoi: null,
+        minPnl: null,
+        maxPnl: null,
+        createdFrom: null,
+        createdTo: null,
+    };
+    for (const key of RANGE_PARAMS) {
+        if (!text(key)) continue;
+        const value = Number(text(key));
+        if (!Number.isFinite(value)) return { error: `${key} must be a number` };
+        query[key] = value;
+    }
+    for (const key of DATE_PARAMS) {
+        if (!text(key)) continue;
+        const time = Date.parse(text(key));
+        if (Number.isNaN(time)) return { error: `${key} must be a date` };
+        query[key] = new Date(time).toISOString();
+    }
+    return { query };
+}
@@ -0,0 +1,58 @@
+// Triage of the accepted wallets, shared by everyone using the dashboard. Each portfolio has a review status,
+// free-form tags and notes, saved by the server with the name of the access token that changed them last.
+
+/** @typedef {'new' | 'reviewed' | 'following' | 'discarded'} ReviewStatus */
+
+/**
+ * @typedef {Object} PortfolioReview
+ * @property {ReviewStatus} status
+ * @property {string[]} tags
+ * @property {string} notes
+ * @property {string | null} updatedBy Name of the access token, null until the portfolio is first reviewed
+ * @property {string | null} updatedAt
+ */
+
+/** @type {ReviewStatus[]} */
+export const REVIEW_STATUSES = ['new', 'reviewed', 'following', 'discarded'];
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 32;
+const MAX_NOTES_LENGTH = 2000;
+
+/**
+ * Check the fields of a review update, fields that are left out stay as they are
+ * @param {Record<string, unknown>} [input]
+ * @returns {{ changes: Partial<Pick<PortfolioReview, 'status' | 'tags' | 'notes'>> } | { error: string }}
+ */
+export function validateReviewUpdate(input = {}) {
+    /** @type {Partial<Pick<PortfolioReview, 'status' | 'tags' | 'notes'>>} */
+    const changes = {};
+    if (input.status !== undefined) {
+        if (!REVIEW_STATUSES.includes(/** @type {ReviewStatus} */ (input.status))) {
+            return { error: `status must be one of ${REVIEW_STATUSES.join(', ')}` };
+        }
+        changes.status = /** @type {ReviewStatus} */ (input.status);
+    }
+    if (input.tags !== undefined) {
+        if (!Array.isArray(input.tags) || input.tags.some((tag) => typeof tag !== 'string')) {
+            return { error: 'tags must be a list of strings' };
+        }
+        // Tags are compared without case, the first spelling of a tag is kept
+        const tags = [];
+        for (const tag of input.tags.map((entry) => entry.trim()).filter(Boolean)) {
+            if (tag.length > MAX_TAG_LENGTH) return { error: `Tags must be at most ${MAX_TAG_LENGTH} characters` };
+            if (!tags.some((kept) => kept.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+        }
+        if (tags.length > MAX_TAGS) return { error: `A portfolio can have at most ${MAX_TAGS} tags` };
+        changes.tags = tags;
+    }
+    if (input.notes !== undefined) {
+        if (typeof input.notes !== 'string') return { error: 'notes must be a string' };
+        if (input.notes.length > MAX_NOTES_LENGTH) {
+            return { error: `Notes must be at most ${MAX_NOTES_LENGTH} characters` };
+        }
+        changes.notes = input.notes.trim();
+    }
+    if (Object.keys(changes).length === 0) return { error: 'Nothing to change, send status, tags or notes' };
+    return { changes };
+}
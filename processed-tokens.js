@@ -0,0 +1,93 @@
+// Processed-token records, shared by the scraper and the server. Tokens are keyed by the contract (mint)
+// address from their explore row link, so two tokens with the same ticker no longer collide. Rows without
+// a readable address fall back to a "name:<ticker>" key, which is also how the name lists written by older
+// versions are migrated.
+
+/**
+ * @typedef {Object} ProcessedToken
+ * @property {string | null} address Contract address, null for tokens only known by name
+ * @property {string} name Ticker shown in the explore table
+ * @property {string} firstSeen When the scraper first picked the token
+ * @property {string | null} lastScanned When its top traders were last scanned in full, null until then
+ */
+
+/** @typedef {Record<string, ProcessedToken>} ProcessedTokens */
+
+const ADDRESS_PATTERN = /[1-9A-HJ-NP-Za-km-z]{32,44}/;
+
+/**
+ * Contract address from a token link such as /sol/token/<mint> or /terminal?address=<mint>
+ * @param {string | null | undefined} href
+ * @returns {string | null}
+ */
+export function tokenAddressFromLink(href) {
+    const match = href ? href.match(ADDRESS_PATTERN) : null;
+    return match ? match[0] : null;
+}
+
+/**
+ * Key of a token's record: its address, or its name when the address is unknown
+ * @param {string | null} address
+ * @param {string} name
+ * @returns {string}
+ */
+export function processedTokenKey(address, name) {
+    return address || `name:${name}`;
+}
+
+/**
+ * Turn the contents of processed_tokens.json into records. A plain array of names from older versions
+ * becomes name-keyed records stamped with `legacyTime`.
+ * @param {unknown} data
+ * @param {string} legacyTime
+ * @returns {ProcessedTokens}
+ */
+export function normaliseProcessedTokens(data, legacyTime) {
+    if (Array.isArray(data)) {
+        return Object.fromEntries(
+            data
+                .filter((name) => typeof name === 'string' && name)
+                .map((name) => [
+                    processedTokenKey(null, name),
+                    { address: null, name, firstSeen: legacyTime, lastScanned: legacyTime },
+                ]),
+        );
+    }
+    return data && typeof data === 'object' ? /** @type {ProcessedTokens} */ (data) : {};
+}
+
+/**
+ * The record for a token, falling back to a name-only record migrated from an older version
+ * @param {ProcessedTokens} tokens
+ * @param {string | null} address
+ * @param {string} name
+ * @returns {ProcessedToken | null}
+ */
+export function findProcessedToken(tokens, address, name) {
+    return (address && tokens[address]) || tokens[processedTokenKey(null, name)] || null;
+}
+
+/**
+ * When a token's top traders should be scanned again, null if never. A TTL of 0 or less keeps tokens
+ * processed forever.
+ * @param {ProcessedToken | null} record
+ * @param {number} ttlHours
+ * @returns {Date | null}
+ */
+export function nextScanAt(record, ttlHours) {
+    if (!record || !record.lastScanned) return new Date(0);
+    if (!(ttlHours > 0)) return null;
+    return new Date(Date.parse(record.lastScanned) + ttlHours * 60 * 60 * 1000);
+}
+
+/**
+ * Whether a token is due for a (re-)scan
+ * @param {ProcessedToken | null} record
+ * @param {number} ttlHours
+ * @param {number} [now]
+ * @returns {boolean}
+ */
+export function isScanDue(record, ttlHours, now = Date.now()) {
+    const next = nextScanAt(record, ttlHours);
+    return next !== null && next.getTime() <= now;
+}
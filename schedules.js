@@ -0,0 +1,330 @@
+// Scheduled scraper runs. A schedule fires on a cron expression or every so many minutes and starts the
+// scraper with its own overrides of the .env settings, e.g. a nightly deep scan with a higher
+// MAX_TRADERS_PER_TOKEN. The schedules are saved with the config as SCHEDULES and run by the server.
+// The overrides also win over the saved config the scraper loads, including the thresholds of the filter rules.
+import { randomUUID } from 'crypto';
+import { validateConfigOverride } from './config-schema.js';
+
+/**
+ * @typedef {Object} Schedule
+ * @property {string} id
+ * @property {string} name
+ * @property {boolean} enabled
+ * @property {'cron' | 'interval'} kind
+ * @property {string} cron Five-field cron expression in the server's time zone, used when kind is cron
+ * @property {number} intervalMinutes Used when kind is interval
+ * @property {Record<string, string>} overrides Settings of the config schema the scraper is started with, as
+ *   environment variables
+ */
+
+/**
+ * @typedef {Object} ScheduleStatus
+ * @property {string | null} nextRunAt Null for disabled and invalid schedules
+ * @property {string | null} lastRunAt
+ * @property {'started' | 'skipped' | 'failed' | null} lastOutcome
+ * @property {string | null} error Why the schedule cannot run
+ */
+
+// Environment variable the scraper finds a scheduled run's overrides in
+export const SCHEDULE_OVERRIDES_ENV = 'SCHEDULE_OVERRIDES';
+
+// Settings that seed a filter rule's threshold, an override of one replaces the saved threshold
+const RULE_SETTINGS = { MIN_PNL: 'min-pnl', MIN_ROI: 'min-roi' };
+
+const CRON_MACROS = {
+    '@hourly': '0 * * * *',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@weekly': '0 0 * * 0',
+    '@monthly': '0 0 1 * *',
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *',
+};
+
+// Minute, hour, day of month, month and day of week, Sunday being both 0 and 7
+const CRON_FIELDS = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12 },
+    { name: 'day of week', min: 0, max: 7 },
+];
+
+/**
+ * Values a cron field matches, from "*", "5", "1-5", "1,15", "*\/10" or "0-30/5"
+ * @param {string} field
+ * @param {{ name: string, min: number, max: number }} range
+ * @returns {Set<number>}
+ */
+function parseCronField(field, { name, min, max }) {
+    const values = new Set();
+    for (const part of field.split(',')) {
+        const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+        if (!match) throw new Error(`Invalid ${name} "${part}"`);
+        const start = match[1] === '*' ? min : Number(match[2]);
+        const end = match[1] === '*' ? max : match[3] !== undefined ? Number(match[3]) : match[4] ? max : start;
+        const step = match[4] ? Number(match[4]) : 1;
+        if (start < min || end > max || start > end || step < 1) {
+            throw new Error(`Invalid ${name} "${part}", expected ${min}-${max}`);
+        }
+        for (let value = start; value <= end; value += step) values.add(value);
+    }
+    return values;
+}
+
+/**
+ * Parse a five-field cron expression or one of the @daily style macros. Throws on an invalid expression
+ * @param {string} expression
+ */
+export function parseCron(expression) {
+    const normalised = String(expression ?? '').trim();
+    const fields = (CRON_MACROS[normalised.toLowerCase()] ?? normalised).split(/\s+/);
+    if (fields.length !== 5) throw new Error('Expected five fields: minute hour day-of-month month day-of-week');
+
+    const [minutes, hours, days, months, weekdays] = fields.map((field, index) =>
+        parseCronField(field, CRON_FIELDS[index]),
+    );
+    if (weekdays.delete(7)) weekdays.add(0);
+    return {
+        minutes,
+        hours,
+        days,
+        months,
+        weekdays,
+        // As in cron, a day matches either field when both are restricted. A field starting with * is not, even
+        // with a step like */2
+        daysRestricted: !fields[2].startsWith('*'),
+        weekdaysRestricted: !fields[4].startsWith('*'),
+    };
+}
+
+/**
+ * First minute after `after` that a cron expression matches, null when it never does (e.g. 30 February)
+ * @param {ReturnType<typeof parseCron>} cron
+ * @param {Date} after
+ * @returns {Date | null}
+ */
+export function nextCronTime(cron, after) {
+    const time = new Date(after);
+    time.setSeconds(0, 0);
+    time.setMinutes(time.getMinutes() + 1);
+
+    const dayMatches = () => {
+        const day = cron.days.has(time.getDate());
+        const weekday = cron.weekdays.has(time.getDay());
+        if (cron.daysRestricted && cron.weekdaysRestricted) return day || weekday;
+        return day && weekday;
+    };
+
+    // Skip whole months, days and hours that cannot match, giving up after about five years
+    const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+    while (time.getTime() <= limit) {
+        if (!cron.months.has(time.getMonth() + 1)) {
+            time.setMonth(time.getMonth() + 1, 1);
+            time.setHours(0, 0);
+        } else if (!dayMatches()) {
+            time.setDate(time.getDate() + 1);
+            time.setHours(0, 0);
+        } else if (!cron.hours.has(time.getHours())) {
+            time.setHours(time.getHours() + 1, 0);
+        } else if (!cron.minutes.has(time.getMinutes())) {
+            time.setMinutes(time.getMinutes() + 1);
+        } else {
+            return time;
+        }
+    }
+    return null;
+}
+
+/**
+ * Why a schedule cannot run, null when it is valid
+ * @param {Schedule} schedule
+ * @returns {string | null}
+ */
+export function validateSchedule(schedule) {
+    if (!schedule.name) return 'Name is required';
+    if (schedule.kind === 'cron') {
+        try {
+            if (!nextCronTime(parseCron(schedule.cron), new Date())) return 'Cron expression never matches';
+        } catch (error) {
+            return `Invalid cron expression: ${error.message}`;
+        }
+    } else if (!(schedule.intervalMinutes >= 1)) {
+        return 'Interval must be at least 1 minute';
+    }
+    for (const [key, value] of Object.entries(schedule.overrides)) {
+        const error = validateConfigOverride(key, value);
+        if (error) return `Override "${key}": ${error}`;
+    }
+    return null;
+}
+
+/**
+ * Normalise the saved SCHEDULES, giving new schedules an id
+ * @param {Record<string, unknown>} [config]
+ * @returns {Schedule[]}
+ */
+export function resolveSchedules(config = {}) {
+    const configured = Array.isArray(config.SCHEDULES) ? config.SCHEDULES : [];
+    return configured
+        .filter((schedule) => schedule && typeof schedule === 'object')
+        .map((schedule) => ({
+            id: schedule.id ? String(schedule.id) : randomUUID(),
+            name: String(schedule.name ?? '').trim(),
+            enabled: schedule.enabled !== false,
+            kind: schedule.kind === 'interval' ? 'interval' : 'cron',
+            cron: String(schedule.cron ?? '').trim(),
+            intervalMinutes: Number(schedule.intervalMinutes) || 0,
+            overrides: Object.fromEntries(
+                Object.entries(schedule.overrides && typeof schedule.overrides === 'object' ? schedule.overrides : {})
+                    .map(([key, value]) => [key.trim(), String(value ?? '').trim()])
+                    .filter(([key]) => key),
+            ),
+        }));
+}
+
+/**
+ * Environment a scheduled run starts the scraper with: the overrides, and all of them together so the scraper can
+ * tell them apart from the .env settings
+ * @param {Schedule} schedule
+ * @returns {Record<string, string>}
+ */
+export function scheduleEnv(schedule) {
+    return { ...schedule.overrides, [SCHEDULE_OVERRIDES_ENV]: JSON.stringify(schedule.overrides) };
+}
+
+/**
+ * Overrides of the scheduled run the scraper was started for, empty for other runs
+ * @param {Record<string, string | undefined>} env
+ * @returns {Record<string, string>}
+ */
+export function parseScheduleOverrides(env) {
+    try {
+        const overrides = JSON.parse(env[SCHEDULE_OVERRIDES_ENV] ?? '{}');
+        return overrides && typeof overrides === 'object' && !Array.isArray(overrides) ? overrides : {};
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * A saved config with a scheduled run's overrides on top. MIN_PNL and MIN_ROI also replace the thresholds of
+ * the saved filter rules, which would otherwise keep theirs
+ * @param {Record<string, unknown>} config
+ * @param {Record<string, string>} overrides
+ * @returns {Record<string, unknown>}
+ */
+export function applyScheduleOverrides(config, overrides) {
+    let rules = Array.isArray(config.FILTER_RULES) ? config.FILTER_RULES : null;
+    for (const [key, ruleId] of Object.entries(RULE_SETTINGS)) {
+        if (overrides[key] === undefined || !rules) continue;
+        rules = rules.map((rule) =>
+            rule?.id === ruleId ? { ...rule, params: { ...rule.params, min: Number(overrides[key]) } } : rule,
+        );
+    }
+    return { ...config, ...overrides, ...(rules ? { FILTER_RULES: rules } : {}) };
+}
+
+/**
+ * When a schedule fires next after `after`
+ * @param {Schedule} schedule
+ * @param {Date} after
+ * @returns {Date | null}
+ */
+function nextRunTime(schedule, after) {
+    if (schedule.kind === 'interval') return new Date(after.getTime() + schedule.intervalMinutes * 60 * 1000);
+    return nextCronTime(parseCron(schedule.cron), after);
+}
+
+/**
+ * Fires the schedules. A schedule that comes due while a run is still active is skipped until its next time
+ * @param {{ getSchedules: () => Schedule[], isBusy: () => boolean, run: (schedule: Schedule) => void, onSkip?: (schedule: Schedule) => void, checkIntervalMs?: number }} options
+ */
+export function createScheduler({ getSchedules, isBusy, run, onSkip, checkIntervalMs = 15000 }) {
+    /** @type {Map<string, { signature: string, nextRunAt: Date | null, lastRunAt: Date | null, lastOutcome: ScheduleStatus['lastOutcome'], error: string | null }>} */
+    const states = new Map();
+    let timer = null;
+
+    // Work out the next run of new and changed schedules, keeping it for the ones that did not change
+    const refresh = (now = new Date()) => {
+        const schedules = getSchedules();
+        for (const schedule of schedules) {
+            const signature = JSON.stringify([
+                schedule.enabled,
+                schedule.kind,
+                schedule.cron,
+                schedule.intervalMinutes,
+                schedule.overrides,
+            ]);
+            const state = states.get(schedule.id);
+            if (state?.signature === signature) continue;
+
+            const error = validateSchedule(schedule);
+            states.set(schedule.id, {
+                signature,
+                nextRunAt: schedule.enabled && !error ? nextRunTime(schedule, now) : null,
+                lastRunAt: state?.lastRunAt ?? null,
+                lastOutcome: state?.lastOutcome ?? null,
+                error,
+            });
+        }
+        for (const id of states.keys()) {
+            if (!schedules.some((schedule) => schedule.id === id)) states.delete(id);
+        }
+        return schedules;
+    };
+
+    const tick = () => {
+        const now = new Date();
+        for (const schedule of refresh(now)) {
+            const state = states.get(schedule.id);
+            if (!state.nextRunAt || state.nextRunAt > now) continue;
+
+            state.lastRunAt = now;
+            if (isBusy()) {
+                state.lastOutcome = 'skipped';
+                onSkip?.(schedule);
+            } else {
+                try {
+                    run(schedule);
+                    state.lastOutcome = 'started';
+                } catch (error) {
+                    console.error(`Error starting scheduled run "${schedule.name}":`, error);
+                    state.lastOutcome = 'failed';
+                }
+            }
+            state.nextRunAt = nextRunTime(schedule, now);
+        }
+    };
+
+    return {
+        start() {
+            refresh();
+            timer = setInterval(() => {
+                try {
+                    tick();
+                } catch (error) {
+                    console.error('Error running schedules:', error);
+                }
+            }, checkIntervalMs);
+        },
+
+        stop() {
+            clearInterval(timer);
+        },
+
+        /** @returns {Array<Schedule & ScheduleStatus>} */
+        list() {
+            return refresh().map((schedule) => {
+                const state = states.get(schedule.id);
+                return {
+                    ...schedule,
+                    nextRunAt: state.nextRunAt?.toISOString() ?? null,
+                    lastRunAt: state.lastRunAt?.toISOString() ?? null,
+                    lastOutcome: state.lastOutcome,
+                    error: state.error,
+                };
+            });
+        },
+    };
+}
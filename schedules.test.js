@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateFilterRules, resolveFilterRules } from './filters.js';
+import {
+    applyScheduleOverrides,
+    nextCronTime,
+    parseCron,
+    parseScheduleOverrides,
+    scheduleEnv,
+    validateSchedule,
+} from './schedules.js';
+
+// A saved config as POST /config writes it, with the thresholds in the filter rules
+const savedConfig = {
+    MIN_PNL: 25000,
+    MIN_ROI: 200,
+    FILTER_RULES: [
+        { id: 'min-pnl', enabled: true, params: { min: 25000 } },
+        { id: 'min-roi', enabled: true, params: { min: 200 } },
+    ],
+};
+
+const schedule = {
+    id: 'nightly',
+    name: 'Nightly deep scan',
+    enabled: true,
+    kind: 'cron',
+    cron: '0 3 * * *',
+    intervalMinutes: 0,
+    overrides: { MIN_PNL: '100000', MAX_TRADERS_PER_TOKEN: '200' },
+};
+
+test('a scheduled run raises the saved filter thresholds it overrides', () => {
+    const overrides = parseScheduleOverrides(scheduleEnv(schedule));
+    assert.deepEqual(overrides, schedule.overrides);
+
+    const rules = resolveFilterRules(applyScheduleOverrides(savedConfig, overrides));
+    assert.equal(rules.find((rule) => rule.id === 'min-pnl')?.params.min, 100000);
+    assert.equal(rules.find((rule) => rule.id === 'min-roi')?.params.min, 200);
+
+    // Good enough for the saved thresholds, not for the nightly one
+    const result = evaluateFilterRules(rules, { pnl: 50000, roi: 500 });
+    assert.equal(result.passed, false);
+    assert.equal(result.ruleId, 'min-pnl');
+});
+
+test('a config without filter rules is seeded from the overridden setting', () => {
+    const overrides = { MIN_ROI: '1000' };
+    const rules = resolveFilterRules(applyScheduleOverrides({ MIN_PNL: 25000, MIN_ROI: 200 }, overrides));
+    assert.equal(rules.find((rule) => rule.id === 'min-roi')?.params.min, 1000);
+});
+
+test('runs that are not scheduled keep the saved config', () => {
+    const overrides = parseScheduleOverrides({ MIN_PNL: '100000' });
+    assert.deepEqual(overrides, {});
+    assert.deepEqual(applyScheduleOverrides(savedConfig, overrides), savedConfig);
+    assert.deepEqual(parseScheduleOverrides({ SCHEDULE_OVERRIDES: 'not json' }), {});
+});
+
+test('overrides are limited to the scraper settings', () => {
+    assert.equal(validateSchedule(schedule), null);
+    const withOverrides = (overrides) => validateSchedule({ ...schedule, overrides });
+    assert.equal(
+        withOverrides({ NODE_OPTIONS: '--require ./evil.js' }),
+        'Override "NODE_OPTIONS": not a scraper setting',
+    );
+    assert.equal(withOverrides({ LD_PRELOAD: '/tmp/evil.so' }), 'Override "LD_PRELOAD": not a scraper setting');
+    assert.equal(withOverrides({ MIN_PNLL: '100000' }), 'Override "MIN_PNLL": not a scraper setting');
+    assert.match(withOverrides({ MIN_PNL: 'lots' }) ?? '', /^Override "MIN_PNL": /);
+});
+
+// Next run of an expression after a local time, in the server's time zone like the scheduler
+const nextRun = (expression, after) => nextCronTime(parseCron(expression), after);
+
+test('cron steps, ranges and lists', () => {
+    assert.deepEqual(nextRun('*/15 * * * *', new Date(2026, 9, 18, 10, 7)), new Date(2026, 9, 18, 10, 15));
+    assert.deepEqual(nextRun('0-30/10 * * * *', new Date(2026, 9, 18, 10, 30)), new Date(2026, 9, 18, 11, 0));
+    // Saturday noon, the next weekday working hour is Monday at 9
+    assert.deepEqual(nextRun('0 9-17 * * 1-5', new Date(2026, 9, 17, 12, 0)), new Date(2026, 9, 19, 9, 0));
+    assert.deepEqual(nextRun('0,30 8,20 * * *', new Date(2026, 9, 18, 8, 30)), new Date(2026, 9, 18, 20, 0));
+    assert.deepEqual(nextRun('@daily', new Date(2026, 9, 18, 8, 30)), new Date(2026, 9, 19, 0, 0));
+});
+
+test('cron day of week 7 is Sunday like 0', () => {
+    const cron = parseCron('0 0 * * 7');
+    assert.deepEqual([...cron.weekdays], [0]);
+    // Saturday 2026-10-17
+    assert.deepEqual(nextCronTime(cron, new Date(2026, 9, 17, 12, 0)), new Date(2026, 9, 18, 0, 0));
+});
+
+test('cron day of month and day of week match either when both are restricted', () => {
+    // The 13th or any Friday: Friday 23 October comes first, then Wednesday 13 January before Friday the 15th
+    assert.deepEqual(nextRun('0 0 13 * 5', new Date(2026, 9, 18, 12, 0)), new Date(2026, 9, 23, 0, 0));
+    assert.deepEqual(nextRun('0 0 13 * 5', new Date(2027, 0, 9, 12, 0)), new Date(2027, 0, 13, 0, 0));
+    // */2 leaves the day of month unrestricted, so both have to match: an odd day that is a Monday
+    assert.equal(parseCron('0 0 */2 * 1').daysRestricted, false);
+    assert.deepEqual(nextRun('0 0 */2 * 1', new Date(2026, 9, 20, 12, 0)), new Date(2026, 10, 9, 0, 0));
+});
+
+test('cron rolls over months and years', () => {
+    assert.deepEqual(nextRun('0 0 1 * *', new Date(2026, 0, 31, 12, 0)), new Date(2026, 1, 1, 0, 0));
+    assert.deepEqual(nextRun('59 23 31 * *', new Date(2026, 3, 1, 0, 0)), new Date(2026, 4, 31, 23, 59));
+    assert.deepEqual(nextRun('0 0 1 1 *', new Date(2026, 11, 31, 23, 59)), new Date(2027, 0, 1, 0, 0));
+    assert.deepEqual(nextRun('0 12 29 2 *', new Date(2026, 2, 1, 0, 0)), new Date(2028, 1, 29, 12, 0));
+});
+
+test('cron that never matches and invalid expressions', () => {
+    assert.equal(nextRun('0 0 30 2 *', new Date(2026, 9, 18, 12, 0)), null);
+    assert.throws(() => parseCron('0 0 * *'), /five fields/);
+    assert.throws(() => parseCron('60 * * * *'), /Invalid minute "60"/);
+    assert.throws(() => parseCron('* * * 13 *'), /Invalid month "13"/);
+    assert.throws(() => parseCron('*/0 * * * *'), /Invalid minute/);
+    assert.throws(() => parseCron('5-1 * * * *'), /Invalid minute/);
+});
@@ -0,0 +1,100 @@
+// Scraper output as structured log events. The server reads the scraper's stdout and stderr line by line,
+// turns each line into an event and keeps the most recent ones in a ring buffer for clients that connect later.
+
+/** @typedef {'debug' | 'info' | 'warn' | 'error'} LogLevel */
+
+/**
+ * @typedef {Object} LogEvent
+ * @property {number} id Increases by one per event, so clients can tell which ones they already have
+ * @property {string} time
+ * @property {LogLevel} level
+ * @property {'stdout' | 'stderr' | 'system'} stream System events come from the server, e.g. start and exit
+ * @property {number} [worker] Worker that logged the line, from its "[worker N]" prefix
+ * @property {string} message
+ */
+
+/** @type {LogLevel[]} */
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'];
+
+const WORKER_PREFIX = /^\[worker (\d+)\]\s*/;
+
+/**
+ * Level of a line of scraper output. console.error and console.warn both write to stderr, so stderr lines
+ * count as errors unless they read like a warning.
+ * @param {string} message
+ * @param {'stdout' | 'stderr' | 'system'} stream
+ * @returns {LogLevel}
+ */
+function detectLevel(message, stream) {
+    if (/^\(node:\d+\) \w*Warning|^warn(ing)?\b/i.test(message)) return 'warn';
+    if (stream === 'stderr') return 'error';
+    if (/^(error|failed)\b/i.test(message)) return 'error';
+    if (/^\s*at /.test(message)) return 'debug';
+    return 'info';
+}
+
+/**
+ * Keeps the last `capacity` events
+ * @param {number} capacity
+ */
+export function createLogBuffer(capacity) {
+    /** @type {LogEvent[]} */
+    const events = [];
+    let nextId = 1;
+
+    return {
+        /**
+         * Turn a line of output into an event and keep it
+         * @param {string} line
+         * @param {'stdout' | 'stderr' | 'system'} stream
+         * @returns {LogEvent}
+         */
+        push(line, stream) {
+            const match = line.match(WORKER_PREFIX);
+            const message = match ? line.slice(match[0].length) : line;
+            /** @type {LogEvent} */
+            const event = {
+                id: nextId++,
+                time: new Date().toISOString(),
+                level: detectLevel(message, stream),
+                stream,
+                ...(match ? { worker: Number(match[1]) } : {}),
+                message,
+            };
+            events.push(event);
+            if (events.length > capacity) events.shift();
+            return event;
+        },
+
+        /**
+         * Buffered events, oldest first
+         * @param {{ level?: LogLevel, search?: string, limit?: number }} [filter] Level is the lowest one to include
+         * @returns {LogEvent[]}
+         */
+        list({ level, search, limit } = {}) {
+            const minimum = level ? LOG_LEVELS.indexOf(level) : 0;
+            const needle = typeof search === 'string' ? search.toLowerCase() : '';
+            const matching = events.filter(
+                (event) =>
+                    LOG_LEVELS.indexOf(event.level) >= minimum &&
+                    (!needle || event.message.toLowerCase().includes(needle)),
+            );
+            return limit ? matching.slice(-limit) : matching;
+        },
+    };
+}
+
+/**
+ * Plain-text form of events, one line each, as offered for download
+ * @param {LogEvent[]} events
+ * @returns {string}
+ */
+export function formatLogEvents(events) {
+    return events
+        .map(
+            (event) =>
+                `${event.time} ${event.level.toUpperCase().padEnd(5)} ` +
+                `${event.worker ? `[worker ${event.worker}] ` : ''}${event.message}\n`,
+        )
+        .join('');
+}
@@ -0,0 +1,146 @@
+// Runs the scraper (test.ts) as a child process of the server, so its PID and exit code are known and it can be
+// stopped. On Linux and macOS the child leads its own process group, which lets a stop reach the node process
+// behind `npx tsx` as well. Stopping sends SIGTERM first, so the scraper can mark its run as interrupted, and
+// only kills the group when it has not exited within the timeout. Its output is passed on line by line and still
+// echoed to the server's own console, and lines can be sent to its stdin.
+import { spawn, execFile } from 'child_process';
+import readline from 'readline';
+
+/**
+ * @typedef {Object} ScraperExit
+ * @property {number | null} code
+ * @property {string | null} signal
+ * @property {string} exitedAt
+ * @property {boolean} stopRequested Whether the exit followed a stop request
+ */
+
+/**
+ * @typedef {Object} ScraperProcessStatus
+ * @property {'running' | 'stopping' | 'stopped'} status
+ * @property {number} [pid]
+ * @property {string} [startedAt]
+ * @property {ScraperExit | null} lastExit How the previous run ended, null before the first one
+ */
+
+const isWindows = process.platform === 'win32';
+
+/**
+ * @param {{ cwd: string, command?: string, args?: string[], env?: NodeJS.ProcessEnv, stopTimeoutMs?: number, onExit?: (exit: ScraperExit) => void, onOutput?: (line: string, stream: 'stdout' | 'stderr') => void }} options
+ */
+export function createScraperProcess({
+    cwd,
+    command = 'npx',
+    args = ['tsx', 'test.ts'],
+    env = process.env,
+    stopTimeoutMs = 10000,
+    onExit,
+    onOutput,
+}) {
+    /** @type {import('child_process').ChildProcess | null} */
+    let child = null;
+    let startedAt = null;
+    let stopRequested = false;
+    let killTimer = null;
+    /** @type {ScraperExit | null} */
+    let lastExit = null;
+
+    // Signal the whole process group, falling back to the child itself if the group is already gone
+    const signal = (name) => {
+        if (isWindows) {
+            // taskkill without /f asks the tree to close, with /f it is terminated
+            execFile('taskkill', ['/pid', String(child.pid), '/t', ...(name === 'SIGKILL' ? ['/f'] : [])], () => {});
+            return;
+        }
+        try {
+            process.kill(-child.pid, name);
+        } catch {
+            child.kill(name);
+        }
+    };
+
+    return {
+        /** @returns {ScraperProcessStatus} */
+        status() {
+            if (!child) return { status: 'stopped', lastExit };
+            return { status: stopRequested ? 'stopping' : 'running', pid: child.pid, startedAt, lastExit };
+        },
+
+        /**
+         * Start the scraper. Throws when it is already running.
+         * @param {{ env?: Record<string, string> }} [options] Variables added to the environment of this run only
+         * @returns {ScraperProcessStatus}
+         */
+        start({ env: runEnv } = {}) {
+            if (child) throw new Error(`Scraper is already running (pid ${child.pid})`);
+
+            const spawned = spawn(command, args, {
+                cwd,
+                env: { ...env, ...runEnv },
+                stdio: ['pipe', 'pipe', 'pipe'],
+                detached: !isWindows,
+                shell: isWindows,
+            });
+            for (const stream of /** @type {const} */ (['stdout', 'stderr'])) {
+                const echo = stream === 'stdout' ? process.stdout : process.stderr;
+                readline.createInterface({ input: spawned[stream] }).on('line', (line) => {
+                    echo.write(`${line}\n`);
+                    onOutput?.(line, stream);
+                });
+            }
+            // A scraper that exits while a line is being sent closes the pipe, which is not worth more than the exit
+            spawned.stdin.on('error', () => {});
+            child = spawned;
+            startedAt = new Date().toISOString();
+            stopRequested = false;
+
+            const finish = (code, signalName) => {
+                // 'error' and 'close' can both fire for a process that failed to start
+                if (child !== spawned) return;
+                clearTimeout(killTimer);
+                lastExit = { code, signal: signalName, exitedAt: new Date().toISOString(), stopRequested };
+                child = null;
+                startedAt = null;
+                onExit?.(lastExit);
+            };
+            // 'close' rather than 'exit', so the last lines of output are passed on before the exit
+            spawned.on('close', (code, signalName) => finish(code, signalName));
+            spawned.on('error', (error) => {
+                console.error('Error running scraper:', error);
+                finish(null, null);
+            });
+
+            return this.status();
+        },
+
+        /**
+         * Send a line to the scraper's stdin
+         * @param {string} line
+         * @returns {boolean} False when the scraper is not running
+         */
+        send(line) {
+            if (!child || stopRequested) return false;
+            child.stdin.write(`${line}\n`);
+            return true;
+        },
+
+        /**
+         * Ask the scraper to stop, killing it when it has not exited after the timeout
+         * @returns {Promise<ScraperProcessStatus>} Resolves once it has exited
+         */
+        stop() {
+            if (!child) return Promise.resolve(this.status());
+
+            const stopping = child;
+            const exited = new Promise((resolve) => stopping.once('close', () => resolve(this.status())));
+            if (!stopRequested) {
+                stopRequested = true;
+                signal('SIGTERM');
+                killTimer = setTimeout(() => {
+                    console.log(`Scraper did not stop within ${stopTimeoutMs}ms, killing it`);
+                    signal('SIGKILL');
+                }, stopTimeoutMs);
+            }
+            return exited;
+        },
+    };
+}
@@ -0,0 +1,198 @@
+// Machine-readable progress from the scraper. test.ts writes each event to stdout as one line with a prefix, the
+// server picks those lines out of the output and folds them into the state of the current run, which the dashboard
+// shows as a progress bar.
+
+/**
+ * @typedef {{ key: string, name: string, address?: string | null }} ProgressToken
+ */
+
+/**
+ * @typedef {(
+ *     | { type: 'run-started', runId: number, maxTokens: number, firstRow: number, lastRow: number, workers: number }
+ *     | { type: 'token-selected', worker: number, token: ProgressToken, index: number, firstRow: number, lastRow: number }
+ *     | { type: 'trader-row', worker: number, row: number, lastRow: number }
+ *     | { type: 'wallet-accepted', worker: number, row: number, address: string | null }
+ *     | { type: 'wallet-rejected', worker: number, row: number, address: string | null, ruleId: string, reason: string }
+ *     | { type: 'token-finished', worker: number }
+ *     | { type: 'run-finished', status: 'finished' | 'failed' | 'interrupted' }
+ * ) & { time?: string }} ProgressEvent
+ */
+
+/**
+ * @typedef {Object} WorkerProgress
+ * @property {number} id
+ * @property {ProgressToken | null} token Token being scanned, null between tokens
+ * @property {number} row Last trader row started, firstRow - 1 before the first one
+ * @property {number} firstRow
+ * @property {number} lastRow
+ */
+
+/**
+ * @typedef {Object} RunProgress
+ * @property {number} runId
+ * @property {'running' | 'finished' | 'failed' | 'interrupted'} status
+ * @property {string} startedAt
+ * @property {string | null} finishedAt
+ * @property {number} maxTokens MAX_TOKENS_TO_PROCESS
+ * @property {number} tokensSelected
+ * @property {number} tokensFinished
+ * @property {number} rowsDone Trader rows looked at so far
+ * @property {number} totalRows Rows the run is expected to look at, shrinks when tokens are resumed or cut short
+ * @property {number} accepted
+ * @property {number} rejected
+ * @property {Record<number, WorkerProgress>} workers
+ * @property {{ address: string | null, token: ProgressToken | null, accepted: boolean, reason?: string } | null} lastWallet
+ * @property {string} updatedAt
+ */
+
+export const PROGRESS_PREFIX = '@@progress ';
+
+/**
+ * Line to write to stdout for an event
+ * @param {ProgressEvent} event
+ * @returns {string}
+ */
+export function formatProgressEvent(event) {
+    return `${PROGRESS_PREFIX}${JSON.stringify({ ...event, time: new Date().toISOString() })}`;
+}
+
+/**
+ * Event written by formatProgressEvent, null for any other line
+ * @param {string} line
+ * @returns {ProgressEvent | null}
+ */
+export function parseProgressEvent(line) {
+    if (!line.startsWith(PROGRESS_PREFIX)) return null;
+    try {
+        const event = JSON.parse(line.slice(PROGRESS_PREFIX.length));
+        return event && typeof event.type === 'string' ? event : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * State of the current or last run, built up from its progress events
+ */
+export function createRunProgress() {
+    /** @type {RunProgress | null} */
+    let run = null;
+    // Trader row each token's scan starts at, from the run-started event
+    let runFirstRow = 0;
+
+    // Count the worker's current row as done and drop the rows of its token it will not get to
+    const finishToken = (worker) => {
+        if (!worker.token) return;
+        run.rowsDone += worker.row >= worker.firstRow ? 1 : 0;
+        run.totalRows -= worker.lastRow - Math.max(worker.row, worker.firstRow - 1);
+        run.tokensFinished++;
+        worker.token = null;
+    };
+
+    return {
+        /** @returns {RunProgress | null} */
+        state() {
+            return run;
+        },
+
+        // Forget the last run, e.g. when a new one is started
+        reset() {
+            run = null;
+        },
+
+        /**
+         * Apply an event, returns whether the state changed. Events before a run-started are ignored
+         * @param {ProgressEvent} event
+         * @returns {boolean}
+         */
+        apply(event) {
+            const time = event.time ?? new Date().toISOString();
+            if (event.type === 'run-started') {
+                runFirstRow = event.firstRow;
+                run = {
+                    runId: event.runId,
+                    status: 'running',
+                    startedAt: time,
+                    finishedAt: null,
+                    maxTokens: event.maxTokens,
+                    tokensSelected: 0,
+                    tokensFinished: 0,
+                    rowsDone: 0,
+                    totalRows: event.maxTokens * Math.max(0, event.lastRow - event.firstRow + 1),
+                    accepted: 0,
+                    rejected: 0,
+                    workers: {},
+                    lastWallet: null,
+                    updatedAt: time,
+                };
+                return true;
+            }
+            if (!run || run.status !== 'running') return false;
+
+            let worker = null;
+            if ('worker' in event) {
+                worker = run.workers[event.worker] ?? {
+                    id: event.worker,
+                    token: null,
+                    row: 0,
+                    firstRow: 0,
+                    lastRow: 0,
+                };
+                run.workers[event.worker] = worker;
+            }
+            switch (event.type) {
+                case 'token-selected':
+                    finishToken(worker);
+                    Object.assign(worker, {
+                        token: event.token,
+                        row: event.firstRow - 1,
+                        firstRow: event.firstRow,
+                        lastRow: event.lastRow,
+                    });
+                    run.tokensSelected++;
+                    // A resumed token starts past the rows its last run already looked at
+                    run.totalRows -= Math.max(0, event.firstRow - runFirstRow);
+                    break;
+                case 'trader-row':
+                    if (worker.row >= worker.firstRow) run.rowsDone++;
+                    worker.row = event.row;
+                    break;
+                case 'wallet-accepted':
+                case 'wallet-rejected':
+                    run[event.type === 'wallet-accepted' ? 'accepted' : 'rejected']++;
+                    run.lastWallet = {
+                        address: event.address,
+                        token: worker.token,
+                        accepted: event.type === 'wallet-accepted',
+                        ...(event.type === 'wallet-rejected' ? { reason: event.reason } : {}),
+                    };
+                    break;
+                case 'token-finished':
+                    finishToken(worker);
+                    break;
+                case 'run-finished':
+                    Object.values(run.workers).forEach(finishToken);
+                    // The queue can run out before MAX_TOKENS_TO_PROCESS tokens were scanned
+                    if (event.status === 'finished') run.totalRows = run.rowsDone;
+                    run.status = event.status;
+                    run.finishedAt = time;
+                    break;
+                default:
+                    return false;
+            }
+            run.updatedAt = time;
+            return true;
+        },
+
+        /**
+         * Settle a run whose process exited without saying how the run ended, e.g. when it was killed
+         * @param {{ code: number | null, stopRequested: boolean, exitedAt: string }} exit
+         * @returns {boolean} Whether the state changed
+         */
+        exited({ code, stopRequested, exitedAt }) {
+            if (!run || run.status !== 'running') return false;
+            const status = stopRequested ? 'interrupted' : code === 0 ? 'finished' : 'failed';
+            return this.apply({ type: 'run-finished', status, time: exitedAt });
+        },
+    };
+}
@@ -1,63 +1,161 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './components/ui/card';
-import { Input } from './components/ui/input';
 import { Button } from './components/ui/button';
-import { PortfoliosTable } from './components/ui/portfolios-table';
+import {
+    PortfoliosTable,
+    type Portfolio,
+    type PortfolioPage,
+    type PortfolioQuery,
+} from './components/ui/portfolios-table';
+import { type ReviewChanges } from './components/ui/portfolio-review-controls';
+import { PortfolioImport, type ImportPolicy, type ImportResult } from './components/ui/portfolio-import';
+import { LogConsole, type LogEvent } from './components/ui/log-console';
+import { RunProgressPanel, type RunProgress } from './components/ui/run-progress';
+import { SchedulesEditor, type Schedule } from './components/ui/schedules-editor';
+import { WebhooksEditor, type Webhook, type WebhookDelivery } from './components/ui/webhooks-editor';
+import { AlertRulesEditor, type Alert, type AlertPreview, type AlertRule } from './components/ui/alert-rules-editor';
+import { ConfigFields, type ConfigField, type ConfigValue } from './components/ui/config-fields';
+import { ProfileBar, type Profile } from './components/ui/profile-bar';
+import { FilterRulesEditor, type FilterRule, type FilterRuleDefinition } from './components/ui/filter-rules-editor';
+import {
+    TokenFiltersEditor,
+    type TokenColumn,
+    type TokenFilters,
+    type TokenSort,
+} from './components/ui/token-filters-editor';
 import io from 'socket.io-client';
 import './App.css';
 import { toast } from './components/ui/use-toast';
+import { API_URL, apiFetch, getToken } from './lib/api';
+import { useSession } from './lib/useSession';
 
+// The settings described by /config-schema, plus the ones with editors of their own
 interface Config {
-    MIN_PNL: string;
-    MIN_ROI: string;
-    MAX_TOKENS_TO_PROCESS: string;
-    MAX_TRADERS_PER_TOKEN: string;
-    START_FROM_ROW: string;
-    CHROME_DEBUG_PORT: string;
-    BASE_URL: string;
-    HOST_IP: string;
+    FILTER_RULES: FilterRule[];
+    TOKEN_FILTERS: TokenFilters;
+    TOKEN_SORT: TokenSort | null;
+    [key: string]: unknown;
 }
 
-interface ScraperStatus {
-    status: 'running' | 'stopped';
-    pid?: number;
+interface ScraperExit {
+    code: number | null;
+    signal: string | null;
+    exitedAt: string;
+    stopRequested: boolean;
 }
 
-interface Portfolio {
-    roi: string;
-    pnl: string;
-    link: string;
+interface ScraperStatus {
+    status: 'running' | 'stopping' | 'stopped';
+    pid?: number;
+    startedAt?: string;
+    lastExit?: ScraperExit | null;
+    run?: RunProgress | null;
 }
 
 interface ScraperStats {
     portfoliosChecked: number;
 }
 
+// Scraper log lines kept in the log console, matching the server's buffer
+const MAX_LOG_LINES = 2000;
+// Webhook delivery attempts shown, as many as GET /webhooks/deliveries returns
+const MAX_WEBHOOK_DELIVERIES = 100;
+
+const selectClassName =
+    'border-input h-9 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]';
+
+// One line about how the last scraper run ended
+function describeLastExit(exit?: ScraperExit | null): string {
+    if (!exit) return 'Not running';
+    const when = new Date(exit.exitedAt).toLocaleString();
+    if (exit.stopRequested) return `Stopped at ${when}`;
+    if (exit.code === 0) return `Finished at ${when}`;
+    return `Exited with ${exit.signal ? `signal ${exit.signal}` : `code ${exit.code}`} at ${when}`;
+}
+
+// Newest portfolios first, without filters
+const defaultPortfolioQuery: PortfolioQuery = {
+    page: 1,
+    pageSize: 50,
+    sort: 'createdAt',
+    order: 'desc',
+    search: '',
+    status: '',
+    tag: '',
+    minRoi: '',
+    maxRoi: '',
+    minPnl: '',
+    maxPnl: '',
+    createdFrom: '',
+    createdTo: '',
+};
+
+// Query string of GET /portfolios. The date filters cover whole local days, the server takes timestamps
+function portfolioSearchParams(query: PortfolioQuery): string {
+    const params = new URLSearchParams({
+        page: String(query.page),
+        pageSize: String(query.pageSize),
+        sort: query.sort,
+        order: query.order,
+    });
+    for (const key of ['search', 'status', 'tag', 'minRoi', 'maxRoi', 'minPnl', 'maxPnl'] as const) {
+        if (query[key].trim()) params.set(key, query[key].trim());
+    }
+    if (query.createdFrom) params.set('createdFrom', new Date(`${query.createdFrom}T00:00`).toISOString());
+    if (query.createdTo) {
+        const end = new Date(`${query.createdTo}T00:00`);
+        end.setDate(end.getDate() + 1);
+        params.set('createdTo', end.toISOString());
+    }
+    return params.toString();
+}
+
+// Until the saved config has loaded, the schema fields show their defaults
 const defaultConfig: Config = {
-    MIN_PNL: '25000',
-    MIN_ROI: '2000',
-    MAX_TOKENS_TO_PROCESS: '10',
-    MAX_TRADERS_PER_TOKEN: '20',
-    START_FROM_ROW: '3',
-    CHROME_DEBUG_PORT: '9222',
-    BASE_URL: 'https://neo.bullx.io',
-    HOST_IP: 'localhost',
+    FILTER_RULES: [],
+    TOKEN_FILTERS: {},
+    TOKEN_SORT: null,
 };
 
 function App() {
+    const { session, signOut } = useSession();
+    // Viewers can look at everything, changes need an operator token
+    const canOperate = session.role === 'operator';
     const [config, setConfig] = useState<Config>(defaultConfig);
     const [status, setStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
+    const [configFields, setConfigFields] = useState<ConfigField[]>([]);
+    const [configErrors, setConfigErrors] = useState<Record<string, string>>({});
     const [scraperStatus, setScraperStatus] = useState<ScraperStatus>({ status: 'stopped' });
     const [scraperError, setScraperError] = useState<string | null>(null);
-    const [portfolios, setPortfolios] = useState<Record<string, Portfolio>>({});
+    const [profiles, setProfiles] = useState<Profile[]>([]);
+    const [profileBusy, setProfileBusy] = useState(false);
+    // Profile to start the next run with, empty for the active one
+    const [startProfileId, setStartProfileId] = useState('');
+    const [portfolios, setPortfolios] = useState<PortfolioPage>({ items: [], total: 0, page: 1, pageSize: 50 });
+    const [portfolioQuery, setPortfolioQuery] = useState<PortfolioQuery>(defaultPortfolioQuery);
+    // Bumped to load the page again when portfolios it does not show were added or changed
+    const [portfolioRevision, setPortfolioRevision] = useState(0);
+    const shownPortfolioIds = useRef(new Set<string>());
+    const [logs, setLogs] = useState<LogEvent[]>([]);
+    const [runProgress, setRunProgress] = useState<RunProgress | null>(null);
     const [clearingTokens, setClearingTokens] = useState(false);
+    const [reapplying, setReapplying] = useState(false);
     const [tokenCount, setTokenCount] = useState<number | null>(null);
     const [scraperStats, setScraperStats] = useState<ScraperStats>({ portfoliosChecked: 0 });
     const [updating, setUpdating] = useState(false);
+    const [filterRuleDefinitions, setFilterRuleDefinitions] = useState<FilterRuleDefinition[]>([]);
+    const [tokenColumns, setTokenColumns] = useState<TokenColumn[]>([]);
+    const [schedules, setSchedules] = useState<Schedule[]>([]);
+    const [savingSchedules, setSavingSchedules] = useState(false);
+    const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+    const [webhookDeliveries, setWebhookDeliveries] = useState<WebhookDelivery[]>([]);
+    const [savingWebhooks, setSavingWebhooks] = useState(false);
+    const [alertRules, setAlertRules] = useState<AlertRule[]>([]);
+    const [savingAlertRules, setSavingAlertRules] = useState(false);
 
     const fetchConfig = async () => {
         try {
-            const response = await fetch('http://localhost:4444/config');
+            const response = await apiFetch('/config');
             const data = await response.json();
             setConfig(data);
             setStatus('success');
@@ -67,15 +165,102 @@ function App() {
         }
     };
 
+    const fetchConfigSchema = async () => {
+        try {
+            const response = await apiFetch('/config-schema');
+            const data = await response.json();
+            setConfigFields(data);
+        } catch (error) {
+            console.error('Error fetching config schema:', error);
+        }
+    };
+
+    const fetchFilterRuleDefinitions = async () => {
+        try {
+            const response = await apiFetch('/filter-rules');
+            const data = await response.json();
+            setFilterRuleDefinitions(data);
+        } catch (error) {
+            console.error('Error fetching filter rules:', error);
+        }
+    };
+
+    const fetchTokenColumns = async () => {
+        try {
+            const response = await apiFetch('/token-columns');
+            const data = await response.json();
+            setTokenColumns(data);
+        } catch (error) {
+            console.error('Error fetching token columns:', error);
+        }
+    };
+
+    const fetchProfiles = async () => {
+        try {
+            const response = await apiFetch('/profiles');
+            const data = await response.json();
+            setProfiles(data);
+        } catch (error) {
+            console.error('Error fetching profiles:', error);
+        }
+    };
+
+    const fetchSchedules = async () => {
+        try {
+            const response = await apiFetch('/schedules');
+            const data = await response.json();
+            setSchedules(data);
+        } catch (error) {
+            console.error('Error fetching schedules:', error);
+        }
+    };
+
+    // Only operators can read the webhooks, their URLs hold tokens
+    const fetchWebhooks = async () => {
+        try {
+            const response = await apiFetch('/webhooks');
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error);
+            setWebhooks(data);
+        } catch (error) {
+            console.error('Error fetching webhooks:', error);
+        }
+    };
+
+    const fetchWebhookDeliveries = async () => {
+        try {
+            const response = await apiFetch('/webhooks/deliveries');
+            const data = await response.json();
+            setWebhookDeliveries(data);
+        } catch (error) {
+            console.error('Error fetching webhook deliveries:', error);
+        }
+    };
+
+    const fetchAlertRules = async () => {
+        try {
+            const response = await apiFetch('/alert-rules');
+            const data = await response.json();
+            setAlertRules(data);
+        } catch (error) {
+            console.error('Error fetching alert rules:', error);
+        }
+    };
+
+    const toScraperStatus = (data: ScraperStatus): ScraperStatus => ({
+        status: data.status === 'running' || data.status === 'stopping' ? data.status : 'stopped',
+        pid: data.pid,
+        startedAt: data.startedAt,
+        lastExit: data.lastExit,
+    });
+
     const fetchScraperStatus = async () => {
         try {
-            const response = await fetch('http://localhost:4444/scraper/status');
+            const response = await apiFetch('/scraper/status');
             const data = await response.json();
             if (typeof data === 'object' && data !== null && 'status' in data) {
-                setScraperStatus({
-                    status: data.status === 'running' ? 'running' : 'stopped',
-                    pid: data.pid,
-                });
+                setScraperStatus(toScraperStatus(data));
+                setRunProgress(data.run ?? null);
             } else {
                 setScraperStatus({ status: 'stopped' });
                 throw new Error('Invalid scraper status response');
@@ -87,28 +272,56 @@ function App() {
         }
     };
 
-    const fetchPortfolios = async () => {
-        try {
-            const response = await fetch('http://localhost:4444/portfolios');
-            const data = await response.json();
-            setPortfolios(data);
-        } catch (error) {
-            console.error('Error fetching portfolios:', error);
-        }
-    };
-
     useEffect(() => {
         // Initial fetches
         fetchConfig();
+        fetchConfigSchema();
+        fetchFilterRuleDefinitions();
+        fetchTokenColumns();
+        fetchSchedules();
+        fetchWebhookDeliveries();
+        fetchAlertRules();
+        fetchProfiles();
         fetchScraperStatus();
-        fetchPortfolios();
 
         // Initialize socket connection
-        const socket = io('http://localhost:4444');
+        const socket = io(API_URL, { auth: { token: getToken() } });
+
+        // Only the portfolios that were added or changed, the ones on the page are updated in place
+        socket.on('portfolios-changed', (changed: Portfolio[]) => {
+            setPortfolios((page) => ({
+                ...page,
+                items: page.items.map((item) => changed.find((entry) => entry.id === item.id) ?? item),
+            }));
+            if (changed.some((entry) => !shownPortfolioIds.current.has(entry.id))) {
+                setPortfolioRevision((revision) => revision + 1);
+            }
+        });
 
-        socket.on('portfolios-updated', (updatedPortfolios: Record<string, Portfolio>) => {
-            console.log('Portfolios updated:', updatedPortfolios);
-            setPortfolios(updatedPortfolios);
+        // The buffered scraper log on connect, then one event per new line
+        socket.on('scraper-logs', (bufferedLogs: LogEvent[]) => setLogs(bufferedLogs));
+        socket.on('scraper-log', (event: LogEvent) => {
+            setLogs((prev) => [...prev.slice(-(MAX_LOG_LINES - 1)), event]);
+        });
+
+        // Progress of the current or last run, on connect and whenever it moves
+        socket.on('scraper-progress', (progress: RunProgress | null) => setRunProgress(progress));
+
+        // Each webhook delivery attempt, the newest first like GET /webhooks/deliveries
+        socket.on('webhook-delivery', (delivery: WebhookDelivery) => {
+            setWebhookDeliveries((prev) => [delivery, ...prev.slice(0, MAX_WEBHOOK_DELIVERIES - 1)]);
+        });
+
+        // A portfolio started matching an alert rule, shown the ways the rule asks for
+        socket.on('alert', (alert: Alert) => {
+            const description = `${alert.portfolio.id} matched ${alert.conditions}`;
+            if (alert.toast) toast({ title: `Alert: ${alert.ruleName}`, description });
+            if (alert.browser && 'Notification' in window && Notification.permission === 'granted') {
+                new Notification(`Alert: ${alert.ruleName}`, {
+                    body: description,
+                    tag: `${alert.ruleId}:${alert.portfolio.id}`,
+                });
+            }
         });
 
         // Set up polling for scraper status
@@ -121,39 +334,44 @@ function App() {
         };
     }, []);
 
+    useEffect(() => {
+        if (canOperate) fetchWebhooks();
+    }, [canOperate]);
+
     useEffect(() => {
         // Set document title
         document.title = 'WLTR.SCRPR';
+    }, []);
 
-        // Fetch portfolios
-        fetch('http://localhost:4444/portfolios')
-            .then((response) => response.json())
-            .then((data) => setPortfolios(data))
-            .catch((error) => console.error('Error fetching portfolios:', error));
-
-        // Set up WebSocket connection
-        const socket = new WebSocket('ws://localhost:4444');
-        socket.onmessage = (event) => {
-            const data = JSON.parse(event.data);
-            if (data.type === 'portfolios-updated') {
-                setPortfolios(data.portfolios);
+    // Load the page of portfolios the query asks for, waiting until the filters are no longer being typed
+    useEffect(() => {
+        const timer = setTimeout(async () => {
+            try {
+                const response = await apiFetch(`/portfolios?${portfolioSearchParams(portfolioQuery)}`);
+                const data = await response.json();
+                if (!response.ok) throw new Error(data.error);
+                shownPortfolioIds.current = new Set(data.items.map((portfolio: Portfolio) => portfolio.id));
+                setPortfolios(data);
+            } catch (error) {
+                console.error('Error fetching portfolios:', error);
             }
-        };
-
-        return () => socket.close();
-    }, []);
+        }, 300);
+        return () => clearTimeout(timer);
+    }, [portfolioQuery, portfolioRevision]);
 
     const handleStartScraper = async () => {
         try {
-            const response = await fetch('http://localhost:4444/scraper/start', {
+            const response = await apiFetch('/scraper/start', {
                 method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(startProfileId ? { profileId: Number(startProfileId) } : {}),
             });
             const data = await response.json();
             if (typeof data === 'object' && data !== null && 'status' in data) {
-                setScraperStatus({
-                    status: data.status === 'running' ? 'running' : 'stopped',
-                    pid: data.pid,
-                });
+                setScraperStatus(toScraperStatus(data));
+                if (data.error) throw new Error(data.error);
             } else {
                 throw new Error('Invalid response from start scraper');
             }
@@ -161,21 +379,19 @@ function App() {
         } catch (error) {
             console.error('Error starting scraper:', error);
             setScraperError(error instanceof Error ? error.message : 'Failed to start scraper');
-            setScraperStatus({ status: 'stopped' });
         }
     };
 
     const handleStopScraper = async () => {
+        // The server answers once the scraper has exited, which can take until the stop timeout
+        setScraperStatus((prev) => ({ ...prev, status: 'stopping' }));
         try {
-            const response = await fetch('http://localhost:4444/scraper/stop', {
+            const response = await apiFetch('/scraper/stop', {
                 method: 'POST',
             });
             const data = await response.json();
             if (typeof data === 'object' && data !== null && 'status' in data) {
-                setScraperStatus({
-                    status: data.status === 'running' ? 'running' : 'stopped',
-                    pid: data.pid,
-                });
+                setScraperStatus(toScraperStatus(data));
             } else {
                 throw new Error('Invalid response from stop scraper');
             }
@@ -183,7 +399,7 @@ function App() {
         } catch (error) {
             console.error('Error stopping scraper:', error);
             setScraperError(error instanceof Error ? error.message : 'Failed to stop scraper');
-            setScraperStatus({ status: 'stopped' });
+            fetchScraperStatus();
         }
     };
 
@@ -192,7 +408,7 @@ function App() {
         setStatus('loading');
         console.log('Updating config:', config);
         try {
-            const response = await fetch('http://localhost:4444/config', {
+            const response = await apiFetch('/config', {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
@@ -200,7 +416,12 @@ function App() {
                 body: JSON.stringify(config),
             });
             const data = await response.json();
+            if (!response.ok) {
+                setConfigErrors(data.errors ?? {});
+                throw new Error(data.error);
+            }
             setConfig(data);
+            setConfigErrors({});
             setStatus('success');
         } catch (error) {
             console.error('Error updating config:', error);
@@ -208,13 +429,327 @@ function App() {
         }
     };
 
-    const handleInputChange = (key: keyof Config) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    // Send a profile change, then reload the profiles and, when another profile became active, the configuration
+    const handleProfileRequest = async (path: string, init: RequestInit, success: string, reloadConfig = false) => {
+        setProfileBusy(true);
+        try {
+            const response = await apiFetch(path, {
+                ...init,
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error);
+            toast({
+                title: 'Success',
+                description: success,
+            });
+            if (reloadConfig) {
+                setConfigErrors({});
+                await fetchConfig();
+            }
+        } catch (error) {
+            console.error('Error updating profiles:', error);
+            toast({
+                title: 'Error',
+                description: error instanceof Error ? error.message : 'Failed to update profiles',
+                variant: 'destructive',
+            });
+        } finally {
+            await fetchProfiles();
+            setProfileBusy(false);
+        }
+    };
+
+    const profileName = (id: number) => profiles.find((profile) => profile.id === id)?.name ?? `#${id}`;
+
+    const handleActivateProfile = (id: number) =>
+        handleProfileRequest(`/profiles/${id}/activate`, { method: 'POST' }, `Switched to "${profileName(id)}"`, true);
+
+    const handleCreateProfile = (name: string) =>
+        handleProfileRequest('/profiles', { method: 'POST', body: JSON.stringify({ name }) }, `Saved "${name}"`);
+
+    const handleRenameProfile = (id: number, name: string) =>
+        handleProfileRequest(
+            `/profiles/${id}`,
+            { method: 'PATCH', body: JSON.stringify({ name }) },
+            `Renamed "${profileName(id)}" to "${name}"`,
+        );
+
+    const handleDuplicateProfile = (id: number) =>
+        handleProfileRequest(`/profiles/${id}/duplicate`, { method: 'POST' }, `Copied "${profileName(id)}"`);
+
+    const handleDeleteProfile = (id: number) => {
+        if (!window.confirm(`Delete the profile "${profileName(id)}"?`)) return;
+        if (startProfileId === String(id)) setStartProfileId('');
+        handleProfileRequest(`/profiles/${id}`, { method: 'DELETE' }, `Deleted "${profileName(id)}"`);
+    };
+
+    // Download the portfolios matching the filters, all of them rather than the page shown
+    const handleExportPortfolios = async (format: string) => {
+        try {
+            const params = new URLSearchParams(portfolioSearchParams(portfolioQuery));
+            params.delete('page');
+            params.delete('pageSize');
+            params.set('format', format);
+            const response = await apiFetch(`/portfolios/export?${params}`);
+            if (!response.ok) throw new Error((await response.json()).error);
+            const blob = await response.blob();
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download =
+                response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ?? `portfolios.${format}`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            console.error('Error exporting portfolios:', error);
+            toast({
+                title: 'Error',
+                description: error instanceof Error ? error.message : 'Failed to export portfolios',
+                variant: 'destructive',
+            });
+        }
+    };
+
+    // The imported portfolios reach the table through the portfolios-changed event
+    const handleImportPortfolios = async (
+        file: File,
+        policy: ImportPolicy,
+        source: string,
+        dryRun: boolean,
+    ): Promise<ImportResult | null> => {
+        try {
+            const params = new URLSearchParams({ policy, dryRun: String(dryRun) });
+            if (source) params.set('source', source);
+            const response = await apiFetch(`/portfolios/import?${params}`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'text/plain',
+                },
+                body: file,
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error);
+            return data;
+        } catch (error) {
+            console.error('Error importing portfolios:', error);
+            toast({
+                title: 'Error',
+                description: error instanceof Error ? error.message : 'Failed to import portfolios',
+                variant: 'destructive',
+            });
+            return null;
+        }
+    };
+
+    // Every open dashboard gets the updated portfolio through the portfolios-changed event, this one included
+    const handleReviewPortfolio = async (id: string, changes: ReviewChanges) => {
+        try {
+            const response = await apiFetch(`/portfolios/${encodeURIComponent(id)}/review`, {
+                method: 'PATCH',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(changes),
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error);
+        } catch (error) {
+            console.error('Error updating review:', error);
+            toast({
+                title: 'Error',
+                description: error instanceof Error ? error.message : 'Failed to update the review',
+                variant: 'destructive',
+            });
+        }
+    };
+
+    const handleFieldChange = (key: string, value: ConfigValue) => {
+        setConfig((prev) => ({
+            ...prev,
+            [key]: value,
+        }));
+    };
+
+    const handleFilterRulesChange = (rules: FilterRule[]) => {
         setConfig((prev) => ({
             ...prev,
-            [key]: e.target.value,
+            FILTER_RULES: rules,
         }));
     };
 
+    const handleTokenSelectionChange = (filters: TokenFilters, sort: TokenSort | null) => {
+        setConfig((prev) => ({
+            ...prev,
+            TOKEN_FILTERS: filters,
+            TOKEN_SORT: sort,
+        }));
+    };
+
+    const handleSaveSchedules = async () => {
+        setSavingSchedules(true);
+        try {
+            const response = await apiFetch('/schedules', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(schedules),
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error);
+            setSchedules(data);
+            toast({
+                title: 'Success',
+                description: 'Schedules saved',
+            });
+        } catch (error) {
+            console.error('Error saving schedules:', error);
+            toast({
+                title: 'Error',
+                description: error instanceof Error ? error.message : 'Failed to save schedules',
+                variant: 'destructive',
+            });
+        } finally {
+            setSavingSchedules(false);
+        }
+    };
+
+    const handleSaveWebhooks = async () => {
+        setSavingWebhooks(true);
+        try {
+            const response = await apiFetch('/webhooks', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(webhooks),
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error);
+            setWebhooks(data);
+            toast({
+                title: 'Success',
+                description: 'Webhooks saved',
+            });
+        } catch (error) {
+            console.error('Error saving webhooks:', error);
+            toast({
+                title: 'Error',
+                description: error instanceof Error ? error.message : 'Failed to save webhooks',
+                variant: 'destructive',
+            });
+        } finally {
+            setSavingWebhooks(false);
+        }
+    };
+
+    // The saved webhook is tested, the attempt also shows up in the delivery log
+    const handleTestWebhook = async (webhook: Webhook) => {
+        try {
+            const response = await apiFetch(`/webhooks/${webhook.id}/test`, {
+                method: 'POST',
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error);
+            const delivery = data as WebhookDelivery;
+            if (delivery.status !== 'delivered') throw new Error(`${webhook.name}: ${delivery.error}`);
+            toast({
+                title: 'Success',
+                description: `Test event delivered to ${webhook.name}`,
+            });
+        } catch (error) {
+            console.error('Error testing webhook:', error);
+            toast({
+                title: 'Error',
+                description: error instanceof Error ? error.message : 'Failed to send the test event',
+                variant: 'destructive',
+            });
+        }
+    };
+
+    const handleSaveAlertRules = async () => {
+        setSavingAlertRules(true);
+        try {
+            const response = await apiFetch('/alert-rules', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(alertRules),
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error);
+            setAlertRules(data);
+            toast({
+                title: 'Success',
+                description: 'Alert rules saved',
+            });
+        } catch (error) {
+            console.error('Error saving alert rules:', error);
+            toast({
+                title: 'Error',
+                description: error instanceof Error ? error.message : 'Failed to save alert rules',
+                variant: 'destructive',
+            });
+        } finally {
+            setSavingAlertRules(false);
+        }
+    };
+
+    // The rule as edited, saved or not
+    const handlePreviewAlertRule = async (rule: AlertRule): Promise<AlertPreview | null> => {
+        try {
+            const response = await apiFetch('/alert-rules/preview', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(rule),
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error);
+            return data;
+        } catch (error) {
+            console.error('Error previewing alert rule:', error);
+            toast({
+                title: 'Error',
+                description: error instanceof Error ? error.message : 'Failed to preview the alert rule',
+                variant: 'destructive',
+            });
+            return null;
+        }
+    };
+
+    const handleReapplyFilterRules = async () => {
+        setReapplying(true);
+        try {
+            const response = await apiFetch('/wallets/reapply', {
+                method: 'POST',
+            });
+            const data = await response.json();
+            if (data.success) {
+                toast({
+                    title: 'Success',
+                    description: `${data.message} (${data.passed} passing, ${data.rejected} rejected, ${data.incomplete} missing metrics)`,
+                });
+            } else {
+                throw new Error(data.message);
+            }
+        } catch (error) {
+            console.error('Error re-applying filter rules:', error);
+            toast({
+                title: 'Error',
+                description: 'Failed to re-apply filter rules',
+                variant: 'destructive',
+            });
+        } finally {
+            setReapplying(false);
+        }
+    };
+
     const handleClearProcessedTokens = async () => {
         if (!window.confirm('Are you sure you want to clear all processed tokens?')) {
             return;
@@ -222,7 +757,7 @@ function App() {
 
         setClearingTokens(true);
         try {
-            const response = await fetch('http://localhost:4444/clear-processed-tokens', {
+            const response = await apiFetch('/clear-processed-tokens', {
                 method: 'POST',
             });
             const data = await response.json();
@@ -251,7 +786,7 @@ function App() {
     useEffect(() => {
         const fetchTokenCount = async () => {
             try {
-                const response = await fetch('http://localhost:4444/processed-tokens');
+                const response = await apiFetch('/processed-tokens');
                 if (!response.ok) {
                     throw new Error('Failed to fetch processed tokens');
                 }
@@ -273,7 +808,7 @@ function App() {
     useEffect(() => {
         const fetchScraperStats = async () => {
             try {
-                const response = await fetch('http://localhost:4444/scraper-stats');
+                const response = await apiFetch('/scraper-stats');
                 if (!response.ok) {
                     throw new Error('Failed to fetch scraper stats');
                 }
@@ -296,7 +831,7 @@ function App() {
 
         setUpdating(true);
         try {
-            const response = await fetch('http://localhost:4444/update', {
+            const response = await apiFetch('/update', {
                 method: 'POST',
             });
             const data = await response.json();
@@ -324,8 +859,14 @@ function App() {
         <div className="min-h-screen py-8 px-4">
             <div className="max-w-7xl mx-auto space-y-6">
                 <Card className="mb-8 shadow-none border-none">
-                    <CardHeader>
+                    <CardHeader className="flex flex-row items-center justify-between">
                         <CardTitle className="text-2xl font-bold tracking-tight">WLTR. Scraper v1</CardTitle>
+                        <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                            Signed in as {session.name} ({session.role})
+                            <Button variant="outline" size="sm" onClick={signOut}>
+                                Sign Out
+                            </Button>
+                        </div>
                     </CardHeader>
                 </Card>
                 {/* Scraper Control Card */}
@@ -336,88 +877,213 @@ function App() {
                     </CardHeader>
                     <CardContent>
                         <div className="flex gap-4">
-                            <Button onClick={handleStartScraper}>{'Start Scraper'}</Button>
-                            <Button onClick={handleClearProcessedTokens} disabled={clearingTokens} variant="outline">
+                            {scraperStatus.status === 'stopped' ? (
+                                <>
+                                    <Button onClick={handleStartScraper} disabled={!canOperate}>
+                                        {'Start Scraper'}
+                                    </Button>
+                                    <select
+                                        className={selectClassName}
+                                        value={startProfileId}
+                                        onChange={(e) => setStartProfileId(e.target.value)}
+                                    >
+                                        <option value="">
+                                            With the active profile
+                                            {profiles.some((profile) => profile.active)
+                                                ? ` (${profiles.find((profile) => profile.active)?.name})`
+                                                : ''}
+                                        </option>
+                                        {profiles
+                                            .filter((profile) => !profile.active)
+                                            .map((profile) => (
+                                                <option key={profile.id} value={profile.id}>
+                                                    With {profile.name}
+                                                </option>
+                                            ))}
+                                    </select>
+                                </>
+                            ) : (
+                                <Button
+                                    onClick={handleStopScraper}
+                                    disabled={!canOperate || scraperStatus.status === 'stopping'}
+                                    variant="destructive"
+                                >
+                                    {scraperStatus.status === 'stopping' ? 'Stopping...' : 'Stop Scraper'}
+                                </Button>
+                            )}
+                            <Button
+                                onClick={handleClearProcessedTokens}
+                                disabled={!canOperate || clearingTokens}
+                                variant="outline"
+                            >
                                 {clearingTokens ? 'Clearing...' : `Clear Processed Tokens (${tokenCount ?? '...'})`}
                             </Button>
-                            <Button onClick={handleUpdate} disabled={updating} variant="secondary">
+                            <Button
+                                onClick={handleReapplyFilterRules}
+                                disabled={!canOperate || reapplying}
+                                variant="outline"
+                            >
+                                {reapplying ? 'Re-applying...' : 'Re-apply Filter Rules'}
+                            </Button>
+                            <Button onClick={handleUpdate} disabled={!canOperate || updating} variant="secondary">
                                 {updating ? 'Updating...' : 'Update Code'}
                             </Button>
                         </div>
+                        <div className="text-sm text-muted-foreground mt-2">
+                            {scraperStatus.status === 'stopped'
+                                ? describeLastExit(scraperStatus.lastExit)
+                                : `Running as pid ${scraperStatus.pid}` +
+                                  (scraperStatus.startedAt
+                                      ? ` since ${new Date(scraperStatus.startedAt).toLocaleString()}`
+                                      : '')}
+                        </div>
+                        {runProgress && (
+                            <div className="mt-4">
+                                <RunProgressPanel progress={runProgress} />
+                            </div>
+                        )}
                         {scraperError && <div className="text-red-500 text-sm mt-2">{scraperError}</div>}
                     </CardContent>
                 </Card>
 
+                {/* Scraper Log Card */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Scraper Log</CardTitle>
+                        <CardDescription>Live output of the running scraper.</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <LogConsole logs={logs} />
+                    </CardContent>
+                </Card>
+
+                {/* Schedules Card */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Schedules</CardTitle>
+                        <CardDescription>
+                            Start the scraper on a cron expression or every few minutes, with its own .env overrides. A
+                            run is skipped while the previous one is still active.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <SchedulesEditor schedules={schedules} settings={configFields} onChange={setSchedules} />
+                        <Button onClick={handleSaveSchedules} disabled={!canOperate || savingSchedules}>
+                            {savingSchedules ? 'Saving...' : 'Save Schedules'}
+                        </Button>
+                    </CardContent>
+                </Card>
+
+                {/* Webhooks Card */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Webhooks</CardTitle>
+                        <CardDescription>
+                            Post new portfolios and review status changes to Discord, Telegram or any HTTP endpoint.
+                            Failed deliveries are retried with growing delays.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <WebhooksEditor
+                            webhooks={webhooks}
+                            deliveries={webhookDeliveries}
+                            disabled={!canOperate}
+                            onChange={setWebhooks}
+                            onTest={handleTestWebhook}
+                        />
+                        <Button onClick={handleSaveWebhooks} disabled={!canOperate || savingWebhooks}>
+                            {savingWebhooks ? 'Saving...' : 'Save Webhooks'}
+                        </Button>
+                    </CardContent>
+                </Card>
+
+                {/* Alert Rules Card */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Alert Rules</CardTitle>
+                        <CardDescription>
+                            Get notified when a portfolio starts matching a rule, as a toast, a browser notification or
+                            through a webhook. Preview lists the portfolios a rule matches now.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <AlertRulesEditor
+                            rules={alertRules}
+                            webhooks={webhooks}
+                            disabled={!canOperate}
+                            onChange={setAlertRules}
+                            onPreview={handlePreviewAlertRule}
+                        />
+                        <Button onClick={handleSaveAlertRules} disabled={!canOperate || savingAlertRules}>
+                            {savingAlertRules ? 'Saving...' : 'Save Alert Rules'}
+                        </Button>
+                    </CardContent>
+                </Card>
+
                 {/* Configuration Card */}
                 <Card>
                     <CardHeader>
                         <CardTitle>Configuration Settings</CardTitle>
                         <CardDescription>
-                            Update your scraper configuration settings. Changes will be saved to both config.json and
-                            .env files.
+                            Update your scraper configuration settings. Changes will be saved to both the database and
+                            the .env file, and to the active profile.
                         </CardDescription>
                     </CardHeader>
                     <CardContent>
                         <form onSubmit={handleSubmit} className="space-y-4">
-                            <div className="space-y-2">
-                                <label className="text-sm font-medium">Minimum PNL</label>
-                                <Input
-                                    type="number"
-                                    value={config.MIN_PNL}
-                                    onChange={handleInputChange('MIN_PNL')}
-                                    placeholder="Enter minimum PNL"
-                                />
-                            </div>
-
-                            <div className="space-y-2">
-                                <label className="text-sm font-medium">Minimum ROI</label>
-                                <Input
-                                    type="number"
-                                    value={config.MIN_ROI}
-                                    onChange={handleInputChange('MIN_ROI')}
-                                    placeholder="Enter minimum ROI"
-                                />
-                            </div>
+                            <ProfileBar
+                                profiles={profiles}
+                                busy={!canOperate || profileBusy}
+                                onActivate={handleActivateProfile}
+                                onCreate={handleCreateProfile}
+                                onRename={handleRenameProfile}
+                                onDuplicate={handleDuplicateProfile}
+                                onDelete={handleDeleteProfile}
+                            />
+                            <ConfigFields
+                                fields={configFields}
+                                values={config}
+                                errors={configErrors}
+                                onChange={handleFieldChange}
+                            />
 
                             <div className="space-y-2">
-                                <label className="text-sm font-medium">Max Tokens to Process</label>
-                                <Input
-                                    type="number"
-                                    value={config.MAX_TOKENS_TO_PROCESS}
-                                    onChange={handleInputChange('MAX_TOKENS_TO_PROCESS')}
-                                    placeholder="Enter max tokens to process"
+                                <label className="text-sm font-medium">Token Filters</label>
+                                <p className="text-xs text-muted-foreground">
+                                    Only tokens inside these explore-table ranges are scanned; leave a bound empty to
+                                    ignore it.
+                                </p>
+                                <TokenFiltersEditor
+                                    columns={tokenColumns}
+                                    filters={config.TOKEN_FILTERS}
+                                    sort={config.TOKEN_SORT}
+                                    onChange={handleTokenSelectionChange}
                                 />
                             </div>
 
                             <div className="space-y-2">
-                                <label className="text-sm font-medium">Max Traders per Token</label>
-                                <Input
-                                    type="number"
-                                    value={config.MAX_TRADERS_PER_TOKEN}
-                                    onChange={handleInputChange('MAX_TRADERS_PER_TOKEN')}
-                                    placeholder="Enter max traders per token"
-                                />
-                            </div>
-
-                            <div className="space-y-2">
-                                <label className="text-sm font-medium">Start From Row</label>
-                                <Input
-                                    type="number"
-                                    value={config.START_FROM_ROW}
-                                    onChange={handleInputChange('START_FROM_ROW')}
-                                    placeholder="Enter start from row"
+                                <label className="text-sm font-medium">Wallet Filter Rules</label>
+                                <p className="text-xs text-muted-foreground">
+                                    Checked top to bottom; a wallet is skipped by the first enabled rule it fails.
+                                </p>
+                                <FilterRulesEditor
+                                    rules={config.FILTER_RULES}
+                                    definitions={filterRuleDefinitions}
+                                    onChange={handleFilterRulesChange}
                                 />
                             </div>
 
                             <div className="pt-4">
-                                <Button type="submit" className="w-full" disabled={status === 'loading'}>
+                                <Button type="submit" className="w-full" disabled={!canOperate || status === 'loading'}>
                                     {status === 'loading' ? 'Saving...' : 'Save Configuration'}
                                 </Button>
                             </div>
 
                             {status === 'error' && (
                                 <div className="text-red-500 text-sm mt-2">
-                                    Failed to update configuration. Please try again.
+                                    {Object.keys(configErrors).length > 0
+                                        ? 'Some settings are invalid, see the messages above.'
+                                        : 'Failed to update configuration. Please try again.'}
                                 </div>
                             )}
 
@@ -432,12 +1098,20 @@ function App() {
                     <CardHeader>
                         <CardTitle>Found Portfolios</CardTitle>
                         <CardDescription>
-                            Live updates of portfolios found by the scraper. Total found:{' '}
-                            {Object.keys(portfolios).length} | Total checked: {scraperStats.portfoliosChecked}
+                            Live updates of portfolios found by the scraper. Total found: {portfolios.total} | Total
+                            checked: {scraperStats.portfoliosChecked}
                         </CardDescription>
                     </CardHeader>
-                    <CardContent>
-                        <PortfoliosTable portfolios={portfolios} />
+                    <CardContent className="space-y-4">
+                        <PortfolioImport disabled={!canOperate} onImport={handleImportPortfolios} />
+                        <PortfoliosTable
+                            portfolios={portfolios}
+                            query={portfolioQuery}
+                            onQueryChange={setPortfolioQuery}
+                            canReview={canOperate}
+                            onReview={handleReviewPortfolio}
+                            onExport={handleExportPortfolios}
+                        />
                     </CardContent>
                 </Card>
             </div>
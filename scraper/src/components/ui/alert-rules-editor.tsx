@@ -0,0 +1,322 @@
+import { useState } from 'react';
+import { Button } from './button';
+import { Checkbox } from './checkbox';
+import { Input } from './input';
+import type { Portfolio } from './portfolios-table';
+import type { Webhook } from './webhooks-editor';
+
+export type AlertField = 'roi' | 'pnl' | 'tokens' | 'status' | 'tag';
+
+export interface AlertCondition {
+    field: AlertField;
+    operator: string;
+    value: number | string;
+}
+
+export interface AlertRule {
+    id?: string;
+    name: string;
+    enabled: boolean;
+    match: 'all' | 'any';
+    conditions: AlertCondition[];
+    channels: { toast: boolean; browser: boolean; webhookIds: string[] };
+}
+
+// Response of POST /alert-rules/preview, the first matching portfolios and how many match in all
+export interface AlertPreview {
+    total: number;
+    portfolios: Array<Portfolio & { tokens: number }>;
+}
+
+// What the server sends as an alert event
+export interface Alert {
+    ruleId: string;
+    ruleName: string;
+    conditions: string;
+    toast: boolean;
+    browser: boolean;
+    portfolio: Portfolio & { tokens: number };
+    firedAt: string;
+}
+
+interface AlertRulesEditorProps {
+    rules: AlertRule[];
+    webhooks: Webhook[];
+    disabled: boolean;
+    onChange: (rules: AlertRule[]) => void;
+    onPreview: (rule: AlertRule) => Promise<AlertPreview | null>;
+}
+
+const selectClassName =
+    'border-input h-9 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]';
+
+const FIELDS: { field: AlertField; label: string; type: 'number' | 'status' | 'tag'; placeholder: string }[] = [
+    { field: 'roi', label: 'ROI (%)', type: 'number', placeholder: '5000' },
+    { field: 'pnl', label: 'PnL ($)', type: 'number', placeholder: '100000' },
+    { field: 'tokens', label: 'Tokens seen in', type: 'number', placeholder: '3' },
+    { field: 'status', label: 'Review status', type: 'status', placeholder: '' },
+    { field: 'tag', label: 'Tag', type: 'tag', placeholder: 'whale' },
+];
+
+const OPERATORS = {
+    number: ['>', '>=', '<', '<=', '='],
+    status: ['=', '!='],
+    tag: ['has', 'lacks'],
+};
+
+const REVIEW_STATUSES = ['new', 'reviewed', 'following', 'discarded'];
+
+// How many of the matching portfolios a preview lists
+const SHOWN_PREVIEW = 5;
+
+const fieldType = (field: AlertField) => FIELDS.find((entry) => entry.field === field)?.type ?? 'number';
+
+// Browser notifications need the user's permission, asked for when a rule first wants them
+function requestNotificationPermission() {
+    if ('Notification' in window && Notification.permission === 'default') Notification.requestPermission();
+}
+
+export function AlertRulesEditor({ rules, webhooks, disabled, onChange, onPreview }: AlertRulesEditorProps) {
+    // Previews by rule position, cleared when the rule changes
+    const [previews, setPreviews] = useState<Record<number, AlertPreview>>({});
+    const savedWebhooks = webhooks.filter((webhook) => webhook.id);
+
+    const updateRule = (index: number, changes: Partial<AlertRule>) => {
+        onChange(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+        setPreviews((prev) => {
+            const next = { ...prev };
+            delete next[index];
+            return next;
+        });
+    };
+
+    const updateCondition = (index: number, position: number, changes: Partial<AlertCondition>) => {
+        updateRule(index, {
+            conditions: rules[index].conditions.map((condition, i) =>
+                i === position ? { ...condition, ...changes } : condition,
+            ),
+        });
+    };
+
+    // A new field starts with the first operator of its type and an empty value, or the first status
+    const changeField = (index: number, position: number, field: AlertField) => {
+        const type = fieldType(field);
+        updateCondition(index, position, {
+            field,
+            operator: OPERATORS[type][0],
+            value: type === 'status' ? REVIEW_STATUSES[0] : '',
+        });
+    };
+
+    const updateChannels = (index: number, changes: Partial<AlertRule['channels']>) => {
+        updateRule(index, { channels: { ...rules[index].channels, ...changes } });
+    };
+
+    const removeRule = (index: number) => {
+        onChange(rules.filter((_, i) => i !== index));
+        setPreviews({});
+    };
+
+    const preview = async (index: number) => {
+        const result = await onPreview(rules[index]);
+        if (result) setPreviews((prev) => ({ ...prev, [index]: result }));
+    };
+
+    const addRule = () => {
+        onChange([
+            ...rules,
+            {
+                name: 'Big wins',
+                enabled: true,
+                match: 'all',
+                conditions: [
+                    { field: 'roi', operator: '>', value: 5000 },
+                    { field: 'pnl', operator: '>', value: 100000 },
+                ],
+                channels: { toast: true, browser: false, webhookIds: [] },
+            },
+        ]);
+    };
+
+    return (
+        <div className="space-y-2">
+            {rules.length === 0 && <div className="text-sm text-muted-foreground">No alert rules.</div>}
+            {rules.map((rule, index) => (
+                <div key={rule.id ?? `new-${index}`} className="space-y-3 rounded-md border p-3">
+                    <div className="flex flex-wrap items-center gap-4">
+                        <Checkbox
+                            checked={rule.enabled}
+                            disabled={disabled}
+                            onCheckedChange={(checked) => updateRule(index, { enabled: checked === true })}
+                        />
+                        <Input
+                            className="w-56"
+                            placeholder="Name"
+                            value={rule.name}
+                            disabled={disabled}
+                            onChange={(e) => updateRule(index, { name: e.target.value })}
+                        />
+                        <select
+                            className={selectClassName}
+                            value={rule.match}
+                            disabled={disabled}
+                            onChange={(e) => updateRule(index, { match: e.target.value === 'any' ? 'any' : 'all' })}
+                        >
+                            <option value="all">All conditions</option>
+                            <option value="any">Any condition</option>
+                        </select>
+                        <div className="flex-1" />
+                        <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            title="List the portfolios this rule matches now"
+                            disabled={disabled}
+                            onClick={() => preview(index)}
+                        >
+                            Preview
+                        </Button>
+                        <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            disabled={disabled}
+                            onClick={() => removeRule(index)}
+                        >
+                            Remove
+                        </Button>
+                    </div>
+                    {rule.conditions.map((condition, position) => {
+                        const type = fieldType(condition.field);
+                        return (
+                            <div key={position} className="flex items-center gap-2 pl-8">
+                                <select
+                                    className={selectClassName}
+                                    value={condition.field}
+                                    disabled={disabled}
+                                    onChange={(e) => changeField(index, position, e.target.value as AlertField)}
+                                >
+                                    {FIELDS.map(({ field, label }) => (
+                                        <option key={field} value={field}>
+                                            {label}
+                                        </option>
+                                    ))}
+                                </select>
+                                <select
+                                    className={selectClassName}
+                                    value={condition.operator}
+                                    disabled={disabled}
+                                    onChange={(e) => updateCondition(index, position, { operator: e.target.value })}
+                                >
+                                    {OPERATORS[type].map((operator) => (
+                                        <option key={operator} value={operator}>
+                                            {operator}
+                                        </option>
+                                    ))}
+                                </select>
+                                {type === 'status' ? (
+                                    <select
+                                        className={selectClassName}
+                                        value={condition.value}
+                                        disabled={disabled}
+                                        onChange={(e) => updateCondition(index, position, { value: e.target.value })}
+                                    >
+                                        {REVIEW_STATUSES.map((status) => (
+                                            <option key={status} value={status}>
+                                                {status}
+                                            </option>
+                                        ))}
+                                    </select>
+                                ) : (
+                                    <Input
+                                        type={type === 'number' ? 'number' : 'text'}
+                                        className="w-40"
+                                        placeholder={FIELDS.find(({ field }) => field === condition.field)?.placeholder}
+                                        value={condition.value}
+                                        disabled={disabled}
+                                        onChange={(e) => updateCondition(index, position, { value: e.target.value })}
+                                    />
+                                )}
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="sm"
+                                    disabled={disabled}
+                                    onClick={() =>
+                                        updateRule(index, {
+                                            conditions: rule.conditions.filter((_, i) => i !== position),
+                                        })
+                                    }
+                                >
+                                    ×
+                                </Button>
+                            </div>
+                        );
+                    })}
+                    <div className="flex flex-wrap items-center gap-4 pl-8">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            disabled={disabled}
+                            onClick={() =>
+                                updateRule(index, {
+                                    conditions: [...rule.conditions, { field: 'roi', operator: '>', value: '' }],
+                                })
+                            }
+                        >
+                            Add Condition
+                        </Button>
+                        <label className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                                checked={rule.channels.toast}
+                                disabled={disabled}
+                                onCheckedChange={(checked) => updateChannels(index, { toast: checked === true })}
+                            />
+                            Toast
+                        </label>
+                        <label className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                                checked={rule.channels.browser}
+                                disabled={disabled}
+                                onCheckedChange={(checked) => {
+                                    if (checked === true) requestNotificationPermission();
+                                    updateChannels(index, { browser: checked === true });
+                                }}
+                            />
+                            Browser notification
+                        </label>
+                        {savedWebhooks.map((webhook) => (
+                            <label key={webhook.id} className="flex items-center gap-2 text-sm">
+                                <Checkbox
+                                    checked={rule.channels.webhookIds.includes(webhook.id!)}
+                                    disabled={disabled}
+                                    onCheckedChange={(checked) => {
+                                        const webhookIds = rule.channels.webhookIds.filter((id) => id !== webhook.id);
+                                        updateChannels(index, {
+                                            webhookIds: checked === true ? [...webhookIds, webhook.id!] : webhookIds,
+                                        });
+                                    }}
+                                />
+                                {webhook.name}
+                            </label>
+                        ))}
+                    </div>
+                    {previews[index] && (
+                        <div className="pl-8 text-xs text-muted-foreground">
+                            {previews[index].total === 0
+                                ? 'No portfolio matches now.'
+                                : `${previews[index].total} portfolios match now: ${previews[index].portfolios
+                                      .slice(0, SHOWN_PREVIEW)
+                                      .map(({ id, roi, pnl }) => `${id} (${roi}, $${Number(pnl).toLocaleString()})`)
+                                      .join(', ')}${previews[index].total > SHOWN_PREVIEW ? ', ...' : ''}`}
+                        </div>
+                    )}
+                </div>
+            ))}
+            <Button type="button" variant="outline" disabled={disabled} onClick={addRule}>
+                Add Alert Rule
+            </Button>
+        </div>
+    );
+}
@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import { apiFetch, getToken, onUnauthorized, setToken } from '@/lib/api';
+import { SessionContext, type Session } from '@/lib/useSession';
+import { Button } from './button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './card';
+import { Input } from './input';
+
+type AuthGateProps = {
+    children: React.ReactNode;
+};
+
+// Ask the server who a token belongs to, null when it is not accepted
+async function fetchSession(): Promise<Session | null> {
+    const response = await apiFetch('/auth/session');
+    if (response.status === 401) return null;
+    if (!response.ok) throw new Error(`Server answered ${response.status}`);
+    return response.json();
+}
+
+// Shows the login screen until the user signs in with an access token from the server's auth.json, then the
+// dashboard. A token the server stops accepting signs the user out again
+export function AuthGate({ children }: AuthGateProps) {
+    const [session, setSession] = useState<Session | null>(null);
+    const [checking, setChecking] = useState(() => getToken() !== null);
+    const [tokenInput, setTokenInput] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const signOut = () => {
+        setToken(null);
+        setSession(null);
+    };
+
+    useEffect(
+        () =>
+            onUnauthorized(() => {
+                setToken(null);
+                setSession(null);
+            }),
+        [],
+    );
+
+    useEffect(() => {
+        if (!getToken()) return;
+        fetchSession()
+            .then((saved) => {
+                if (!saved) setToken(null);
+                setSession(saved);
+            })
+            .catch((error) => setError(error instanceof Error ? error.message : 'Could not reach the server'))
+            .finally(() => setChecking(false));
+    }, []);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setChecking(true);
+        setError(null);
+        setToken(tokenInput.trim());
+        try {
+            const signedIn = await fetchSession();
+            if (!signedIn) {
+                setToken(null);
+                setError('The server does not accept this token');
+            }
+            setSession(signedIn);
+            setTokenInput('');
+        } catch (error) {
+            setToken(null);
+            setError(error instanceof Error ? error.message : 'Could not reach the server');
+        } finally {
+            setChecking(false);
+        }
+    };
+
+    if (session) {
+        return <SessionContext.Provider value={{ session, signOut }}>{children}</SessionContext.Provider>;
+    }
+
+    return (
+        <div className="min-h-screen flex items-center justify-center px-4">
+            <Card className="w-full max-w-md">
+                <CardHeader>
+                    <CardTitle>Sign in to WLTR. Scraper</CardTitle>
+                    <CardDescription>
+                        Paste an access token from auth.json next to the server. The server prints new tokens when it
+                        creates that file.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <form onSubmit={handleSubmit} className="space-y-4">
+                        <Input
+                            type="password"
+                            placeholder="Access token"
+                            autoComplete="current-password"
+                            value={tokenInput}
+                            onChange={(e) => setTokenInput(e.target.value)}
+                        />
+                        {error && <div className="text-red-500 text-sm">{error}</div>}
+                        <Button type="submit" className="w-full" disabled={checking || !tokenInput.trim()}>
+                            {checking ? 'Signing in...' : 'Sign In'}
+                        </Button>
+                    </form>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
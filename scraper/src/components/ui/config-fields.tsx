@@ -0,0 +1,89 @@
+import { Checkbox } from './checkbox';
+import { Input } from './input';
+
+export interface ConfigField {
+    key: string;
+    type: 'integer' | 'number' | 'string' | 'url' | 'boolean' | 'enum';
+    label: string;
+    description: string;
+    default: string | number | boolean;
+    min?: number;
+    max?: number;
+    options?: string[];
+    hidden?: boolean;
+}
+
+export type ConfigValue = string | number | boolean;
+
+interface ConfigFieldsProps {
+    fields: ConfigField[];
+    values: Record<string, unknown>;
+    errors: Record<string, string>;
+    onChange: (key: string, value: ConfigValue) => void;
+}
+
+const selectClassName =
+    'border-input h-9 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]';
+
+// One input per schema field, the server checks the values again when they are saved
+export function ConfigFields({ fields, values, errors, onChange }: ConfigFieldsProps) {
+    const renderInput = (field: ConfigField) => {
+        const value = values[field.key] ?? field.default;
+        switch (field.type) {
+            case 'boolean':
+                return (
+                    <label className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                            checked={value === true || value === 'true'}
+                            onCheckedChange={(checked) => onChange(field.key, checked === true)}
+                        />
+                        {field.description}
+                    </label>
+                );
+            case 'enum':
+                return (
+                    <select
+                        className={selectClassName}
+                        value={String(value)}
+                        onChange={(e) => onChange(field.key, e.target.value)}
+                    >
+                        {field.options?.map((option) => (
+                            <option key={option} value={option}>
+                                {option}
+                            </option>
+                        ))}
+                    </select>
+                );
+            default:
+                return (
+                    <Input
+                        type={field.type === 'integer' || field.type === 'number' ? 'number' : 'text'}
+                        min={field.min}
+                        max={field.max}
+                        step={field.type === 'integer' ? 1 : 'any'}
+                        value={String(value)}
+                        onChange={(e) => onChange(field.key, e.target.value)}
+                        placeholder={String(field.default)}
+                        aria-invalid={Boolean(errors[field.key])}
+                    />
+                );
+        }
+    };
+
+    return (
+        <>
+            {fields
+                .filter((field) => !field.hidden)
+                .map((field) => (
+                    <div key={field.key} className="space-y-2">
+                        <label className="text-sm font-medium">{field.label}</label>
+                        {field.type !== 'boolean' && (
+                            <p className="text-xs text-muted-foreground">{field.description}</p>
+                        )}
+                        {renderInput(field)}
+                        {errors[field.key] && <div className="text-red-500 text-xs">{errors[field.key]}</div>}
+                    </div>
+                ))}
+        </>
+    );
+}
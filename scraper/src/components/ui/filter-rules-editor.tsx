@@ -0,0 +1,95 @@
+import { Button } from './button';
+import { Checkbox } from './checkbox';
+import { Input } from './input';
+
+export interface FilterRule {
+    id: string;
+    enabled: boolean;
+    params: Record<string, number | string>;
+}
+
+export interface FilterRuleDefinition {
+    id: string;
+    label: string;
+    description: string;
+    params: Record<string, number>;
+}
+
+interface FilterRulesEditorProps {
+    rules: FilterRule[];
+    definitions: FilterRuleDefinition[];
+    onChange: (rules: FilterRule[]) => void;
+}
+
+export function FilterRulesEditor({ rules, definitions, onChange }: FilterRulesEditorProps) {
+    const updateRule = (index: number, changes: Partial<FilterRule>) => {
+        onChange(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+    };
+
+    const handleParamChange = (index: number, key: string) => (e: React.ChangeEvent<HTMLInputElement>) => {
+        updateRule(index, { params: { ...rules[index].params, [key]: e.target.value } });
+    };
+
+    // Swap a rule with its neighbour to change the order the scraper checks them in
+    const moveRule = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= rules.length) return;
+        const reordered = [...rules];
+        [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+        onChange(reordered);
+    };
+
+    return (
+        <div className="space-y-2">
+            {rules.map((rule, index) => {
+                const definition = definitions.find((entry) => entry.id === rule.id);
+                return (
+                    <div key={rule.id} className="flex items-center gap-4 rounded-md border p-3">
+                        <Checkbox
+                            checked={rule.enabled}
+                            onCheckedChange={(checked) => updateRule(index, { enabled: checked === true })}
+                        />
+                        <div className="flex-1">
+                            <div className="text-sm font-medium">{definition?.label ?? rule.id}</div>
+                            {definition && (
+                                <div className="text-xs text-muted-foreground">{definition.description}</div>
+                            )}
+                        </div>
+                        {Object.keys(rule.params).map((key) => (
+                            <div key={key} className="flex items-center gap-2">
+                                <label className="text-xs text-muted-foreground">{key}</label>
+                                <Input
+                                    type="number"
+                                    className="w-28"
+                                    value={rule.params[key]}
+                                    disabled={!rule.enabled}
+                                    onChange={handleParamChange(index, key)}
+                                />
+                            </div>
+                        ))}
+                        <div className="flex gap-1">
+                            <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => moveRule(index, -1)}
+                                disabled={index === 0}
+                            >
+                                ↑
+                            </Button>
+                            <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => moveRule(index, 1)}
+                                disabled={index === rules.length - 1}
+                            >
+                                ↓
+                            </Button>
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,134 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { Button } from './button';
+import { Checkbox } from './checkbox';
+import { Input } from './input';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEvent {
+    id: number;
+    time: string;
+    level: LogLevel;
+    stream: 'stdout' | 'stderr' | 'system';
+    worker?: number;
+    message: string;
+}
+
+interface LogConsoleProps {
+    logs: LogEvent[];
+}
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const levelClassNames: Record<LogLevel, string> = {
+    debug: 'text-muted-foreground',
+    info: '',
+    warn: 'text-yellow-600',
+    error: 'text-red-500',
+};
+
+const selectClassName =
+    'border-input h-9 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]';
+
+function formatLine(event: LogEvent): string {
+    const worker = event.worker ? `[worker ${event.worker}] ` : '';
+    return `${event.time} ${event.level.toUpperCase().padEnd(5)} ${worker}${event.message}`;
+}
+
+export function LogConsole({ logs }: LogConsoleProps) {
+    const [minimumLevel, setMinimumLevel] = useState<LogLevel>('info');
+    const [search, setSearch] = useState('');
+    const [autoScroll, setAutoScroll] = useState(true);
+    const scrollerRef = useRef<HTMLDivElement>(null);
+
+    const visibleLogs = useMemo(() => {
+        const minimum = LOG_LEVELS.indexOf(minimumLevel);
+        const needle = search.trim().toLowerCase();
+        return logs.filter(
+            (event) =>
+                LOG_LEVELS.indexOf(event.level) >= minimum && (!needle || event.message.toLowerCase().includes(needle)),
+        );
+    }, [logs, minimumLevel, search]);
+
+    useEffect(() => {
+        if (autoScroll && scrollerRef.current) {
+            scrollerRef.current.scrollTop = scrollerRef.current.scrollHeight;
+        }
+    }, [visibleLogs, autoScroll]);
+
+    // Scrolling up to read pauses auto-scroll, scrolling back to the bottom resumes it
+    const handleScroll = () => {
+        const scroller = scrollerRef.current;
+        if (!scroller) return;
+        const atBottom = scroller.scrollHeight - scroller.scrollTop - scroller.clientHeight < 16;
+        if (atBottom !== autoScroll) setAutoScroll(atBottom);
+    };
+
+    // Download the lines that match the current filters
+    const handleDownload = () => {
+        const blob = new Blob([visibleLogs.map((event) => `${formatLine(event)}\n`).join('')], {
+            type: 'text/plain',
+        });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `scraper-${new Date().toISOString().replace(/[:.]/g, '-')}.log`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-4">
+                <select
+                    className={selectClassName}
+                    value={minimumLevel}
+                    onChange={(e) => setMinimumLevel(e.target.value as LogLevel)}
+                >
+                    {LOG_LEVELS.map((level) => (
+                        <option key={level} value={level}>
+                            {level === 'debug' ? 'All levels' : `${level} and above`}
+                        </option>
+                    ))}
+                </select>
+                <Input
+                    className="w-64"
+                    placeholder="Search log"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                />
+                <label className="flex items-center gap-2 text-sm">
+                    <Checkbox checked={autoScroll} onCheckedChange={(checked) => setAutoScroll(checked === true)} />
+                    Auto-scroll
+                </label>
+                <div className="flex-1 text-right text-xs text-muted-foreground">
+                    {visibleLogs.length} of {logs.length} lines
+                </div>
+                <Button variant="outline" onClick={handleDownload} disabled={visibleLogs.length === 0}>
+                    Download Log
+                </Button>
+            </div>
+            <div
+                ref={scrollerRef}
+                onScroll={handleScroll}
+                className="h-80 overflow-y-auto rounded-md border bg-muted/30 p-3 font-mono text-xs"
+            >
+                {visibleLogs.length === 0 ? (
+                    <div className="text-muted-foreground">No log lines yet.</div>
+                ) : (
+                    visibleLogs.map((event) => (
+                        <div
+                            key={event.id}
+                            className={cn('whitespace-pre-wrap break-all', levelClassNames[event.level])}
+                        >
+                            <span className="text-muted-foreground">{new Date(event.time).toLocaleTimeString()}</span>{' '}
+                            {event.worker && <span className="text-muted-foreground">[worker {event.worker}] </span>}
+                            {event.message}
+                        </div>
+                    ))
+                )}
+            </div>
+        </div>
+    );
+}
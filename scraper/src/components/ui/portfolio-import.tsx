@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { Button } from './button';
+import { Input } from './input';
+
+export type ImportPolicy = 'newest' | 'highest-pnl' | 'history';
+
+// Response of POST /portfolios/import, invalid lists the records that were left out
+export interface ImportResult {
+    dryRun: boolean;
+    format: string;
+    policy: ImportPolicy;
+    // The instance the portfolios without a source of their own are recorded from
+    source: string | null;
+    added: number;
+    updated: number;
+    skipped: number;
+    archived: number;
+    invalid: string[];
+}
+
+interface PortfolioImportProps {
+    disabled: boolean;
+    onImport: (file: File, policy: ImportPolicy, source: string, dryRun: boolean) => Promise<ImportResult | null>;
+}
+
+const selectClassName =
+    'border-input h-9 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]';
+
+const IMPORT_POLICIES: { policy: ImportPolicy; label: string }[] = [
+    { policy: 'newest', label: 'Keep newest' },
+    { policy: 'highest-pnl', label: 'Keep highest PnL' },
+    { policy: 'history', label: 'Keep both as history' },
+];
+
+// How many of the records that could not be read are listed
+const SHOWN_INVALID = 5;
+
+function describeResult(result: ImportResult) {
+    const counts = `${result.added} added, ${result.updated} updated, ${result.skipped} skipped`;
+    const archived = result.policy === 'history' ? `, ${result.archived} kept in history` : '';
+    const source = result.source ? ` from ${result.source}` : '';
+    return `${result.dryRun ? 'Would be ' : ''}${counts}${archived}${source}`;
+}
+
+// Merge an export of another instance into the portfolios. The file is checked with a dry run first and only
+// imported once the counts have been seen
+export function PortfolioImport({ disabled, onImport }: PortfolioImportProps) {
+    const [file, setFile] = useState<File | null>(null);
+    const [policy, setPolicy] = useState<ImportPolicy>('newest');
+    const [source, setSource] = useState('');
+    const [result, setResult] = useState<ImportResult | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+    // Bumped after an import, so the file input starts empty again
+    const [inputKey, setInputKey] = useState(0);
+
+    const run = async (dryRun: boolean) => {
+        if (!file) return;
+        setIsBusy(true);
+        const response = await onImport(file, policy, source.trim(), dryRun);
+        setIsBusy(false);
+        setResult(response);
+        if (response && !dryRun) {
+            setFile(null);
+            setInputKey((key) => key + 1);
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+                <Input
+                    key={inputKey}
+                    type="file"
+                    accept=".csv,.json,.ndjson"
+                    className="w-64"
+                    disabled={disabled}
+                    onChange={(e) => {
+                        setFile(e.target.files?.[0] ?? null);
+                        setResult(null);
+                    }}
+                />
+                <select
+                    className={selectClassName}
+                    value={policy}
+                    title="Which values to keep for a portfolio that is already here"
+                    disabled={disabled}
+                    onChange={(e) => {
+                        setPolicy(e.target.value as ImportPolicy);
+                        setResult(null);
+                    }}
+                >
+                    {IMPORT_POLICIES.map(({ policy, label }) => (
+                        <option key={policy} value={policy}>
+                            {label}
+                        </option>
+                    ))}
+                </select>
+                <Input
+                    className="w-48"
+                    placeholder="Source (from the file)"
+                    title="Overrides the instance the file was exported by, for portfolios that do not name one of their own"
+                    value={source}
+                    disabled={disabled}
+                    onChange={(e) => setSource(e.target.value)}
+                />
+                <Button variant="outline" disabled={disabled || !file || isBusy} onClick={() => run(true)}>
+                    Preview Import
+                </Button>
+                <Button disabled={disabled || !result?.dryRun || isBusy} onClick={() => run(false)}>
+                    Import
+                </Button>
+            </div>
+            {result && (
+                <div className="text-sm text-muted-foreground">
+                    <div>{describeResult(result)}</div>
+                    {result.invalid.length > 0 && (
+                        <div className="text-red-500">
+                            {result.invalid.length} records could not be read:{' '}
+                            {result.invalid.slice(0, SHOWN_INVALID).join('; ')}
+                            {result.invalid.length > SHOWN_INVALID && '; ...'}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
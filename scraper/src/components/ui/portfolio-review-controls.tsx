@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { Input } from './input';
+
+export type ReviewStatus = 'new' | 'reviewed' | 'following' | 'discarded';
+
+export interface PortfolioReview {
+    status: ReviewStatus;
+    tags: string[];
+    notes: string;
+    updatedBy: string | null;
+    updatedAt: string | null;
+}
+
+export type ReviewChanges = Partial<Pick<PortfolioReview, 'status' | 'tags' | 'notes'>>;
+
+interface PortfolioReviewControlsProps {
+    review: PortfolioReview;
+    disabled: boolean;
+    onChange: (changes: ReviewChanges) => void;
+}
+
+const REVIEW_STATUSES: ReviewStatus[] = ['new', 'reviewed', 'following', 'discarded'];
+
+const selectClassName =
+    'border-input h-8 rounded-md border bg-transparent px-2 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]';
+
+// Status, tags and notes of one portfolio. Tags are added with Enter, notes are saved when the field loses focus
+// and Escape puts back the saved ones
+export function PortfolioReviewControls({ review, disabled, onChange }: PortfolioReviewControlsProps) {
+    const [tagInput, setTagInput] = useState('');
+    const [notes, setNotes] = useState(review.notes);
+
+    const addTag = () => {
+        const tag = tagInput.trim();
+        setTagInput('');
+        if (!tag || review.tags.some((existing) => existing.toLowerCase() === tag.toLowerCase())) return;
+        onChange({ tags: [...review.tags, tag] });
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+                <select
+                    className={selectClassName}
+                    value={review.status}
+                    disabled={disabled}
+                    onChange={(e) => onChange({ status: e.target.value as ReviewStatus })}
+                >
+                    {REVIEW_STATUSES.map((status) => (
+                        <option key={status} value={status}>
+                            {status}
+                        </option>
+                    ))}
+                </select>
+                {review.tags.map((tag) => (
+                    <span key={tag} className="inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs">
+                        {tag}
+                        {!disabled && (
+                            <button
+                                type="button"
+                                className="text-muted-foreground hover:text-foreground"
+                                onClick={() => onChange({ tags: review.tags.filter((existing) => existing !== tag) })}
+                            >
+                                ×
+                            </button>
+                        )}
+                    </span>
+                ))}
+                {!disabled && (
+                    <Input
+                        className="h-8 w-28 text-xs"
+                        placeholder="Add tag"
+                        value={tagInput}
+                        onChange={(e) => setTagInput(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') addTag();
+                        }}
+                    />
+                )}
+            </div>
+            <Input
+                className="h-8 text-xs"
+                placeholder="Notes"
+                value={notes}
+                disabled={disabled}
+                onChange={(e) => setNotes(e.target.value)}
+                onBlur={() => {
+                    if (notes.trim() !== review.notes) onChange({ notes });
+                }}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                    if (e.key === 'Escape') setNotes(review.notes);
+                }}
+            />
+            {review.updatedBy && review.updatedAt && (
+                <div className="text-xs text-muted-foreground">
+                    Changed by {review.updatedBy} {new Date(review.updatedAt).toLocaleString()}
+                </div>
+            )}
+        </div>
+    );
+}
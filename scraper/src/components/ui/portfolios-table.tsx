@@ -1,84 +1,88 @@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './table';
-import { useEffect, useState } from 'react';
 import { cn } from '@/lib/utils';
 import { Button } from './button';
+import { Input } from './input';
+import { PortfolioReviewControls, type PortfolioReview, type ReviewChanges } from './portfolio-review-controls';
 
-interface Portfolio {
+export interface Portfolio {
+    id: string;
     roi: string;
     pnl: string;
     link: string;
     createdAt?: string; // ISO timestamp string
+    review: PortfolioReview;
+    // Set for portfolios imported from another instance, source is null when the import did not name it
+    source?: string | null;
+    importedAt?: string;
 }
 
-interface PortfoliosTableProps {
-    portfolios: Record<string, Portfolio>;
+// One page of GET /portfolios, total counts every portfolio matching the query
+export interface PortfolioPage {
+    items: Portfolio[];
+    total: number;
+    page: number;
+    pageSize: number;
 }
 
-const LOCAL_STORAGE_KEY = 'checkedPortfolios';
+// The filters as typed, empty strings are not applied. The dates are local days
+export interface PortfolioQuery {
+    page: number;
+    pageSize: number;
+    sort: 'roi' | 'pnl' | 'createdAt';
+    order: 'asc' | 'desc';
+    search: string;
+    status: '' | PortfolioReview['status'];
+    tag: string;
+    minRoi: string;
+    maxRoi: string;
+    minPnl: string;
+    maxPnl: string;
+    createdFrom: string;
+    createdTo: string;
+}
 
-export function PortfoliosTable({ portfolios }: PortfoliosTableProps) {
-    // State to track checked portfolios
-    const [checkedPortfolios, setCheckedPortfolios] = useState<Record<string, boolean>>({});
-    const [isInitialized, setIsInitialized] = useState(false);
+interface PortfoliosTableProps {
+    portfolios: PortfolioPage;
+    query: PortfolioQuery;
+    onQueryChange: (query: PortfolioQuery) => void;
+    canReview: boolean;
+    onReview: (id: string, changes: ReviewChanges) => void;
+    onExport: (format: string) => void;
+}
 
-    // Load checked state from localStorage on mount - only once
-    useEffect(() => {
-        try {
-            const savedChecked = localStorage.getItem(LOCAL_STORAGE_KEY);
-            if (savedChecked) {
-                const parsedData = JSON.parse(savedChecked);
-                if (typeof parsedData === 'object' && parsedData !== null) {
-                    setCheckedPortfolios(parsedData);
-                    console.log('Loaded checked portfolios from localStorage:', parsedData);
-                }
-            }
-        } catch (error) {
-            console.error('Error loading checked portfolios from localStorage:', error);
-            localStorage.removeItem(LOCAL_STORAGE_KEY);
-        } finally {
-            setIsInitialized(true);
-        }
-    }, []);
+const PAGE_SIZES = [25, 50, 100, 250];
 
-    // Save to localStorage whenever checked state changes, but only after initial load
-    useEffect(() => {
-        if (!isInitialized) return;
+const selectClassName =
+    'border-input h-9 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]';
 
-        try {
-            localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(checkedPortfolios));
-            console.log('Saved checked portfolios to localStorage:', checkedPortfolios);
-        } catch (error) {
-            console.error('Error saving checked portfolios to localStorage:', error);
-        }
-    }, [checkedPortfolios, isInitialized]);
-
-    const handleCheck = (id: string, checked: boolean) => {
-        setCheckedPortfolios((prev) => {
-            const updated = {
-                ...prev,
-                [id]: checked,
-            };
-            return updated;
-        });
-    };
+const REVIEW_STATUSES: PortfolioReview['status'][] = ['new', 'reviewed', 'following', 'discarded'];
 
-    // Handler for when a user clicks on a View link
-    const handleViewClick = (id: string) => {
-        // Mark the portfolio as checked
-        setCheckedPortfolios((prev) => {
-            const updated = {
-                ...prev,
-                [id]: true,
-            };
-            return updated;
-        });
-    };
+const statusRowClassNames: Record<PortfolioReview['status'], string> = {
+    new: '',
+    reviewed: 'bg-slate-200 hover:bg-slate-300 dark:bg-slate-800 dark:hover:bg-slate-700',
+    following: 'bg-green-100 hover:bg-green-200 dark:bg-green-950 dark:hover:bg-green-900',
+    discarded: 'opacity-50',
+};
 
-    const handleClearAllReadStatus = () => {
-        if (window.confirm('Are you sure you want to clear all read status?')) {
-            setCheckedPortfolios({});
-            localStorage.removeItem(LOCAL_STORAGE_KEY);
-        }
+// Formats of GET /portfolios/export
+const EXPORT_FORMATS = [
+    { format: 'csv', label: 'CSV' },
+    { format: 'json', label: 'JSON' },
+    { format: 'ndjson', label: 'NDJSON' },
+    { format: 'addresses', label: 'Address list' },
+];
+
+export function PortfoliosTable({
+    portfolios,
+    query,
+    onQueryChange,
+    canReview,
+    onReview,
+    onExport,
+}: PortfoliosTableProps) {
+    // Opening a new portfolio on BullX or GMGN marks it as reviewed
+    const handleViewClick = (id: string, review: PortfolioReview) => {
+        if (canReview && review.status === 'new') onReview(id, { status: 'reviewed' });
     };
 
     // Format date for display using built-in JavaScript
@@ -127,48 +131,162 @@ export function PortfoliosTable({ portfolios }: PortfoliosTableProps) {
         }
     };
 
-    // Convert portfolios object to array and reverse it to show newest first
-    const portfolioEntries = Object.entries(portfolios).reverse();
+    // A changed filter starts again from the first page
+    const updateQuery = (changes: Partial<PortfolioQuery>) => onQueryChange({ ...query, page: 1, ...changes });
+
+    // Clicking the sorted column again flips the order, another column starts with the highest values
+    const sortHeader = (sort: PortfolioQuery['sort'], label: string) => (
+        <button
+            type="button"
+            className="font-medium hover:underline"
+            onClick={() => updateQuery({ sort, order: query.sort === sort && query.order === 'desc' ? 'asc' : 'desc' })}
+        >
+            {label}
+            {query.sort === sort ? (query.order === 'desc' ? ' ↓' : ' ↑') : ''}
+        </button>
+    );
+
+    const pageCount = Math.max(1, Math.ceil(portfolios.total / portfolios.pageSize));
+    const firstShown = portfolios.total === 0 ? 0 : (portfolios.page - 1) * portfolios.pageSize + 1;
+    const lastShown = Math.min(portfolios.total, portfolios.page * portfolios.pageSize);
 
     return (
         <div className="space-y-4">
-            <div className="flex justify-end">
-                <Button variant="outline" size="sm" onClick={handleClearAllReadStatus} className="text-xs">
-                    Clear All Read Status
+            <div className="flex flex-wrap items-center gap-2">
+                <Input
+                    className="w-48"
+                    placeholder="Search portfolio ID"
+                    value={query.search}
+                    onChange={(e) => updateQuery({ search: e.target.value })}
+                />
+                <select
+                    className={selectClassName}
+                    value={query.status}
+                    onChange={(e) => updateQuery({ status: e.target.value as PortfolioQuery['status'] })}
+                >
+                    <option value="">All statuses</option>
+                    {REVIEW_STATUSES.map((status) => (
+                        <option key={status} value={status}>
+                            {status}
+                        </option>
+                    ))}
+                </select>
+                <Input
+                    className="w-32"
+                    placeholder="Tag"
+                    value={query.tag}
+                    onChange={(e) => updateQuery({ tag: e.target.value })}
+                />
+                <Input
+                    type="number"
+                    className="w-28"
+                    placeholder="Min ROI %"
+                    value={query.minRoi}
+                    onChange={(e) => updateQuery({ minRoi: e.target.value })}
+                />
+                <Input
+                    type="number"
+                    className="w-28"
+                    placeholder="Max ROI %"
+                    value={query.maxRoi}
+                    onChange={(e) => updateQuery({ maxRoi: e.target.value })}
+                />
+                <Input
+                    type="number"
+                    className="w-28"
+                    placeholder="Min PNL $"
+                    value={query.minPnl}
+                    onChange={(e) => updateQuery({ minPnl: e.target.value })}
+                />
+                <Input
+                    type="number"
+                    className="w-28"
+                    placeholder="Max PNL $"
+                    value={query.maxPnl}
+                    onChange={(e) => updateQuery({ maxPnl: e.target.value })}
+                />
+                <Input
+                    type="date"
+                    className="w-40"
+                    title="Created from"
+                    value={query.createdFrom}
+                    onChange={(e) => updateQuery({ createdFrom: e.target.value })}
+                />
+                <Input
+                    type="date"
+                    className="w-40"
+                    title="Created until"
+                    value={query.createdTo}
+                    onChange={(e) => updateQuery({ createdTo: e.target.value })}
+                />
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                        updateQuery({
+                            search: '',
+                            status: '',
+                            tag: '',
+                            minRoi: '',
+                            maxRoi: '',
+                            minPnl: '',
+                            maxPnl: '',
+                            createdFrom: '',
+                            createdTo: '',
+                        })
+                    }
+                >
+                    Clear Filters
                 </Button>
+                <div className="flex-1" />
+                <select
+                    className={selectClassName}
+                    value=""
+                    title="Download every portfolio matching the filters"
+                    disabled={portfolios.total === 0}
+                    onChange={(e) => e.target.value && onExport(e.target.value)}
+                >
+                    <option value="">Export...</option>
+                    {EXPORT_FORMATS.map(({ format, label }) => (
+                        <option key={format} value={format}>
+                            {label}
+                        </option>
+                    ))}
+                </select>
             </div>
             <div className="rounded-md border">
                 <Table>
                     <TableHeader>
                         <TableRow>
-                            <TableHead className="w-[50px] text-center">Read</TableHead>
                             <TableHead className="w-[120px]">Portfolio ID</TableHead>
-                            <TableHead className="w-[80px]">ROI</TableHead>
-                            <TableHead className="w-[100px]">PNL</TableHead>
+                            <TableHead className="w-[80px]">{sortHeader('roi', 'ROI')}</TableHead>
+                            <TableHead className="w-[100px]">{sortHeader('pnl', 'PNL')}</TableHead>
                             <TableHead className="w-[80px]">BullX</TableHead>
                             <TableHead className="w-[80px]">GMGN</TableHead>
-                            <TableHead className="w-[220px]">Created</TableHead>
+                            <TableHead className="w-[220px]">{sortHeader('createdAt', 'Created')}</TableHead>
+                            <TableHead className="min-w-[280px]">Review</TableHead>
                         </TableRow>
                     </TableHeader>
                     <TableBody>
-                        {portfolioEntries.map(([id, portfolio]) => (
+                        {portfolios.items.map(({ id, ...portfolio }) => (
                             <TableRow
                                 key={id}
                                 className={cn(
                                     'transition-colors hover:bg-muted/40',
-                                    checkedPortfolios[id] &&
-                                        'bg-slate-200 hover:bg-slate-300 dark:bg-slate-800 dark:hover:bg-slate-700',
+                                    statusRowClassNames[portfolio.review.status],
                                 )}
                             >
-                                <TableCell className="text-center">
-                                    <input
-                                        type="checkbox"
-                                        checked={checkedPortfolios[id] || false}
-                                        onChange={(e) => handleCheck(id, e.target.checked)}
-                                        className="h-4 w-4 cursor-pointer accent-black bg-white border border-gray-300 rounded"
-                                    />
+                                <TableCell className="font-medium">
+                                    {id}
+                                    {portfolio.importedAt && (
+                                        <div
+                                            className="text-xs font-normal text-muted-foreground"
+                                            title={`Imported ${formatDate(portfolio.importedAt)}`}
+                                        >
+                                            from {portfolio.source ?? 'another instance'}
+                                        </div>
+                                    )}
                                 </TableCell>
-                                <TableCell className="font-medium">{id}</TableCell>
                                 <TableCell
                                     className={parseFloat(portfolio.roi) > 1000 ? 'text-green-600 font-medium' : ''}
                                 >
@@ -185,7 +303,7 @@ export function PortfoliosTable({ portfolios }: PortfoliosTableProps) {
                                         target="_blank"
                                         rel="noopener noreferrer"
                                         className="text-blue-600 hover:text-blue-800 underline"
-                                        onClick={() => handleViewClick(id)}
+                                        onClick={() => handleViewClick(id, portfolio.review)}
                                     >
                                         View
                                     </a>
@@ -196,7 +314,7 @@ export function PortfoliosTable({ portfolios }: PortfoliosTableProps) {
                                         target="_blank"
                                         rel="noopener noreferrer"
                                         className="text-blue-600 hover:text-blue-800 underline"
-                                        onClick={() => handleViewClick(id)}
+                                        onClick={() => handleViewClick(id, portfolio.review)}
                                     >
                                         View
                                     </a>
@@ -204,11 +322,55 @@ export function PortfoliosTable({ portfolios }: PortfoliosTableProps) {
                                 <TableCell className="text-sm text-gray-300">
                                     {formatDate(portfolio.createdAt)}
                                 </TableCell>
+                                <TableCell>
+                                    <PortfolioReviewControls
+                                        // Remounted when the review changes, so notes saved elsewhere show up
+                                        key={portfolio.review.updatedAt ?? 'new'}
+                                        review={portfolio.review}
+                                        disabled={!canReview}
+                                        onChange={(changes) => onReview(id, changes)}
+                                    />
+                                </TableCell>
                             </TableRow>
                         ))}
                     </TableBody>
                 </Table>
             </div>
+            <div className="flex items-center justify-end gap-4 text-sm text-muted-foreground">
+                <span>
+                    {firstShown}-{lastShown} of {portfolios.total}
+                </span>
+                <select
+                    className={selectClassName}
+                    value={query.pageSize}
+                    onChange={(e) => updateQuery({ pageSize: Number(e.target.value) })}
+                >
+                    {PAGE_SIZES.map((size) => (
+                        <option key={size} value={size}>
+                            {size} per page
+                        </option>
+                    ))}
+                </select>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={query.page <= 1}
+                    onClick={() => onQueryChange({ ...query, page: query.page - 1 })}
+                >
+                    Previous
+                </Button>
+                <span>
+                    Page {portfolios.page} of {pageCount}
+                </span>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={query.page >= pageCount}
+                    onClick={() => onQueryChange({ ...query, page: query.page + 1 })}
+                >
+                    Next
+                </Button>
+            </div>
         </div>
     );
 }
@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { Button } from './button';
+import { Input } from './input';
+
+export interface Profile {
+    id: number;
+    name: string;
+    active: boolean;
+    createdAt: string;
+    updatedAt: string;
+}
+
+interface ProfileBarProps {
+    profiles: Profile[];
+    busy: boolean;
+    onActivate: (id: number) => void;
+    onCreate: (name: string) => void;
+    onRename: (id: number, name: string) => void;
+    onDuplicate: (id: number) => void;
+    onDelete: (id: number) => void;
+}
+
+const selectClassName =
+    'border-input h-9 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]';
+
+// Switch between saved config profiles and manage them. New and renamed profiles take the name typed in the box
+export function ProfileBar({ profiles, busy, onActivate, onCreate, onRename, onDuplicate, onDelete }: ProfileBarProps) {
+    const [name, setName] = useState('');
+    const active = profiles.find((profile) => profile.active);
+    const trimmed = name.trim();
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 rounded-md border p-3">
+            <label className="text-sm font-medium">Profile</label>
+            <select
+                className={selectClassName}
+                value={active?.id ?? ''}
+                disabled={busy}
+                onChange={(e) => onActivate(Number(e.target.value))}
+            >
+                {!active && <option value="">No active profile</option>}
+                {profiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                        {profile.name}
+                    </option>
+                ))}
+            </select>
+            <Input className="w-48" placeholder="Profile name" value={name} onChange={(e) => setName(e.target.value)} />
+            <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={busy || !trimmed}
+                onClick={() => {
+                    onCreate(trimmed);
+                    setName('');
+                }}
+            >
+                Save as New
+            </Button>
+            <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={busy || !trimmed || !active}
+                onClick={() => {
+                    if (active) onRename(active.id, trimmed);
+                    setName('');
+                }}
+            >
+                Rename
+            </Button>
+            <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={busy || !active}
+                onClick={() => active && onDuplicate(active.id)}
+            >
+                Duplicate
+            </Button>
+            <div className="flex-1" />
+            <select
+                className={selectClassName}
+                value=""
+                disabled={busy || profiles.length < 2}
+                onChange={(e) => e.target.value && onDelete(Number(e.target.value))}
+            >
+                <option value="">Delete a profile...</option>
+                {profiles
+                    .filter((profile) => !profile.active)
+                    .map((profile) => (
+                        <option key={profile.id} value={profile.id}>
+                            {profile.name}
+                        </option>
+                    ))}
+            </select>
+        </div>
+    );
+}
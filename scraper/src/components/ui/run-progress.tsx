@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { cn } from '@/lib/utils';
+
+export interface RunProgressToken {
+    key: string;
+    name: string;
+    address?: string | null;
+}
+
+export interface WorkerProgress {
+    id: number;
+    token: RunProgressToken | null;
+    row: number;
+    firstRow: number;
+    lastRow: number;
+}
+
+export interface RunProgress {
+    runId: number;
+    status: 'running' | 'finished' | 'failed' | 'interrupted';
+    startedAt: string;
+    finishedAt: string | null;
+    maxTokens: number;
+    tokensSelected: number;
+    tokensFinished: number;
+    rowsDone: number;
+    totalRows: number;
+    accepted: number;
+    rejected: number;
+    workers: Record<string, WorkerProgress>;
+    lastWallet: { address: string | null; token: RunProgressToken | null; accepted: boolean; reason?: string } | null;
+    updatedAt: string;
+}
+
+interface RunProgressPanelProps {
+    progress: RunProgress;
+}
+
+const statusLabels: Record<RunProgress['status'], string> = {
+    running: 'Running',
+    finished: 'Finished',
+    failed: 'Failed',
+    interrupted: 'Stopped',
+};
+
+// Seconds as "1h 02m", "3m 05s" or "12s"
+function formatDuration(seconds: number): string {
+    const total = Math.max(0, Math.round(seconds));
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const rest = total % 60;
+    if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+    if (minutes > 0) return `${minutes}m ${String(rest).padStart(2, '0')}s`;
+    return `${rest}s`;
+}
+
+export function RunProgressPanel({ progress }: RunProgressPanelProps) {
+    const running = progress.status === 'running';
+    const [now, setNow] = useState(() => Date.now());
+
+    // Tick while the run goes on so elapsed time and ETA stay current between events
+    useEffect(() => {
+        if (!running) return;
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, [running]);
+
+    const startedAt = new Date(progress.startedAt).getTime();
+    const endedAt = progress.finishedAt ? new Date(progress.finishedAt).getTime() : now;
+    const elapsedSeconds = (endedAt - startedAt) / 1000;
+    const totalRows = Math.max(progress.totalRows, progress.rowsDone);
+    const percent = totalRows > 0 ? Math.min(100, (progress.rowsDone / totalRows) * 100) : running ? 0 : 100;
+    // Rows left at the pace of the rows done so far
+    const etaSeconds =
+        running && progress.rowsDone > 0
+            ? (elapsedSeconds / progress.rowsDone) * (totalRows - progress.rowsDone)
+            : null;
+    const workers = Object.values(progress.workers);
+
+    return (
+        <div className="space-y-2 rounded-md border p-3">
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                <div className="font-medium">
+                    Run {progress.runId} · {statusLabels[progress.status]}
+                </div>
+                <div className="text-muted-foreground">
+                    Elapsed {formatDuration(elapsedSeconds)}
+                    {running && ` · ETA ${etaSeconds === null ? '...' : formatDuration(etaSeconds)}`}
+                </div>
+            </div>
+            <div className="h-2 overflow-hidden rounded-full bg-muted">
+                <div
+                    className={cn('h-full transition-all', progress.status === 'failed' ? 'bg-red-500' : 'bg-primary')}
+                    style={{ width: `${percent}%` }}
+                />
+            </div>
+            <div className="flex flex-wrap justify-between gap-2 text-xs text-muted-foreground">
+                <span>
+                    {progress.rowsDone} of {totalRows} trader rows · token {progress.tokensSelected} of{' '}
+                    {progress.maxTokens}
+                </span>
+                <span>
+                    {progress.accepted} accepted · {progress.rejected} rejected
+                </span>
+            </div>
+            {running &&
+                workers.map((worker) => (
+                    <div key={worker.id} className="text-sm">
+                        {workers.length > 1 && <span className="text-muted-foreground">Worker {worker.id}: </span>}
+                        {worker.token ? (
+                            <>
+                                <span className="font-medium">{worker.token.name}</span>
+                                <span className="text-muted-foreground">
+                                    {' '}
+                                    · row {Math.max(worker.row, worker.firstRow)} of {worker.lastRow}
+                                </span>
+                            </>
+                        ) : (
+                            <span className="text-muted-foreground">Picking the next token...</span>
+                        )}
+                    </div>
+                ))}
+            {progress.lastWallet && (
+                <div className="truncate text-xs text-muted-foreground">
+                    Last wallet {progress.lastWallet.address || '(no address)'}{' '}
+                    {progress.lastWallet.accepted ? 'accepted' : `rejected - ${progress.lastWallet.reason}`}
+                </div>
+            )}
+        </div>
+    );
+}
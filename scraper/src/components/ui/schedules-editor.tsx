@@ -0,0 +1,194 @@
+import { Button } from './button';
+import { Checkbox } from './checkbox';
+import { Input } from './input';
+import type { ConfigField } from './config-fields';
+import { cn } from '@/lib/utils';
+
+export interface Schedule {
+    id?: string;
+    name: string;
+    enabled: boolean;
+    kind: 'cron' | 'interval';
+    cron: string;
+    intervalMinutes: number | string;
+    overrides: Record<string, string>;
+    nextRunAt?: string | null;
+    lastRunAt?: string | null;
+    lastOutcome?: 'started' | 'skipped' | 'failed' | null;
+    error?: string | null;
+}
+
+interface SchedulesEditorProps {
+    schedules: Schedule[];
+    // The settings an override can set, from /config-schema
+    settings: ConfigField[];
+    onChange: (schedules: Schedule[]) => void;
+}
+
+const selectClassName =
+    'border-input h-9 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]';
+
+const outcomeLabels = {
+    started: 'started',
+    skipped: 'skipped, the previous run was still active',
+    failed: 'failed to start',
+};
+
+// When the schedule runs next and how its last run went
+function describeSchedule(schedule: Schedule): string {
+    if (schedule.error) return schedule.error;
+    const parts = [
+        schedule.nextRunAt
+            ? `Next run ${new Date(schedule.nextRunAt).toLocaleString()}`
+            : schedule.id
+              ? 'Not scheduled'
+              : 'Save to schedule',
+    ];
+    if (schedule.lastRunAt && schedule.lastOutcome) {
+        parts.push(`last run ${new Date(schedule.lastRunAt).toLocaleString()} ${outcomeLabels[schedule.lastOutcome]}`);
+    }
+    return parts.join(', ');
+}
+
+export function SchedulesEditor({ schedules, settings, onChange }: SchedulesEditorProps) {
+    const updateSchedule = (index: number, changes: Partial<Schedule>) => {
+        onChange(schedules.map((schedule, i) => (i === index ? { ...schedule, ...changes } : schedule)));
+    };
+
+    // Overrides are edited as key/value rows, renaming a key keeps its place
+    const updateOverride = (index: number, position: number, key: string, value: string) => {
+        const entries = Object.entries(schedules[index].overrides);
+        entries[position] = [key, value];
+        updateSchedule(index, { overrides: Object.fromEntries(entries) });
+    };
+
+    const removeOverride = (index: number, position: number) => {
+        const entries = Object.entries(schedules[index].overrides).filter((_, i) => i !== position);
+        updateSchedule(index, { overrides: Object.fromEntries(entries) });
+    };
+
+    const addSchedule = () => {
+        onChange([
+            ...schedules,
+            {
+                name: 'Nightly deep scan',
+                enabled: true,
+                kind: 'cron',
+                cron: '0 2 * * *',
+                intervalMinutes: 60,
+                overrides: {},
+            },
+        ]);
+    };
+
+    return (
+        <div className="space-y-2">
+            {schedules.length === 0 && <div className="text-sm text-muted-foreground">No scheduled runs.</div>}
+            {schedules.map((schedule, index) => (
+                <div key={schedule.id ?? `new-${index}`} className="space-y-3 rounded-md border p-3">
+                    <div className="flex flex-wrap items-center gap-4">
+                        <Checkbox
+                            checked={schedule.enabled}
+                            onCheckedChange={(checked) => updateSchedule(index, { enabled: checked === true })}
+                        />
+                        <Input
+                            className="w-56"
+                            placeholder="Name"
+                            value={schedule.name}
+                            onChange={(e) => updateSchedule(index, { name: e.target.value })}
+                        />
+                        <select
+                            className={selectClassName}
+                            value={schedule.kind}
+                            onChange={(e) =>
+                                updateSchedule(index, { kind: e.target.value === 'interval' ? 'interval' : 'cron' })
+                            }
+                        >
+                            <option value="cron">Cron expression</option>
+                            <option value="interval">Every N minutes</option>
+                        </select>
+                        {schedule.kind === 'cron' ? (
+                            <Input
+                                className="w-40 font-mono"
+                                placeholder="0 2 * * *"
+                                value={schedule.cron}
+                                onChange={(e) => updateSchedule(index, { cron: e.target.value })}
+                            />
+                        ) : (
+                            <Input
+                                type="number"
+                                className="w-28"
+                                placeholder="minutes"
+                                value={schedule.intervalMinutes}
+                                onChange={(e) => updateSchedule(index, { intervalMinutes: e.target.value })}
+                            />
+                        )}
+                        <div className="flex-1" />
+                        <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => onChange(schedules.filter((_, i) => i !== index))}
+                        >
+                            Remove
+                        </Button>
+                    </div>
+                    {Object.entries(schedule.overrides).map(([key, value], position) => (
+                        <div key={position} className="flex items-center gap-2 pl-8">
+                            <select
+                                className={cn(selectClassName, 'w-64 font-mono')}
+                                value={key}
+                                onChange={(e) => updateOverride(index, position, e.target.value, value)}
+                            >
+                                <option value="" disabled>
+                                    Setting
+                                </option>
+                                {/* A key saved before overrides were limited to the settings still shows */}
+                                {key && !settings.some((setting) => setting.key === key) && (
+                                    <option value={key}>{key}</option>
+                                )}
+                                {settings.map((setting) => (
+                                    <option key={setting.key} value={setting.key} title={setting.description}>
+                                        {setting.key}
+                                    </option>
+                                ))}
+                            </select>
+                            <span className="text-muted-foreground">=</span>
+                            <Input
+                                className="w-40"
+                                placeholder="value"
+                                value={value}
+                                onChange={(e) => updateOverride(index, position, key, e.target.value)}
+                            />
+                            <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => removeOverride(index, position)}
+                            >
+                                ×
+                            </Button>
+                        </div>
+                    ))}
+                    <div className="flex items-center gap-4 pl-8">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            disabled={'' in schedule.overrides}
+                            onClick={() => updateSchedule(index, { overrides: { ...schedule.overrides, '': '' } })}
+                        >
+                            Add Override
+                        </Button>
+                        <div className={schedule.error ? 'text-xs text-red-500' : 'text-xs text-muted-foreground'}>
+                            {describeSchedule(schedule)}
+                        </div>
+                    </div>
+                </div>
+            ))}
+            <Button type="button" variant="outline" onClick={addSchedule}>
+                Add Schedule
+            </Button>
+        </div>
+    );
+}
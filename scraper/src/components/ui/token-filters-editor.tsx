@@ -0,0 +1,90 @@
+import { Input } from './input';
+
+export interface TokenColumn {
+    id: string;
+    label: string;
+    unit: 'USD' | 'hours' | 'count';
+}
+
+export interface TokenRange {
+    min: number | string | null;
+    max: number | string | null;
+}
+
+export type TokenFilters = Record<string, TokenRange>;
+
+export interface TokenSort {
+    column: string;
+    direction: 'asc' | 'desc';
+}
+
+interface TokenFiltersEditorProps {
+    columns: TokenColumn[];
+    filters: TokenFilters;
+    sort: TokenSort | null;
+    onChange: (filters: TokenFilters, sort: TokenSort | null) => void;
+}
+
+const selectClassName =
+    'border-input h-9 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]';
+
+export function TokenFiltersEditor({ columns, filters, sort, onChange }: TokenFiltersEditorProps) {
+    const handleBoundChange = (id: string, bound: keyof TokenRange) => (e: React.ChangeEvent<HTMLInputElement>) => {
+        const range = filters[id] ?? { min: null, max: null };
+        onChange({ ...filters, [id]: { ...range, [bound]: e.target.value === '' ? null : e.target.value } }, sort);
+    };
+
+    const handleSortColumnChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        onChange(filters, e.target.value ? { column: e.target.value, direction: sort?.direction ?? 'desc' } : null);
+    };
+
+    const handleSortDirectionChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        if (sort) onChange(filters, { ...sort, direction: e.target.value === 'asc' ? 'asc' : 'desc' });
+    };
+
+    return (
+        <div className="space-y-2">
+            {columns.map((column) => (
+                <div key={column.id} className="flex items-center gap-4 rounded-md border p-3">
+                    <div className="flex-1 text-sm font-medium">
+                        {column.label} <span className="text-xs text-muted-foreground">({column.unit})</span>
+                    </div>
+                    <Input
+                        type="number"
+                        className="w-32"
+                        placeholder="min"
+                        value={filters[column.id]?.min ?? ''}
+                        onChange={handleBoundChange(column.id, 'min')}
+                    />
+                    <Input
+                        type="number"
+                        className="w-32"
+                        placeholder="max"
+                        value={filters[column.id]?.max ?? ''}
+                        onChange={handleBoundChange(column.id, 'max')}
+                    />
+                </div>
+            ))}
+            <div className="flex items-center gap-4 rounded-md border p-3">
+                <div className="flex-1 text-sm font-medium">Pick tokens by</div>
+                <select className={selectClassName} value={sort?.column ?? ''} onChange={handleSortColumnChange}>
+                    <option value="">Explore table order</option>
+                    {columns.map((column) => (
+                        <option key={column.id} value={column.id}>
+                            {column.label}
+                        </option>
+                    ))}
+                </select>
+                <select
+                    className={selectClassName}
+                    value={sort?.direction ?? 'desc'}
+                    disabled={!sort}
+                    onChange={handleSortDirectionChange}
+                >
+                    <option value="desc">Highest first</option>
+                    <option value="asc">Lowest first</option>
+                </select>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,229 @@
+import { Button } from './button';
+import { Checkbox } from './checkbox';
+import { Input } from './input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './table';
+import { cn } from '@/lib/utils';
+
+// alert.matched is not subscribed to, alert rules pick the webhooks they post to
+export type WebhookEvent = 'portfolio.added' | 'portfolio.status_changed' | 'alert.matched';
+
+export interface Webhook {
+    id?: string;
+    name: string;
+    enabled: boolean;
+    url: string;
+    template: 'generic' | 'discord' | 'telegram';
+    events: WebhookEvent[];
+    chatId: string;
+}
+
+// One attempt of a delivery, retrying ones are followed by the next attempt
+export interface WebhookDelivery {
+    id: number;
+    webhookId: string;
+    webhookName: string;
+    event: WebhookEvent;
+    portfolioId: string;
+    test: boolean;
+    attempt: number;
+    status: 'delivered' | 'retrying' | 'failed';
+    responseStatus: number | null;
+    error: string | null;
+    attemptedAt: string;
+}
+
+interface WebhooksEditorProps {
+    webhooks: Webhook[];
+    deliveries: WebhookDelivery[];
+    disabled: boolean;
+    onChange: (webhooks: Webhook[]) => void;
+    onTest: (webhook: Webhook) => void;
+}
+
+const selectClassName =
+    'border-input h-9 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]';
+
+const TEMPLATES: { template: Webhook['template']; label: string; placeholder: string }[] = [
+    { template: 'generic', label: 'Generic JSON', placeholder: 'https://example.com/hooks/wltr' },
+    { template: 'discord', label: 'Discord', placeholder: 'https://discord.com/api/webhooks/...' },
+    { template: 'telegram', label: 'Telegram', placeholder: 'https://api.telegram.org/bot<token>/sendMessage' },
+];
+
+const EVENTS: { event: WebhookEvent; label: string }[] = [
+    { event: 'portfolio.added', label: 'New portfolio' },
+    { event: 'portfolio.status_changed', label: 'Status changed' },
+];
+
+const deliveryClassNames: Record<WebhookDelivery['status'], string> = {
+    delivered: 'text-green-600',
+    retrying: 'text-yellow-600',
+    failed: 'text-red-500',
+};
+
+export function WebhooksEditor({ webhooks, deliveries, disabled, onChange, onTest }: WebhooksEditorProps) {
+    const updateWebhook = (index: number, changes: Partial<Webhook>) => {
+        onChange(webhooks.map((webhook, i) => (i === index ? { ...webhook, ...changes } : webhook)));
+    };
+
+    const toggleEvent = (index: number, event: WebhookEvent, checked: boolean) => {
+        const events = webhooks[index].events.filter((existing) => existing !== event);
+        updateWebhook(index, { events: checked ? [...events, event] : events });
+    };
+
+    const addWebhook = () => {
+        onChange([
+            ...webhooks,
+            {
+                name: 'New wallets',
+                enabled: true,
+                url: '',
+                template: 'generic',
+                events: ['portfolio.added', 'portfolio.status_changed'],
+                chatId: '',
+            },
+        ]);
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="space-y-2">
+                {webhooks.length === 0 && <div className="text-sm text-muted-foreground">No webhooks.</div>}
+                {webhooks.map((webhook, index) => (
+                    <div key={webhook.id ?? `new-${index}`} className="space-y-3 rounded-md border p-3">
+                        <div className="flex flex-wrap items-center gap-4">
+                            <Checkbox
+                                checked={webhook.enabled}
+                                disabled={disabled}
+                                onCheckedChange={(checked) => updateWebhook(index, { enabled: checked === true })}
+                            />
+                            <Input
+                                className="w-48"
+                                placeholder="Name"
+                                value={webhook.name}
+                                disabled={disabled}
+                                onChange={(e) => updateWebhook(index, { name: e.target.value })}
+                            />
+                            <select
+                                className={selectClassName}
+                                value={webhook.template}
+                                disabled={disabled}
+                                onChange={(e) =>
+                                    updateWebhook(index, { template: e.target.value as Webhook['template'] })
+                                }
+                            >
+                                {TEMPLATES.map(({ template, label }) => (
+                                    <option key={template} value={template}>
+                                        {label}
+                                    </option>
+                                ))}
+                            </select>
+                            <div className="flex-1" />
+                            <Button
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                title={
+                                    webhook.id ? 'Send a made-up portfolio to this webhook' : 'Save the webhook first'
+                                }
+                                disabled={disabled || !webhook.id}
+                                onClick={() => onTest(webhook)}
+                            >
+                                Send Test Event
+                            </Button>
+                            <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                disabled={disabled}
+                                onClick={() => onChange(webhooks.filter((_, i) => i !== index))}
+                            >
+                                Remove
+                            </Button>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-4 pl-8">
+                            <Input
+                                className="min-w-[320px] flex-1 font-mono"
+                                placeholder={
+                                    TEMPLATES.find(({ template }) => template === webhook.template)?.placeholder
+                                }
+                                value={webhook.url}
+                                disabled={disabled}
+                                onChange={(e) => updateWebhook(index, { url: e.target.value })}
+                            />
+                            {webhook.template === 'telegram' && (
+                                <Input
+                                    className="w-40"
+                                    placeholder="Chat ID"
+                                    value={webhook.chatId}
+                                    disabled={disabled}
+                                    onChange={(e) => updateWebhook(index, { chatId: e.target.value })}
+                                />
+                            )}
+                            {EVENTS.map(({ event, label }) => (
+                                <label key={event} className="flex items-center gap-2 text-sm">
+                                    <Checkbox
+                                        checked={webhook.events.includes(event)}
+                                        disabled={disabled}
+                                        onCheckedChange={(checked) => toggleEvent(index, event, checked === true)}
+                                    />
+                                    {label}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                ))}
+                <Button type="button" variant="outline" disabled={disabled} onClick={addWebhook}>
+                    Add Webhook
+                </Button>
+            </div>
+            <div className="space-y-2">
+                <label className="text-sm font-medium">Delivery Log</label>
+                {deliveries.length === 0 ? (
+                    <div className="text-sm text-muted-foreground">Nothing sent yet.</div>
+                ) : (
+                    <div className="max-h-80 overflow-auto rounded-md border">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Time</TableHead>
+                                    <TableHead>Webhook</TableHead>
+                                    <TableHead>Event</TableHead>
+                                    <TableHead>Portfolio</TableHead>
+                                    <TableHead>Attempt</TableHead>
+                                    <TableHead>Result</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {deliveries.map((delivery) => (
+                                    <TableRow key={delivery.id}>
+                                        <TableCell className="text-xs">
+                                            {new Date(delivery.attemptedAt).toLocaleString()}
+                                        </TableCell>
+                                        <TableCell>{delivery.webhookName}</TableCell>
+                                        <TableCell className="text-xs">
+                                            {delivery.test ? 'test' : delivery.event}
+                                        </TableCell>
+                                        <TableCell className="max-w-[160px] truncate text-xs">
+                                            {delivery.portfolioId}
+                                        </TableCell>
+                                        <TableCell>{delivery.attempt}</TableCell>
+                                        <TableCell
+                                            className={cn('text-xs', deliveryClassNames[delivery.status])}
+                                            title={delivery.error ?? undefined}
+                                        >
+                                            {delivery.status}
+                                            {delivery.responseStatus !== null && ` (${delivery.responseStatus})`}
+                                            {delivery.error &&
+                                                delivery.responseStatus === null &&
+                                                `: ${delivery.error}`}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
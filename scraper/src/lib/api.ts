@@ -0,0 +1,33 @@
+// Calls to the control server with the access token the user signed in with, kept in localStorage
+export const API_URL = 'http://localhost:4444';
+
+const TOKEN_STORAGE_KEY = 'wltr-api-token';
+
+const unauthorizedListeners = new Set<() => void>();
+
+export function getToken(): string | null {
+    return localStorage.getItem(TOKEN_STORAGE_KEY);
+}
+
+export function setToken(token: string | null) {
+    if (token) localStorage.setItem(TOKEN_STORAGE_KEY, token);
+    else localStorage.removeItem(TOKEN_STORAGE_KEY);
+}
+
+// Called when the server no longer accepts the token, e.g. after it was removed from auth.json
+export function onUnauthorized(listener: () => void): () => void {
+    unauthorizedListeners.add(listener);
+    return () => {
+        unauthorizedListeners.delete(listener);
+    };
+}
+
+// fetch() against the server with the Authorization header, the path starts with a slash
+export async function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+    const headers = new Headers(init.headers);
+    const token = getToken();
+    if (token) headers.set('Authorization', `Bearer ${token}`);
+    const response = await fetch(`${API_URL}${path}`, { ...init, headers });
+    if (response.status === 401) unauthorizedListeners.forEach((listener) => listener());
+    return response;
+}
@@ -0,0 +1,23 @@
+import { createContext, useContext } from 'react';
+
+export type Role = 'viewer' | 'operator';
+
+export type Session = {
+    name: string;
+    role: Role;
+};
+
+type SessionState = {
+    session: Session;
+    signOut: () => void;
+};
+
+export const SessionContext = createContext<SessionState | undefined>(undefined);
+
+export const useSession = () => {
+    const context = useContext(SessionContext);
+
+    if (context === undefined) throw new Error('useSession must be used within an AuthGate');
+
+    return context;
+};
@@ -3,11 +3,14 @@ import { createRoot } from 'react-dom/client';
 import './index.css';
 import App from './App.tsx';
 import { ThemeProvider } from './components/ui/theme-provider.tsx';
+import { AuthGate } from './components/ui/auth-gate.tsx';
 
 createRoot(document.getElementById('root')!).render(
     <StrictMode>
         <ThemeProvider defaultTheme="dark" storageKey="vite-ui-theme">
-            <App />
+            <AuthGate>
+                <App />
+            </AuthGate>
         </ThemeProvider>
     </StrictMode>,
 );
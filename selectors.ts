@@ -0,0 +1,184 @@
+// Registry of the BullX page selectors the scrapers use. They live in selectors.json (or SELECTORS_FILE)
+// so a BullX UI change only needs a data update. Each entry names the page state it appears in, which
+// the doctor command uses to check them against the live site. The file also holds the header labels
+// of the explore table columns the token filters read.
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { TOKEN_COLUMNS, type TokenStats } from './token-filters.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Newest selectors file format this code understands
+export const SELECTORS_FORMAT_VERSION = 1;
+
+export const DEFAULT_SELECTORS_FILE = process.env.SELECTORS_FILE || path.join(__dirname, 'selectors.json');
+
+export const SELECTOR_NAMES = [
+    'exploreTable',
+    'exploreHeaderCell',
+    'tokenRow',
+    'tokenCell',
+    'tokenName',
+    'tokenLink',
+    'topTradersTab',
+    'traderRow',
+    'traderRowByNumber',
+    'traderRowNumber',
+    'tradersScroller',
+    'scrollContainers',
+    'solscanLink',
+    'walletButton',
+    'modalClose',
+    'totalRevenueValue',
+    'realizedPnlValue',
+    'totalSpentValue',
+    'sevenDayButton',
+    'periodPnlLabel',
+    'periodPnlValue',
+    'portfolioLink',
+    'tradeRow',
+    'tradeAge',
+    'mostProfitableTab',
+    'mostProfitableRow',
+    'mostProfitableValue',
+] as const;
+
+export type SelectorName = (typeof SELECTOR_NAMES)[number];
+
+// Page states in the order the scraper reaches them
+export const SELECTOR_PAGES = ['explore', 'token', 'traders', 'modal', 'most-profitable'] as const;
+
+export type SelectorPage = (typeof SELECTOR_PAGES)[number];
+
+export interface SelectorEntry {
+    page: SelectorPage;
+    // Several selectors are tried in order until one matches
+    selector: string | string[];
+    // Entry the selector is relative to, e.g. a cell inside a row
+    within?: SelectorName;
+    description?: string;
+}
+
+export interface SelectorRegistry {
+    version: number;
+    site?: string;
+    file: string;
+    entries: Record<SelectorName, SelectorEntry>;
+    // First selector of every entry
+    selectors: Record<SelectorName, string>;
+    // Every selector of every entry, in the order they should be tried
+    alternatives: Record<SelectorName, string[]>;
+    // Case-insensitive patterns matching the explore table header of each token column
+    columns: Record<keyof TokenStats, RegExp>;
+}
+
+export class SelectorsError extends Error {
+    constructor(
+        message: string,
+        readonly file: string,
+    ) {
+        super(`${message} (${file})`);
+        this.name = 'SelectorsError';
+    }
+}
+
+// Check the parsed file and list every problem, so a broken edit is reported in one go
+function validate(data: unknown): string[] {
+    if (!data || typeof data !== 'object') return ['File is not a JSON object'];
+    const { version, selectors, columns } = data as {
+        version?: unknown;
+        selectors?: Record<string, SelectorEntry>;
+        columns?: Record<string, unknown>;
+    };
+    const problems: string[] = [];
+
+    if (typeof version !== 'number' || !Number.isInteger(version)) {
+        problems.push('"version" must be an integer');
+    } else if (version > SELECTORS_FORMAT_VERSION) {
+        problems.push(`version ${version} is newer than supported version ${SELECTORS_FORMAT_VERSION}`);
+    }
+    if (!selectors || typeof selectors !== 'object') return [...problems, '"selectors" must be an object'];
+
+    for (const name of SELECTOR_NAMES) {
+        const entry = selectors[name];
+        if (!entry) {
+            problems.push(`"${name}" is missing`);
+            continue;
+        }
+        const list = Array.isArray(entry.selector) ? entry.selector : [entry.selector];
+        if (list.length === 0 || list.some((selector) => typeof selector !== 'string' || !selector.trim())) {
+            problems.push(`"${name}" needs a non-empty selector`);
+        }
+        if (!(SELECTOR_PAGES as readonly string[]).includes(entry.page)) {
+            problems.push(`"${name}" has unknown page "${entry.page}"`);
+        }
+        if (entry.within && !(SELECTOR_NAMES as readonly string[]).includes(entry.within)) {
+            problems.push(`"${name}" is within unknown selector "${entry.within}"`);
+        }
+    }
+
+    for (const { id } of TOKEN_COLUMNS) {
+        const pattern = columns?.[id];
+        if (typeof pattern !== 'string' || !pattern) {
+            problems.push(`column "${id}" needs a header pattern`);
+            continue;
+        }
+        try {
+            new RegExp(pattern, 'i');
+        } catch {
+            problems.push(`column "${id}" has an invalid header pattern`);
+        }
+    }
+    return problems;
+}
+
+// Load and validate the selectors file. Throws SelectorsError when it is missing or invalid
+export function loadSelectors(file: string = DEFAULT_SELECTORS_FILE): SelectorRegistry {
+    let data: {
+        version: number;
+        site?: string;
+        selectors: Record<SelectorName, SelectorEntry>;
+        columns: Record<keyof TokenStats, string>;
+    };
+    try {
+        data = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+        throw new SelectorsError(`Could not read selectors: ${error instanceof Error ? error.message : error}`, file);
+    }
+
+    const problems = validate(data);
+    if (problems.length > 0) {
+        throw new SelectorsError(`Invalid selectors file: ${problems.join('; ')}`, file);
+    }
+
+    const entries = {} as Record<SelectorName, SelectorEntry>;
+    const selectors = {} as Record<SelectorName, string>;
+    const alternatives = {} as Record<SelectorName, string[]>;
+    for (const name of SELECTOR_NAMES) {
+        const entry = data.selectors[name];
+        entries[name] = entry;
+        alternatives[name] = Array.isArray(entry.selector) ? entry.selector : [entry.selector];
+        selectors[name] = alternatives[name][0];
+    }
+
+    const columns = {} as Record<keyof TokenStats, RegExp>;
+    for (const { id } of TOKEN_COLUMNS) {
+        columns[id] = new RegExp(data.columns[id], 'i');
+    }
+
+    return { version: data.version, site: data.site, file, entries, selectors, alternatives, columns };
+}
+
+// Fill placeholders such as {row} in a selector
+export function fillSelector(selector: string, values: Record<string, string | number>): string {
+    return selector.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+        key in values ? String(values[key]) : placeholder,
+    );
+}
+
+// The bare XPath of an "xpath=" selector, for code that evaluates it inside the page
+export function toXPath(selector: string): string {
+    return selector.replace(/^xpath=/, '');
+}
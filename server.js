@@ -1,118 +1,467 @@
 import express from 'express';
 import cors from 'cors';
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { exec } from 'child_process';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
+import { FILTER_RULE_DEFINITIONS, resolveFilterRules } from './filters.js';
+import { nextScanAt } from './processed-tokens.js';
+import { resolveTokenFilters, resolveTokenSort, TOKEN_COLUMNS } from './token-filters.js';
+import { judgeWallet, portfolioEntry } from './wallets.js';
+import { openStore } from './store.js';
+import { createScraperProcess } from './scraper-process.js';
+import { createLogBuffer, formatLogEvents, LOG_LEVELS } from './scraper-logs.js';
+import { createRunProgress, parseProgressEvent } from './scraper-progress.js';
+import { createScheduler, resolveSchedules, scheduleEnv, validateSchedule } from './schedules.js';
+import { CONFIG_FIELDS, defaultConfig, validateConfig } from './config-schema.js';
+import { formatConfigUpdate } from './config-updates.js';
+import { createAuth, loadAuthConfig } from './auth.js';
+import { parsePortfolioQuery } from './portfolio-query.js';
+import { validateReviewUpdate } from './portfolio-review.js';
+import { EXPORT_FORMATS, formatPortfolios } from './portfolio-export.js';
+import { IMPORT_FORMATS, IMPORT_POLICIES, parsePortfolioImport } from './portfolio-import.js';
+import { createWebhookDispatcher, resolveWebhooks, validateWebhook } from './webhooks.js';
+import {
+    createAlertEngine,
+    describeAlertRule,
+    resolveAlertRules,
+    validateAlertConditions,
+    validateAlertRule,
+} from './alert-rules.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// File paths
+const ENV_FILE = path.join(__dirname, '.env');
+const AUTH_FILE = path.join(__dirname, 'auth.json');
+const WORKERS_FILE = path.join(__dirname, 'scraper_workers.json');
+
+// Access tokens and the dashboard origins allowed to call the server, see auth.js
+const { config: authConfig, created: authCreated } = loadAuthConfig(AUTH_FILE);
+const auth = createAuth(authConfig);
+if (authCreated) {
+    console.log(`Created ${AUTH_FILE} with these access tokens, sign in to the dashboard with one of them:`);
+    for (const { role, token } of authConfig.tokens) console.log(`  ${role}: ${token}`);
+}
+
 const app = express();
 const httpServer = createServer(app);
 const io = new Server(httpServer, {
     cors: {
-        origin: 'http://localhost:5173', // Vite's default port
+        origin: authConfig.corsOrigins,
         methods: ['GET', 'POST'],
     },
 });
+io.use(auth.socketMiddleware());
 
 const port = 4444;
 
+// Name of this instance, written into exports so an instance importing them can record where they came from
+const INSTANCE_NAME = process.env.INSTANCE_NAME?.trim() || os.hostname();
+
 // Middleware
-app.use(cors());
+// Content-Disposition names the file of an export download
+app.use(cors({ origin: authConfig.corsOrigins, exposedHeaders: ['Content-Disposition'] }));
+app.use(auth.middleware());
+// An import is the file itself, read as text whatever its content type before express.json could take it
+app.use('/portfolios/import', express.text({ type: () => true, limit: '50mb' }));
 app.use(express.json());
 
-// File paths
-const ENV_FILE = path.join(__dirname, '.env');
-const CONFIG_FILE = path.join(__dirname, 'config.json');
-const PORTFOLIOS_FILE = path.join(__dirname, 'portfolios.json');
-const PROCESSED_TOKENS_FILE = path.join(__dirname, 'processed_tokens.json');
-const STATS_FILE = path.join(__dirname, 'scraper_stats.json');
-
-// Create portfolios.json with empty object if it doesn't exist
-if (!fs.existsSync(PORTFOLIOS_FILE)) {
-    fs.writeFileSync(PORTFOLIOS_FILE, '{}', 'utf8');
-    console.log('Created empty portfolios.json file');
+// How often to look for portfolios the scraper saved
+const PORTFOLIOS_POLL_MS = 1000;
+// How long a stopped scraper gets to exit on its own before it is killed
+const SCRAPER_STOP_TIMEOUT_MS = 10000;
+// Scraper log lines kept for clients that connect later and for the download
+const LOG_BUFFER_SIZE = 2000;
+
+// Portfolios, processed tokens, wallet evaluations, runs, stats and config, shared with the scraper.
+// portfolios.json and the other JSON files from older versions are imported on first start
+const store = openStore(__dirname);
+
+// Save the default configuration if none has been saved yet
+if (!store.loadConfig()) {
+    const config = defaultConfig();
+    store.saveConfig({
+        ...config,
+        FILTER_RULES: resolveFilterRules(config),
+        TOKEN_FILTERS: resolveTokenFilters(config),
+        TOKEN_SORT: resolveTokenSort(config),
+        SCHEDULES: [],
+        WEBHOOKS: [],
+        ALERT_RULES: [],
+    });
+    console.log('Saved default configuration');
 }
 
-// Create scraper_stats.json with default values if it doesn't exist
-if (!fs.existsSync(STATS_FILE)) {
-    fs.writeFileSync(STATS_FILE, JSON.stringify({ portfoliosChecked: 0 }, null, 2), 'utf8');
-    console.log('Created scraper_stats.json with default values');
+// Databases from before config profiles have none, the saved configuration becomes the first one
+if (store.listProfiles().length === 0) {
+    store.activateProfile(store.createProfile('Default', profileSettings(store.loadConfig())).id);
+    console.log('Saved the configuration as profile "Default"');
 }
 
-// Create config.json with default values if it doesn't exist
-if (!fs.existsSync(CONFIG_FILE)) {
-    const defaultConfig = {
-        MIN_PNL: '1000',
-        MIN_ROI: '10',
-        MAX_TOKENS_TO_PROCESS: '10',
-        MAX_TRADERS_PER_TOKEN: '20',
-        START_FROM_ROW: '1',
-        CHROME_DEBUG_PORT: '9222',
-        BASE_URL: 'https://neo.bullx.io',
-        HOST_IP: 'localhost',
-    };
-    fs.writeFileSync(CONFIG_FILE, JSON.stringify(defaultConfig, null, 2), 'utf8');
-    console.log('Created config.json with default values');
+// Recent scraper output, every new line also goes out to the clients as a scraper-log event
+const scraperLogs = createLogBuffer(LOG_BUFFER_SIZE);
+function logScraperEvent(line, stream) {
+    io.emit('scraper-log', scraperLogs.push(line, stream));
 }
 
-// Track scraper process
-let scraperProcess = null;
+// Progress of the current or last run, built from the scraper's progress events and sent to the clients as
+// scraper-progress events
+const runProgress = createRunProgress();
+function emitRunProgress() {
+    io.emit('scraper-progress', runProgress.state());
+}
 
-// Watch portfolios.json for changes
-fs.watch(PORTFOLIOS_FILE, (eventType, filename) => {
-    if (eventType === 'change') {
-        try {
-            const portfolios = JSON.parse(fs.readFileSync(PORTFOLIOS_FILE, 'utf8'));
-            io.emit('portfolios-updated', portfolios);
-        } catch (error) {
-            console.error('Error reading portfolios file:', error);
+// Progress events update the run progress, every other line goes to the log
+function handleScraperOutput(line, stream) {
+    const event = stream === 'stdout' ? parseProgressEvent(line) : null;
+    if (!event) {
+        logScraperEvent(line, stream);
+    } else if (runProgress.apply(event)) {
+        emitRunProgress();
+    }
+}
+
+// The scraper runs as a child of the server
+const scraper = createScraperProcess({
+    cwd: __dirname,
+    env: { ...process.env, NODE_NO_WARNINGS: '1' },
+    stopTimeoutMs: SCRAPER_STOP_TIMEOUT_MS,
+    onOutput: handleScraperOutput,
+    onExit: (exit) => {
+        const { code, signal, stopRequested } = exit;
+        const message = `Scraper exited with ${signal ? `signal ${signal}` : `code ${code}`}${stopRequested ? ' after a stop' : ''}`;
+        console.log(message);
+        logScraperEvent(message, 'system');
+        if (runProgress.exited(exit)) emitRunProgress();
+    },
+});
+
+// The settings a profile holds: all of a configuration but its schedules, webhooks and alert rules, which do not
+// change between profiles
+function profileSettings(config) {
+    const { SCHEDULES, WEBHOOKS, ALERT_RULES, ...settings } = config ?? {};
+    return settings;
+}
+
+// Environment for a run with a profile other than the active one. The scraper reads the .env settings from its
+// environment and the others from the profile
+function profileEnv(profile) {
+    const env = { SCRAPER_PROFILE_ID: String(profile.id) };
+    for (const { key } of CONFIG_FIELDS) {
+        const value = profile.config[key];
+        if (value !== undefined && value !== null) env[key] = String(value);
+    }
+    return env;
+}
+
+// Profile the running scraper was started with, as in its SCRAPER_PROFILE_ID
+let scraperProfileId = null;
+
+// Start the scraper, with the overrides of a scheduled run or the settings of a profile. Runs record the active
+// profile unless they were given another one. Throws when the scraper is already running
+function startScraper(env, description = 'Scraper started') {
+    const active = store.listProfiles().find((profile) => profile.active);
+    const runEnv = { ...(active ? { SCRAPER_PROFILE_ID: String(active.id) } : {}), ...env };
+    const started = scraper.start({ env: runEnv });
+    scraperProfileId = runEnv.SCRAPER_PROFILE_ID ?? null;
+    runProgress.reset();
+    emitRunProgress();
+    console.log(`${description} (pid ${started.pid})`);
+    logScraperEvent(`${description} (pid ${started.pid})`, 'system');
+    return started;
+}
+
+// Scheduled runs, a schedule that comes due while the scraper is running is skipped
+const scheduler = createScheduler({
+    getSchedules: () => resolveSchedules(store.loadConfig() ?? {}),
+    isBusy: () => scraper.status().status !== 'stopped',
+    run: (schedule) => startScraper(scheduleEnv(schedule), `Scheduled run "${schedule.name}" started`),
+    onSkip: (schedule) => {
+        const message = `Skipped scheduled run "${schedule.name}", the previous run is still active`;
+        console.log(message);
+        logScraperEvent(message, 'system');
+    },
+});
+scheduler.start();
+
+// Webhooks get the new portfolios and status changes, each delivery attempt is logged and sent to the clients as
+// a webhook-delivery event
+const webhooks = createWebhookDispatcher({
+    getWebhooks: () => resolveWebhooks(loadConfig()),
+    onDelivery: (delivery) => io.emit('webhook-delivery', store.recordWebhookDelivery(delivery)),
+});
+
+// Review status of each portfolio as last sent, a changed portfolio missing from it is a new one
+const portfolioStatuses = store.portfolioStatuses();
+
+// Helper function to fire the webhooks for portfolios that were added or whose review status changed. Portfolios
+// added by an import were found by another instance, so they do not fire portfolio.added, an import of thousands
+// would otherwise post each of them
+function dispatchPortfolioEvents(portfolios) {
+    const occurredAt = new Date().toISOString();
+    let imported = 0;
+    for (const portfolio of portfolios) {
+        const previousStatus = portfolioStatuses.get(portfolio.id) ?? null;
+        portfolioStatuses.set(portfolio.id, portfolio.review.status);
+        if (previousStatus === null && portfolio.importedAt) {
+            imported++;
+        } else if (previousStatus === null) {
+            webhooks.dispatch({ type: 'portfolio.added', portfolio, previousStatus, occurredAt, test: false });
+        } else if (previousStatus !== portfolio.review.status) {
+            webhooks.dispatch({ type: 'portfolio.status_changed', portfolio, previousStatus, occurredAt, test: false });
         }
     }
+    if (imported > 0) console.log(`Not sending portfolio.added for ${imported} imported portfolios`);
+}
+
+// Alert rules, checked against every added or changed portfolio. An alert goes to the clients as an alert event
+// when the rule asks for a toast or browser notification, and to the rule's webhooks
+const alerts = createAlertEngine({
+    getRules: () => resolveAlertRules(loadConfig()),
+    listPortfolios: () => store.iteratePortfolios(parsePortfolioQuery().query),
+    tokenCounts: (ids) => store.portfolioTokenCounts(ids),
+    onAlert: (rule, portfolio) => {
+        const firedAt = new Date().toISOString();
+        const conditions = describeAlertRule(rule);
+        console.log(`Alert "${rule.name}" fired for ${portfolio.id}`);
+        if (rule.channels.toast || rule.channels.browser) {
+            io.emit('alert', {
+                ruleId: rule.id,
+                ruleName: rule.name,
+                conditions,
+                toast: rule.channels.toast,
+                browser: rule.channels.browser,
+                portfolio,
+                firedAt,
+            });
+        }
+        if (rule.channels.webhookIds.length > 0) {
+            webhooks.dispatch(
+                {
+                    type: 'alert.matched',
+                    portfolio,
+                    previousStatus: null,
+                    occurredAt: firedAt,
+                    test: false,
+                    alert: { ruleId: rule.id, ruleName: rule.name, conditions },
+                },
+                rule.channels.webhookIds,
+            );
+        }
+    },
 });
+alerts.refresh();
 
-// Socket.IO connection handler
-io.on('connection', (socket) => {
-    console.log('Client connected');
+// Send the portfolios added or changed since the last ones sent to every client, which load the rest page by page.
+// The alert rules also get the portfolios another token listed since, whose token count went up without a change
+let lastPortfolioChange = store.lastPortfolioChange();
+let lastWalletToken = store.lastWalletToken();
+function emitPortfolioChanges() {
+    const { portfolios, seq } = store.portfolioChangesSince(lastPortfolioChange);
+    lastPortfolioChange = seq;
+    const listed = store.portfoliosListedSince(lastWalletToken);
+    lastWalletToken = listed.seq;
+    const recounted = listed.portfolios.filter(({ id }) => !portfolios.some((portfolio) => portfolio.id === id));
+    if (portfolios.length > 0) {
+        io.emit('portfolios-changed', portfolios);
+        dispatchPortfolioEvents(portfolios);
+    }
+    if (portfolios.length > 0 || recounted.length > 0) alerts.evaluate([...portfolios, ...recounted]);
+}
 
-    // Send initial portfolios data
+// Poll for portfolios saved by the scraper. data_version only moves when another process commits,
+// so the portfolios are not re-read while the scraper is idle
+let lastDataVersion = store.dataVersion();
+setInterval(() => {
     try {
-        const portfolios = JSON.parse(fs.readFileSync(PORTFOLIOS_FILE, 'utf8'));
-        socket.emit('portfolios-updated', portfolios);
+        const version = store.dataVersion();
+        if (version === lastDataVersion) return;
+        lastDataVersion = version;
+        emitPortfolioChanges();
     } catch (error) {
-        console.error('Error reading initial portfolios:', error);
+        console.error('Error reading portfolios:', error);
     }
+}, PORTFOLIOS_POLL_MS);
+
+// Socket.IO connection handler
+io.on('connection', (socket) => {
+    console.log('Client connected');
+
+    // Send the buffered scraper log, new lines follow as scraper-log events
+    socket.emit('scraper-logs', scraperLogs.list());
+    socket.emit('scraper-progress', runProgress.state());
 
     socket.on('disconnect', () => {
         console.log('Client disconnected');
     });
 });
 
-// GET endpoint to retrieve portfolios
+// GET endpoint to tell the dashboard who its token belongs to and what it may do
+app.get('/auth/session', (req, res) => {
+    res.json(req.user);
+});
+
+// GET endpoint to retrieve a page of portfolios with the number matching the query, see portfolio-query.js for
+// the sort, range, search and date parameters
 app.get('/portfolios', (req, res) => {
+    const parsed = parsePortfolioQuery(req.query);
+    if ('error' in parsed) return res.status(400).json({ error: parsed.error });
     try {
-        const portfolios = fs.existsSync(PORTFOLIOS_FILE) ? JSON.parse(fs.readFileSync(PORTFOLIOS_FILE, 'utf8')) : {};
-        res.json(portfolios);
+        const { items, total } = store.queryPortfolios(parsed.query);
+        res.json({ items, total, page: parsed.query.page, pageSize: parsed.query.pageSize });
     } catch (error) {
         res.status(500).json({ error: 'Failed to read portfolios' });
     }
 });
 
-// GET endpoint to retrieve processed tokens
-app.get('/processed-tokens', (req, res) => {
+// GET endpoint to download every portfolio matching the filters of /portfolios, its page and pageSize aside.
+// format is csv (the default), json, ndjson or addresses for a plain list of wallet addresses
+app.get('/portfolios/export', (req, res) => {
+    const format = typeof req.query.format === 'string' ? req.query.format : 'csv';
+    if (!Object.hasOwn(EXPORT_FORMATS, format)) {
+        return res.status(400).json({ error: `format must be one of ${Object.keys(EXPORT_FORMATS).join(', ')}` });
+    }
+    const parsed = parsePortfolioQuery({ ...req.query, page: undefined, pageSize: undefined });
+    if ('error' in parsed) return res.status(400).json({ error: parsed.error });
+    try {
+        const { contentType, extension } = EXPORT_FORMATS[format];
+        const fileName = `portfolios-${new Date().toISOString().replace(/[:.]/g, '-')}.${extension}`;
+        res.setHeader('Content-Type', contentType);
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+        const header = { exportedBy: INSTANCE_NAME, exportedAt: new Date().toISOString() };
+        for (const chunk of formatPortfolios(format, store.iteratePortfolios(parsed.query), header)) res.write(chunk);
+        res.end();
+    } catch (error) {
+        console.error('Error exporting portfolios:', error);
+        if (res.headersSent) res.destroy();
+        else res.status(500).json({ error: 'Failed to export portfolios' });
+    }
+});
+
+// POST endpoint to merge a file from another instance into the portfolios. The body is the file in one of the
+// export formats but addresses, or an old portfolios.json. format is guessed when left out, policy decides which
+// values win when a portfolio is already here (see portfolio-import.js), source overrides the instance the file
+// says it comes from and dryRun=true only reports what the import would do
+app.post('/portfolios/import', (req, res) => {
+    const format = typeof req.query.format === 'string' && req.query.format ? req.query.format : null;
+    if (format !== null && !IMPORT_FORMATS.includes(format)) {
+        return res.status(400).json({ error: `format must be one of ${IMPORT_FORMATS.join(', ')}` });
+    }
+    const policy = typeof req.query.policy === 'string' && req.query.policy ? req.query.policy : 'newest';
+    if (!IMPORT_POLICIES.includes(policy)) {
+        return res.status(400).json({ error: `policy must be one of ${IMPORT_POLICIES.join(', ')}` });
+    }
+    const sourceOverride =
+        typeof req.query.source === 'string' && req.query.source.trim() ? req.query.source.trim() : null;
+    const dryRun = req.query.dryRun === 'true';
+    if (typeof req.body !== 'string' || !req.body.trim()) {
+        return res.status(400).json({ error: 'Send the file to import as the request body' });
+    }
+
+    const parsed = parsePortfolioImport(req.body, format);
+    if ('error' in parsed) return res.status(400).json({ error: parsed.error });
+    const source = sourceOverride ?? parsed.exportedBy;
     try {
-        if (fs.existsSync(PROCESSED_TOKENS_FILE)) {
-            const tokens = JSON.parse(fs.readFileSync(PROCESSED_TOKENS_FILE, 'utf8'));
-            res.json(tokens);
-        } else {
-            // If file doesn't exist, create it with an empty array
-            fs.writeFileSync(PROCESSED_TOKENS_FILE, '[]');
-            res.json([]);
+        const counts = store.importPortfolios(parsed.portfolios, { policy, source, dryRun });
+        if (!dryRun) emitPortfolioChanges();
+        res.json({ dryRun, format: parsed.format, policy, source, ...counts, invalid: parsed.invalid });
+    } catch (error) {
+        console.error('Error importing portfolios:', error);
+        res.status(500).json({ error: 'Failed to import portfolios' });
+    }
+});
+
+// GET endpoint to list the earlier versions of a portfolio an import kept under the history policy
+app.get('/portfolios/:id/history', (req, res) => {
+    try {
+        res.json(store.listPortfolioHistory(req.params.id));
+    } catch (error) {
+        res.status(500).json({ error: 'Failed to read the portfolio history' });
+    }
+});
+
+// PATCH endpoint to change the review status, tags or notes of a portfolio. The change is recorded against the
+// access token and sent to every client
+app.patch('/portfolios/:id/review', (req, res) => {
+    const validated = validateReviewUpdate(req.body ?? {});
+    if ('error' in validated) return res.status(400).json({ error: validated.error });
+    try {
+        const portfolio = store.updatePortfolioReview(req.params.id, validated.changes, req.user.name);
+        if (!portfolio) return res.status(404).json({ error: 'Portfolio not found' });
+        emitPortfolioChanges();
+        res.json(portfolio);
+    } catch (error) {
+        console.error('Error updating portfolio review:', error);
+        res.status(500).json({ error: 'Failed to update the review' });
+    }
+});
+
+// Helper function to read the saved configuration, empty before it is first saved
+function loadConfig() {
+    return store.loadConfig() ?? {};
+}
+
+// GET endpoint to retrieve evaluated wallets with their verdict under the current filter rules
+// Pass ?status=passed|rejected|incomplete to only get wallets with that verdict
+app.get('/wallets', (req, res) => {
+    try {
+        const rules = resolveFilterRules(loadConfig());
+        const wallets = Object.entries(store.loadWallets())
+            .map(([key, wallet]) => ({ key, ...wallet, verdict: judgeWallet(wallet, rules) }))
+            .filter((wallet) => !req.query.status || wallet.verdict.status === req.query.status)
+            .sort((a, b) => b.evaluatedAt.localeCompare(a.evaluatedAt));
+        res.json(wallets);
+    } catch (error) {
+        console.error('Error reading wallets:', error);
+        res.status(500).json({ error: 'Failed to read wallets' });
+    }
+});
+
+// POST endpoint to re-apply the current filter rules to the evaluated wallets without scraping again
+// Wallets that pass now are added to the portfolios; wallets already there are left as they are
+app.post('/wallets/reapply', (req, res) => {
+    try {
+        const rules = resolveFilterRules(loadConfig());
+        const counts = { passed: 0, rejected: 0, incomplete: 0 };
+        const added = [];
+
+        for (const wallet of Object.values(store.loadWallets())) {
+            const verdict = judgeWallet(wallet, rules);
+            counts[verdict.status]++;
+            if (verdict.status !== 'passed') continue;
+
+            const portfolio = portfolioEntry(wallet);
+            if (portfolio && store.savePortfolio(portfolio.id, portfolio.entry, { overwrite: false })) {
+                added.push(portfolio.id);
+            }
         }
+
+        emitPortfolioChanges();
+        res.json({
+            success: true,
+            message: `${added.length} newly qualifying wallets added`,
+            ...counts,
+            added,
+        });
+    } catch (error) {
+        console.error('Error re-applying filter rules:', error);
+        res.status(500).json({ success: false, message: 'Failed to re-apply filter rules' });
+    }
+});
+
+// GET endpoint to retrieve processed tokens, most recently scanned first
+app.get('/processed-tokens', (req, res) => {
+    try {
+        const ttlHours = Number(loadConfig().RESCAN_TTL_HOURS) || 0;
+        const tokens = Object.entries(store.loadProcessedTokens())
+            .map(([key, token]) => ({ key, ...token, nextScanAt: nextScanAt(token, ttlHours)?.toISOString() ?? null }))
+            .sort((a, b) => (b.lastScanned ?? '').localeCompare(a.lastScanned ?? ''));
+        res.json(tokens);
     } catch (error) {
         console.error('Error reading processed tokens:', error);
         res.status(500).json({ error: 'Failed to read processed tokens' });
@@ -122,21 +471,23 @@ app.get('/processed-tokens', (req, res) => {
 // GET endpoint to retrieve scraper stats
 app.get('/scraper-stats', (req, res) => {
     try {
-        if (fs.existsSync(STATS_FILE)) {
-            const stats = JSON.parse(fs.readFileSync(STATS_FILE, 'utf8'));
-            res.json(stats);
-        } else {
-            // If file doesn't exist, create it with default values
-            const defaultStats = { portfoliosChecked: 0 };
-            fs.writeFileSync(STATS_FILE, JSON.stringify(defaultStats, null, 2));
-            res.json(defaultStats);
-        }
+        res.json(store.getStats());
     } catch (error) {
         console.error('Error reading scraper stats:', error);
         res.status(500).json({ error: 'Failed to read scraper stats' });
     }
 });
 
+// GET endpoint to retrieve the most recent scraper runs with how many wallets each one checked
+app.get('/runs', (req, res) => {
+    try {
+        res.json(store.listRuns(Number(req.query.limit) || 20));
+    } catch (error) {
+        console.error('Error reading runs:', error);
+        res.status(500).json({ error: 'Failed to read runs' });
+    }
+});
+
 // Helper function to read .env file
 function parseEnvFile(content) {
     const config = {};
@@ -155,145 +506,458 @@ function parseEnvFile(content) {
 // Helper function to convert config object to .env format
 function convertToEnvFormat(config) {
     let envContent = '';
-    for (const [key, value] of Object.entries(config)) {
+    // Only the settings of the schema, nested ones such as FILTER_RULES only live in the saved config
+    for (const { key } of CONFIG_FIELDS) {
+        const value = config[key];
+        if (value === undefined || value === null || typeof value === 'object') continue;
         envContent += `${key}=${value}\n`;
     }
     return envContent;
 }
 
-// GET endpoint to retrieve current configuration
+// Helper function to normalise the filter pipeline and keep MIN_PNL/MIN_ROI in step with it
+function withFilterRules(config) {
+    const rules = resolveFilterRules(config);
+    const minPnl = rules.find((rule) => rule.id === 'min-pnl');
+    const minRoi = rules.find((rule) => rule.id === 'min-roi');
+    return {
+        ...config,
+        MIN_PNL: minPnl.params.min,
+        MIN_ROI: minRoi.params.min,
+        FILTER_RULES: rules,
+    };
+}
+
+// Helper function to normalise the explore-table token filters and sort order
+function withTokenSelection(config) {
+    return {
+        ...config,
+        TOKEN_FILTERS: resolveTokenFilters(config),
+        TOKEN_SORT: resolveTokenSort(config),
+    };
+}
+
+// GET endpoint to retrieve current configuration, settings that were never saved at their defaults. The webhooks
+// are left out, their URLs hold the tokens of the chats they post to and only operators get them from /webhooks
 app.get('/config', (req, res) => {
     try {
-        const config = fs.existsSync(CONFIG_FILE)
-            ? JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf8'))
-            : {
-                  MIN_PNL: '25000',
-                  MIN_ROI: '2000',
-                  MAX_TOKENS_TO_PROCESS: '10',
-                  MAX_TRADERS_PER_TOKEN: '20',
-                  START_FROM_ROW: '3',
-                  CHROME_DEBUG_PORT: '9222',
-                  BASE_URL: 'https://neo.bullx.io',
-                  HOST_IP: 'localhost',
-              };
-        res.json(config);
+        const { WEBHOOKS, ...saved } = loadConfig();
+        const config = { ...defaultConfig(), ...saved };
+        res.json(withTokenSelection(withFilterRules(config)));
     } catch (error) {
         res.status(500).json({ error: 'Failed to read configuration' });
     }
 });
 
-// POST endpoint to update configuration
+// POST endpoint to update configuration, 400 with an error per invalid field. Schedules, webhooks and alert rules
+// are saved through their own endpoints, so a form holding an older copy of them does not undo their changes
 app.post('/config', (req, res) => {
     try {
-        const config = req.body;
-        fs.writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2));
-        fs.writeFileSync(ENV_FILE, convertToEnvFormat(config));
+        const { config: validated, errors } = validateConfig(req.body);
+        if (Object.keys(errors).length > 0) {
+            return res.status(400).json({ error: 'Invalid configuration', errors });
+        }
+        const config = applyConfig(validated);
+        const active = store.listProfiles().find((profile) => profile.active);
+        if (active) store.updateProfile(active.id, { config: profileSettings(config) });
+        pushConfigToScraper(config, active);
         res.json(config);
     } catch (error) {
         res.status(500).json({ error: 'Failed to update configuration' });
     }
 });
 
+// Helper function to save a validated configuration and its .env file, keeping the saved schedules, webhooks and
+// alert rules
+function applyConfig(validated) {
+    const { SCHEDULES = [], WEBHOOKS = [], ALERT_RULES = [] } = loadConfig();
+    const config = { ...withTokenSelection(withFilterRules(validated)), SCHEDULES, WEBHOOKS, ALERT_RULES };
+    store.saveConfig(config);
+    fs.writeFileSync(ENV_FILE, convertToEnvFormat(config));
+    return config;
+}
+
+// Helper function to send a saved configuration to the running scraper, which picks up the new filter thresholds.
+// A run with a profile other than the active one keeps its own settings
+function pushConfigToScraper(config, active) {
+    if (scraperProfileId !== (active ? String(active.id) : null)) return;
+    if (scraper.send(formatConfigUpdate(profileSettings(config)))) {
+        logScraperEvent('Sent the saved configuration to the running scraper', 'system');
+    }
+}
+
+// Helper function to check a profile name, null when it can be used
+function checkProfileName(name, exceptId) {
+    if (typeof name !== 'string' || !name.trim()) return { status: 400, error: 'Profile name is required' };
+    const taken = store.listProfiles().some((profile) => profile.name === name.trim() && profile.id !== exceptId);
+    return taken ? { status: 409, error: `A profile named "${name.trim()}" already exists` } : null;
+}
+
+// GET endpoint to retrieve the config profiles, the active one is the saved configuration
+app.get('/profiles', (req, res) => {
+    try {
+        res.json(store.listProfiles());
+    } catch (error) {
+        console.error('Error reading profiles:', error);
+        res.status(500).json({ error: 'Failed to read profiles' });
+    }
+});
+
+// POST endpoint to create a profile from the given settings, or from the saved configuration without them
+app.post('/profiles', (req, res) => {
+    const nameProblem = checkProfileName(req.body?.name);
+    if (nameProblem) return res.status(nameProblem.status).json({ error: nameProblem.error });
+    try {
+        let settings = profileSettings(loadConfig());
+        if (req.body.config) {
+            const { config: validated, errors } = validateConfig(req.body.config);
+            if (Object.keys(errors).length > 0) {
+                return res.status(400).json({ error: 'Invalid configuration', errors });
+            }
+            settings = profileSettings(withTokenSelection(withFilterRules(validated)));
+        }
+        res.json(store.createProfile(req.body.name.trim(), settings));
+    } catch (error) {
+        console.error('Error creating profile:', error);
+        res.status(500).json({ error: 'Failed to create profile' });
+    }
+});
+
+// PATCH endpoint to rename a profile
+app.patch('/profiles/:id', (req, res) => {
+    const id = Number(req.params.id);
+    const nameProblem = checkProfileName(req.body?.name, id);
+    if (nameProblem) return res.status(nameProblem.status).json({ error: nameProblem.error });
+    try {
+        const profile = store.updateProfile(id, { name: req.body.name.trim() });
+        if (!profile) return res.status(404).json({ error: 'Profile not found' });
+        res.json(profile);
+    } catch (error) {
+        console.error('Error renaming profile:', error);
+        res.status(500).json({ error: 'Failed to rename profile' });
+    }
+});
+
+// POST endpoint to copy a profile, named "<name> copy" unless a name is given
+app.post('/profiles/:id/duplicate', (req, res) => {
+    try {
+        const profile = store.getProfile(Number(req.params.id));
+        if (!profile) return res.status(404).json({ error: 'Profile not found' });
+
+        let name = req.body?.name?.trim();
+        if (!name) {
+            name = `${profile.name} copy`;
+            for (let count = 2; checkProfileName(name); count++) name = `${profile.name} copy ${count}`;
+        }
+        const nameProblem = checkProfileName(name);
+        if (nameProblem) return res.status(nameProblem.status).json({ error: nameProblem.error });
+        res.json(store.createProfile(name, profile.config));
+    } catch (error) {
+        console.error('Error duplicating profile:', error);
+        res.status(500).json({ error: 'Failed to duplicate profile' });
+    }
+});
+
+// DELETE endpoint to delete a profile, 409 for the active one
+app.delete('/profiles/:id', (req, res) => {
+    try {
+        const profile = store.getProfile(Number(req.params.id));
+        if (!profile) return res.status(404).json({ error: 'Profile not found' });
+        if (profile.active) {
+            return res.status(409).json({ error: 'The active profile cannot be deleted, switch to another one first' });
+        }
+        store.deleteProfile(profile.id);
+        res.json({ success: true, message: `Deleted profile "${profile.name}"` });
+    } catch (error) {
+        console.error('Error deleting profile:', error);
+        res.status(500).json({ error: 'Failed to delete profile' });
+    }
+});
+
+// POST endpoint to make a profile the active one, its settings become the saved configuration and .env
+app.post('/profiles/:id/activate', (req, res) => {
+    try {
+        const profile = store.getProfile(Number(req.params.id));
+        if (!profile) return res.status(404).json({ error: 'Profile not found' });
+        const config = applyConfig(validateConfig(profile.config).config);
+        store.activateProfile(profile.id);
+        res.json(config);
+    } catch (error) {
+        console.error('Error activating profile:', error);
+        res.status(500).json({ error: 'Failed to activate profile' });
+    }
+});
+
+// GET endpoint to describe the configuration fields, the dashboard builds its settings form from them
+app.get('/config-schema', (req, res) => {
+    res.json(CONFIG_FIELDS);
+});
+
+// GET endpoint to retrieve the scheduled runs with when each one runs next
+app.get('/schedules', (req, res) => {
+    try {
+        res.json(scheduler.list());
+    } catch (error) {
+        console.error('Error reading schedules:', error);
+        res.status(500).json({ error: 'Failed to read schedules' });
+    }
+});
+
+// POST endpoint to replace the scheduled runs, 400 naming the first invalid schedule
+app.post('/schedules', (req, res) => {
+    if (!Array.isArray(req.body)) {
+        return res.status(400).json({ error: 'Expected a list of schedules' });
+    }
+    try {
+        const schedules = resolveSchedules({ SCHEDULES: req.body });
+        for (const schedule of schedules) {
+            const error = validateSchedule(schedule);
+            if (error) return res.status(400).json({ error: `${schedule.name || 'Unnamed schedule'}: ${error}` });
+        }
+        store.saveConfig({ ...loadConfig(), SCHEDULES: schedules });
+        res.json(scheduler.list());
+    } catch (error) {
+        console.error('Error saving schedules:', error);
+        res.status(500).json({ error: 'Failed to save schedules' });
+    }
+});
+
+// GET endpoint to retrieve the webhooks, for operators only as their URLs hold tokens
+app.get('/webhooks', auth.requireRole('operator'), (req, res) => {
+    try {
+        res.json(resolveWebhooks(loadConfig()));
+    } catch (error) {
+        console.error('Error reading webhooks:', error);
+        res.status(500).json({ error: 'Failed to read webhooks' });
+    }
+});
+
+// POST endpoint to replace the webhooks, 400 naming the first invalid webhook
+app.post('/webhooks', (req, res) => {
+    if (!Array.isArray(req.body)) {
+        return res.status(400).json({ error: 'Expected a list of webhooks' });
+    }
+    try {
+        const saved = resolveWebhooks({ WEBHOOKS: req.body });
+        for (const webhook of saved) {
+            const error = validateWebhook(webhook);
+            if (error) return res.status(400).json({ error: `${webhook.name || 'Unnamed webhook'}: ${error}` });
+        }
+        store.saveConfig({ ...loadConfig(), WEBHOOKS: saved });
+        res.json(saved);
+    } catch (error) {
+        console.error('Error saving webhooks:', error);
+        res.status(500).json({ error: 'Failed to save webhooks' });
+    }
+});
+
+// POST endpoint to send a test event to a saved webhook, answering with how the delivery went
+app.post('/webhooks/:id/test', async (req, res) => {
+    const webhook = resolveWebhooks(loadConfig()).find((entry) => entry.id === req.params.id);
+    if (!webhook) return res.status(404).json({ error: 'Webhook not found' });
+    try {
+        res.json(await webhooks.sendTest(webhook));
+    } catch (error) {
+        console.error('Error testing webhook:', error);
+        res.status(500).json({ error: 'Failed to send the test event' });
+    }
+});
+
+// GET endpoint to retrieve the most recent webhook delivery attempts
+app.get('/webhooks/deliveries', (req, res) => {
+    try {
+        res.json(store.listWebhookDeliveries());
+    } catch (error) {
+        console.error('Error reading webhook deliveries:', error);
+        res.status(500).json({ error: 'Failed to read webhook deliveries' });
+    }
+});
+
+// GET endpoint to retrieve the alert rules
+app.get('/alert-rules', (req, res) => {
+    try {
+        res.json(resolveAlertRules(loadConfig()));
+    } catch (error) {
+        console.error('Error reading alert rules:', error);
+        res.status(500).json({ error: 'Failed to read alert rules' });
+    }
+});
+
+// Helper function to validate alert rules against the saved webhooks, the error names the first invalid rule
+function alertRulesError(rules) {
+    const webhookIds = resolveWebhooks(loadConfig()).map((webhook) => webhook.id);
+    for (const rule of rules) {
+        const error = validateAlertRule(rule, webhookIds);
+        if (error) return `${rule.name || 'Unnamed rule'}: ${error}`;
+    }
+    return null;
+}
+
+// POST endpoint to replace the alert rules, 400 naming the first invalid rule. Portfolios a new or changed rule
+// already matches do not fire it
+app.post('/alert-rules', (req, res) => {
+    if (!Array.isArray(req.body)) {
+        return res.status(400).json({ error: 'Expected a list of alert rules' });
+    }
+    try {
+        const rules = resolveAlertRules({ ALERT_RULES: req.body });
+        const error = alertRulesError(rules);
+        if (error) return res.status(400).json({ error });
+        store.saveConfig({ ...loadConfig(), ALERT_RULES: rules });
+        alerts.refresh();
+        res.json(rules);
+    } catch (error) {
+        console.error('Error saving alert rules:', error);
+        res.status(500).json({ error: 'Failed to save alert rules' });
+    }
+});
+
+// POST endpoint to list the portfolios an alert rule would match now, newest first, without saving it
+app.post('/alert-rules/preview', (req, res) => {
+    const [rule] = resolveAlertRules({ ALERT_RULES: [req.body] });
+    if (!rule) return res.status(400).json({ error: 'Expected an alert rule' });
+    // Only the conditions matter to a preview, the rule may not have a name or channels yet
+    const error = validateAlertConditions(rule);
+    if (error) return res.status(400).json({ error });
+    try {
+        res.json(alerts.preview(rule));
+    } catch (error) {
+        console.error('Error previewing alert rule:', error);
+        res.status(500).json({ error: 'Failed to preview the alert rule' });
+    }
+});
+
+// GET endpoint to describe the available wallet filter rules
+app.get('/filter-rules', (req, res) => {
+    res.json(FILTER_RULE_DEFINITIONS.map(({ id, label, description, params }) => ({ id, label, description, params })));
+});
+
+// GET endpoint describing the explore columns tokens can be filtered and sorted by
+app.get('/token-columns', (req, res) => {
+    res.json(TOKEN_COLUMNS);
+});
+
+// Track a running selector health check
+let doctorRunning = false;
+
+// POST endpoint to check selectors.json against the live site, see doctor.ts. It starts a browser session, so
+// like starting the scraper it is for operators
+app.post('/doctor', (req, res) => {
+    if (doctorRunning) {
+        return res.status(409).json({ error: 'A selector check is already running' });
+    }
+
+    doctorRunning = true;
+    exec('npx tsx doctor.ts --json', { cwd: __dirname, timeout: 180000 }, (error, stdout, stderr) => {
+        doctorRunning = false;
+        try {
+            // doctor.ts exits non-zero when selectors are broken but still prints its report
+            res.json(JSON.parse(stdout));
+        } catch (parseError) {
+            console.error('Error running selector check:', error || parseError, stderr);
+            res.status(500).json({ error: 'Failed to run selector check', details: stderr || error?.message });
+        }
+    });
+});
+
+// Per-worker progress as last written by the scraper, null before the first run
+function loadWorkerStatus() {
+    try {
+        if (fs.existsSync(WORKERS_FILE)) {
+            return JSON.parse(fs.readFileSync(WORKERS_FILE, 'utf8'));
+        }
+    } catch (error) {
+        console.error('Error reading worker status:', error);
+    }
+    return null;
+}
+
 // GET endpoint to check scraper status
 app.get('/scraper/status', (req, res) => {
+    const workerStatus = loadWorkerStatus();
     res.json({
-        status: scraperProcess && !scraperProcess.killed ? 'running' : 'stopped',
-        pid: scraperProcess?.pid,
+        ...scraper.status(),
+        run: runProgress.state(),
+        workers: workerStatus?.workers ?? [],
+        workersUpdatedAt: workerStatus?.updatedAt,
     });
 });
 
-// POST endpoint to start scraper
+// POST endpoint to start scraper, 409 when it is already running. With a profileId the run uses that profile's
+// settings without making it the active one
 app.post('/scraper/start', (req, res) => {
     try {
-        if (scraperProcess && !scraperProcess.killed) {
-            return res.json({
-                status: 'running',
-                pid: scraperProcess.pid,
-            });
+        const status = scraper.status();
+        if (status.status !== 'stopped') {
+            return res.status(409).json({ ...status, error: `Scraper is already running (pid ${status.pid})` });
         }
 
-        // Check if we're on Windows
-        const isWindows = process.platform === 'win32';
-
-        // Configure the command and options based on platform
-        let command;
-        if (isWindows) {
-            // For Windows, create a simple batch command with fewer nested quotes
-            command = `cmd.exe /c start cmd.exe /k "ping 127.0.0.1 -n 6 > nul & cd ${__dirname} & npx tsx test.ts"`;
-        } else {
-            // For macOS/Linux, use osascript to open Terminal
-            command = `osascript -e 'tell app "Terminal" to do script "cd ${__dirname} && npx tsx test.ts"'`;
+        const profileId = req.body?.profileId;
+        if (profileId === undefined || profileId === null || profileId === '') {
+            return res.json(startScraper());
         }
-
-        const options = {
-            env: {
-                ...process.env,
-                NODE_NO_WARNINGS: '1',
-                CHROME_DEBUG_PORT: '9222',
-                HOST_IP: 'localhost',
-                BASE_URL: 'https://neo.bullx.io',
-                DEBUG: '*',
-            },
-            shell: true,
-        };
-
-        console.log('Starting scraper with command:', command);
-        exec(command, options);
-
-        res.json({
-            status: 'running',
-            pid: 1,
-        });
+        const profile = store.getProfile(Number(profileId));
+        if (!profile) return res.status(404).json({ ...status, error: 'Profile not found' });
+        res.json(startScraper(profileEnv(profile), `Scraper started with profile "${profile.name}"`));
     } catch (error) {
         console.error('Error starting scraper:', error);
         res.status(500).json({
-            status: 'stopped',
+            ...scraper.status(),
             error: 'Failed to start scraper',
         });
     }
 });
 
-// POST endpoint to stop scraper
-app.post('/scraper/stop', (req, res) => {
+// POST endpoint to stop scraper, answers once it has exited
+app.post('/scraper/stop', async (req, res) => {
     try {
-        if (scraperProcess && !scraperProcess.killed) {
-            // Check if we're on Windows
-            const isWindows = process.platform === 'win32';
-
-            if (isWindows) {
-                // On Windows, we need to use taskkill to terminate the process tree
-                exec('taskkill /pid ' + scraperProcess.pid + ' /f /t');
-            } else {
-                // On Unix-like systems, we can use the kill method
-                scraperProcess.kill();
-            }
-
-            scraperProcess = null;
-        }
-        res.json({
-            status: 'stopped',
-        });
+        res.json(await scraper.stop());
     } catch (error) {
         console.error('Error stopping scraper:', error);
         res.status(500).json({
-            status: 'stopped',
+            ...scraper.status(),
             error: 'Failed to stop scraper',
         });
     }
 });
 
+// GET endpoint to retrieve the buffered scraper log, oldest line first
+// Filter with ?level=<lowest level>&search=<text>&limit=<lines>, ?format=text downloads it as a text file
+app.get('/scraper/logs', (req, res) => {
+    const { level, search, limit, format } = req.query;
+    if (level && !LOG_LEVELS.includes(level)) {
+        return res.status(400).json({ error: `level must be one of ${LOG_LEVELS.join(', ')}` });
+    }
+    // Express gives an array for a repeated ?search
+    if (search !== undefined && typeof search !== 'string') {
+        return res.status(400).json({ error: 'search must be given once' });
+    }
+
+    const events = scraperLogs.list({ level, search, limit: Number(limit) || undefined });
+    if (format === 'text') {
+        res.attachment(`scraper-${new Date().toISOString().replace(/[:.]/g, '-')}.log`);
+        return res.type('text/plain').send(formatLogEvents(events));
+    }
+    res.json(events);
+});
+
 // POST endpoint to clear processed tokens
+// Pass { "token": "<address or key>" } to clear a single token, otherwise all of them are cleared
 app.post('/clear-processed-tokens', (req, res) => {
     try {
-        // Read the current tokens to get the count
-        let tokenCount = 0;
-        if (fs.existsSync(PROCESSED_TOKENS_FILE)) {
-            const currentTokens = JSON.parse(fs.readFileSync(PROCESSED_TOKENS_FILE, 'utf8'));
-            tokenCount = Array.isArray(currentTokens) ? currentTokens.length : 0;
+        const token = req.body?.token;
+
+        if (token) {
+            const tokens = store.loadProcessedTokens();
+            const key = tokens[token] ? token : Object.keys(tokens).find((entry) => tokens[entry].address === token);
+            if (!key) {
+                return res.status(404).json({ success: false, message: `Token ${token} is not a processed token` });
+            }
+            store.deleteProcessedToken(key);
+            return res.json({ success: true, message: `Processed token ${key} cleared`, clearedCount: 1 });
         }
 
-        // Clear the processed tokens file by writing an empty array
-        fs.writeFileSync(PROCESSED_TOKENS_FILE, '[]');
+        const tokenCount = store.clearProcessedTokens();
         res.json({
             success: true,
             message: 'Processed tokens cleared successfully',
@@ -336,18 +1000,55 @@ app.post('/update', (req, res) => {
     }
 });
 
+// Stop the scraper with the server, it runs in its own process group and would otherwise outlive it
+for (const signal of ['SIGINT', 'SIGTERM']) {
+    process.once(signal, async () => {
+        await scraper.stop();
+        process.exit(0);
+    });
+}
+
 // Start the server
 httpServer.listen(port, () => {
     console.log(`Server running at http://localhost:${port}`);
-    console.log('Available endpoints:');
+    console.log(`Accepting ${authConfig.tokens.length} access token(s) from ${authConfig.corsOrigins.join(', ')}`);
+    console.log('Available endpoints, GET needs a viewer token and everything else an operator token:');
+    console.log('  GET  /auth/session    - Name and role of the access token');
     console.log('  GET  /config          - Retrieve current configuration');
     console.log('  POST /config          - Update configuration');
-    console.log('  GET  /scraper/status  - Check scraper status');
-    console.log('  POST /scraper/start   - Start the scraper');
+    console.log('  GET  /config-schema   - Describe the configuration fields');
+    console.log('  GET  /profiles        - Get the config profiles');
+    console.log('  POST /profiles        - Create a config profile');
+    console.log('  PATCH /profiles/:id   - Rename a config profile');
+    console.log('  DELETE /profiles/:id  - Delete a config profile');
+    console.log('  POST /profiles/:id/duplicate - Copy a config profile');
+    console.log('  POST /profiles/:id/activate  - Switch the configuration to a profile');
+    console.log('  GET  /schedules       - Get the scheduled runs and when they run next');
+    console.log('  POST /schedules       - Replace the scheduled runs');
+    console.log('  GET  /webhooks        - Get the webhooks');
+    console.log('  POST /webhooks        - Replace the webhooks');
+    console.log('  POST /webhooks/:id/test - Send a test event to a webhook');
+    console.log('  GET  /webhooks/deliveries - Get the recent webhook deliveries');
+    console.log('  GET  /alert-rules     - Get the alert rules');
+    console.log('  POST /alert-rules     - Replace the alert rules');
+    console.log('  POST /alert-rules/preview - List the portfolios an alert rule would match');
+    console.log('  GET  /filter-rules    - Describe the wallet filter rules');
+    console.log('  GET  /token-columns   - Describe the explore columns tokens are filtered by');
+    console.log('  POST /doctor          - Check selectors against the live site');
+    console.log('  GET  /scraper/status  - Check scraper status and run progress');
+    console.log('  POST /scraper/start   - Start the scraper, optionally with a profile');
     console.log('  POST /scraper/stop    - Stop the scraper');
-    console.log('  GET  /portfolios      - Get all portfolios');
+    console.log('  GET  /scraper/logs    - Get the recent scraper log');
+    console.log('  GET  /portfolios      - Get a page of portfolios, sorted and filtered');
+    console.log('  GET  /portfolios/export - Download the filtered portfolios as csv, json, ndjson or addresses');
+    console.log('  POST /portfolios/import - Merge portfolios exported by another instance');
+    console.log('  GET  /portfolios/:id/history - Get the versions of a portfolio kept by imports');
+    console.log('  PATCH /portfolios/:id/review - Set the review status, tags and notes of a portfolio');
+    console.log('  GET  /wallets         - Get every evaluated wallet with its metrics');
+    console.log('  POST /wallets/reapply - Re-apply the filter rules to the evaluated wallets');
     console.log('  GET  /processed-tokens - Get processed tokens');
-    console.log('  POST /clear-processed-tokens - Clear processed tokens');
+    console.log('  POST /clear-processed-tokens - Clear all or one processed token');
     console.log('  GET  /scraper-stats   - Get scraper stats');
+    console.log('  GET  /runs            - Get the most recent scraper runs');
     console.log('  POST /update          - Update code from git');
 });
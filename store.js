@@ -0,0 +1,982 @@
+// SQLite store shared by the scraper and the server, replacing the JSON files both of them used to rewrite in
+// full. The database runs in WAL mode so the server can read while the scraper writes, and every change is
+// a transaction, so neither side ever sees a half-written record. The JSON files from older versions are
+// imported the first time a data directory is opened and renamed to <file>.migrated.
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { planPortfolioMerge } from './portfolio-import.js';
+import { normaliseProcessedTokens } from './processed-tokens.js';
+import { walletRecordKey } from './wallets.js';
+
+/** @typedef {import('./processed-tokens.js').ProcessedToken} ProcessedToken */
+/** @typedef {import('./processed-tokens.js').ProcessedTokens} ProcessedTokens */
+/** @typedef {import('./wallets.js').WalletRecord} WalletRecord */
+/** @typedef {import('./wallets.js').WalletRecords} WalletRecords */
+/** @typedef {import('./portfolio-review.js').PortfolioReview} PortfolioReview */
+
+/**
+ * @typedef {Object} Portfolio
+ * @property {string} roi
+ * @property {string} pnl
+ * @property {string} link
+ * @property {string} [createdAt]
+ * @property {PortfolioReview} [review] Kept when the scraper saves the portfolio again
+ * @property {string | null} [source] Instance the portfolio was imported from, null when the import did not say.
+ *   Left out with importedAt for the portfolios found here
+ * @property {string} [importedAt]
+ */
+
+/**
+ * @typedef {Object} PortfolioVersion Values a portfolio had before an import replaced them, or that an import
+ * brought in without replacing the current ones
+ * @property {string} roi
+ * @property {string} pnl
+ * @property {string} link
+ * @property {string | null} createdAt
+ * @property {string | null} source
+ * @property {string} archivedAt
+ */
+
+/**
+ * @typedef {Object} Run
+ * @property {number} id
+ * @property {number | null} pid
+ * @property {string} startedAt
+ * @property {string | null} finishedAt
+ * @property {'running' | 'finished' | 'failed' | 'interrupted'} status
+ * @property {string | null} profile Name of the config profile the run used
+ * @property {number} walletsChecked
+ */
+
+/**
+ * @typedef {Object} Profile
+ * @property {number} id
+ * @property {string} name
+ * @property {Record<string, unknown>} config Every setting but the schedules
+ * @property {boolean} active Whether the saved configuration is this profile's
+ * @property {string} createdAt
+ * @property {string} updatedAt
+ */
+
+export const DATABASE_FILE_NAME = 'wltr.db';
+
+// Schema changes in order. The database's user_version is the number of them already applied.
+const MIGRATIONS = [
+    `
+    CREATE TABLE portfolios (
+        id TEXT PRIMARY KEY,
+        roi TEXT NOT NULL,
+        pnl TEXT NOT NULL,
+        link TEXT NOT NULL,
+        created_at TEXT
+    );
+    CREATE TABLE tokens (
+        key TEXT PRIMARY KEY,
+        address TEXT,
+        name TEXT NOT NULL,
+        first_seen TEXT NOT NULL,
+        last_scanned TEXT
+    );
+    CREATE TABLE runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        pid INTEGER,
+        started_at TEXT NOT NULL,
+        finished_at TEXT,
+        status TEXT NOT NULL
+    );
+    CREATE TABLE wallet_evaluations (
+        key TEXT PRIMARY KEY,
+        address TEXT,
+        portfolio_id TEXT,
+        token_key TEXT NOT NULL,
+        token_name TEXT NOT NULL,
+        token_address TEXT,
+        trader_row INTEGER NOT NULL,
+        metrics TEXT NOT NULL,
+        rejection_rule TEXT,
+        rejection_reason TEXT,
+        evaluated_at TEXT NOT NULL,
+        run_id INTEGER REFERENCES runs (id)
+    );
+    CREATE INDEX wallet_evaluations_run ON wallet_evaluations (run_id);
+    CREATE TABLE stats (
+        name TEXT PRIMARY KEY,
+        value INTEGER NOT NULL
+    );
+    CREATE TABLE config (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+    );
+    `,
+    `
+    CREATE TABLE profiles (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        config TEXT NOT NULL,
+        active INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+    );
+    ALTER TABLE runs ADD COLUMN profile TEXT;
+    `,
+    `
+    ALTER TABLE portfolios ADD COLUMN roi_value REAL GENERATED ALWAYS AS (CAST(REPLACE(roi, '%', '') AS REAL));
+    ALTER TABLE portfolios ADD COLUMN pnl_value REAL GENERATED ALWAYS AS (CAST(pnl AS REAL));
+    ALTER TABLE portfolios ADD COLUMN change_seq INTEGER NOT NULL DEFAULT 0;
+    UPDATE portfolios SET change_seq = rowid;
+    CREATE INDEX portfolios_roi ON portfolios (roi_value);
+    CREATE INDEX portfolios_pnl ON portfolios (pnl_value);
+    CREATE INDEX portfolios_created ON portfolios (created_at);
+    CREATE INDEX portfolios_change ON portfolios (change_seq);
+    `,
+    `
+    ALTER TABLE portfolios ADD COLUMN review_status TEXT NOT NULL DEFAULT 'new';
+    ALTER TABLE portfolios ADD COLUMN tags TEXT NOT NULL DEFAULT '[]';
+    ALTER TABLE portfolios ADD COLUMN notes TEXT NOT NULL DEFAULT '';
+    ALTER TABLE portfolios ADD COLUMN reviewed_by TEXT;
+    ALTER TABLE portfolios ADD COLUMN reviewed_at TEXT;
+    CREATE INDEX portfolios_review_status ON portfolios (review_status);
+    `,
+    `
+    ALTER TABLE portfolios ADD COLUMN source TEXT;
+    ALTER TABLE portfolios ADD COLUMN imported_at TEXT;
+    CREATE TABLE portfolio_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        portfolio_id TEXT NOT NULL,
+        roi TEXT NOT NULL,
+        pnl TEXT NOT NULL,
+        link TEXT NOT NULL,
+        created_at TEXT,
+        source TEXT,
+        archived_at TEXT NOT NULL
+    );
+    CREATE INDEX portfolio_history_portfolio ON portfolio_history (portfolio_id);
+    `,
+    `
+    CREATE TABLE webhook_deliveries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        webhook_id TEXT NOT NULL,
+        webhook_name TEXT NOT NULL,
+        event TEXT NOT NULL,
+        portfolio_id TEXT NOT NULL,
+        test INTEGER NOT NULL,
+        attempt INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        response_status INTEGER,
+        error TEXT,
+        attempted_at TEXT NOT NULL
+    );
+    `,
+    `
+    CREATE TABLE wallet_tokens (
+        wallet_key TEXT NOT NULL,
+        portfolio_id TEXT,
+        token_key TEXT NOT NULL,
+        first_seen TEXT NOT NULL,
+        PRIMARY KEY (wallet_key, token_key)
+    );
+    CREATE INDEX wallet_tokens_portfolio ON wallet_tokens (portfolio_id);
+    INSERT INTO wallet_tokens (wallet_key, portfolio_id, token_key, first_seen)
+        SELECT key, COALESCE(portfolio_id, address), token_key, evaluated_at FROM wallet_evaluations;
+    `,
+];
+
+// Webhook delivery attempts kept in the log, older ones are deleted as new ones come in
+const WEBHOOK_DELIVERIES_KEPT = 500;
+
+// Columns GET /portfolios can sort by, roi and pnl are stored as text and sorted by their numeric value
+const PORTFOLIO_SORT_COLUMNS = { roi: 'roi_value', pnl: 'pnl_value', createdAt: 'created_at' };
+
+/**
+ * @param {import('better-sqlite3').Database} db
+ */
+function migrate(db) {
+    // The version is read under the write lock, so a process opening the database at the same time waits and then
+    // finds the migrations done instead of running them again
+    db.transaction(() => {
+        const version = /** @type {number} */ (db.pragma('user_version', { simple: true }));
+        MIGRATIONS.slice(version).forEach((sql) => db.exec(sql));
+        db.pragma(`user_version = ${MIGRATIONS.length}`);
+    }).immediate();
+}
+
+/**
+ * @param {string} file
+ * @returns {any}
+ */
+function readJson(file) {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+/**
+ * Import the JSON files written by older versions, each one once
+ * @param {ReturnType<typeof createStatements>} statements
+ * @param {string} dataDir
+ * @returns {string[]} The files that were imported
+ */
+function importJsonFiles(statements, dataDir) {
+    const imported = [];
+    const importFile = (name, load) => {
+        const file = path.join(dataDir, name);
+        if (!fs.existsSync(file)) return;
+        load(file);
+        fs.renameSync(file, `${file}.migrated`);
+        imported.push(name);
+    };
+
+    importFile('portfolios.json', (file) => {
+        for (const [id, portfolio] of Object.entries(readJson(file))) {
+            statements.insertPortfolio.run(portfolioRow(id, portfolio));
+        }
+    });
+    importFile('processed_tokens.json', (file) => {
+        const modified = fs.statSync(file).mtime.toISOString();
+        for (const [key, token] of Object.entries(normaliseProcessedTokens(readJson(file), modified))) {
+            statements.upsertToken.run(tokenRow(key, token));
+        }
+    });
+    importFile('wallets.json', (file) => {
+        for (const wallet of Object.values(readJson(file))) {
+            statements.upsertWallet.run(walletRow(wallet, null));
+        }
+    });
+    importFile('scraper_stats.json', (file) => {
+        for (const [name, value] of Object.entries(readJson(file))) {
+            if (Number.isFinite(Number(value))) statements.setStat.run({ name, value: Number(value) });
+        }
+    });
+    importFile('config.json', (file) => {
+        for (const [key, value] of Object.entries(readJson(file))) {
+            statements.setConfig.run({ key, value: JSON.stringify(value) });
+        }
+    });
+    return imported;
+}
+
+/**
+ * @param {string} id
+ * @param {Portfolio} portfolio
+ */
+function portfolioRow(id, portfolio) {
+    return {
+        id,
+        roi: String(portfolio.roi ?? ''),
+        pnl: String(portfolio.pnl ?? ''),
+        link: portfolio.link,
+        created_at: portfolio.createdAt ?? null,
+    };
+}
+
+/**
+ * @param {Record<string, any>} row
+ * @returns {Portfolio & { id: string }}
+ */
+function portfolioFromRow(row) {
+    return {
+        id: row.id,
+        roi: row.roi,
+        pnl: row.pnl,
+        link: row.link,
+        ...(row.created_at ? { createdAt: row.created_at } : {}),
+        ...(row.imported_at ? { source: row.source, importedAt: row.imported_at } : {}),
+        review: {
+            status: row.review_status,
+            tags: JSON.parse(row.tags),
+            notes: row.notes,
+            updatedBy: row.reviewed_by,
+            updatedAt: row.reviewed_at,
+        },
+    };
+}
+
+/**
+ * WHERE and ORDER BY clauses of a portfolio query, with their parameters
+ * @param {import('./portfolio-query.js').PortfolioQuery} query
+ */
+function portfolioFilter(query) {
+    const conditions = [];
+    const params = {};
+    if (query.search) {
+        conditions.push(`id LIKE @search ESCAPE '\\'`);
+        params.search = `%${query.search.replace(/[\\%_]/g, '\\$&')}%`;
+    }
+    if (query.status) {
+        conditions.push('review_status = @status');
+        params.status = query.status;
+    }
+    if (query.tag) {
+        conditions.push('EXISTS (SELECT 1 FROM json_each(portfolios.tags) WHERE value = @tag COLLATE NOCASE)');
+        params.tag = query.tag;
+    }
+    const ranges = [
+        ['roi_value >= @minRoi', 'minRoi'],
+        ['roi_value <= @maxRoi', 'maxRoi'],
+        ['pnl_value >= @minPnl', 'minPnl'],
+        ['pnl_value <= @maxPnl', 'maxPnl'],
+        ['created_at >= @createdFrom', 'createdFrom'],
+        ['created_at < @createdTo', 'createdTo'],
+    ];
+    for (const [condition, key] of ranges) {
+        if (query[key] === null) continue;
+        conditions.push(condition);
+        params[key] = query[key];
+    }
+    const order = query.order === 'asc' ? 'ASC' : 'DESC';
+    return {
+        where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+        orderBy: `ORDER BY ${PORTFOLIO_SORT_COLUMNS[query.sort]} ${order}, id ${order}`,
+        params,
+    };
+}
+
+/**
+ * @param {string} key
+ * @param {ProcessedToken} token
+ */
+function tokenRow(key, token) {
+    return {
+        key,
+        address: token.address,
+        name: token.name,
+        first_seen: token.firstSeen,
+        last_scanned: token.lastScanned,
+    };
+}
+
+/**
+ * @param {WalletRecord} wallet
+ * @param {number | null} runId
+ */
+function walletRow(wallet, runId) {
+    return {
+        key: walletRecordKey(wallet),
+        address: wallet.address,
+        portfolio_id: wallet.portfolioId,
+        token_key: wallet.token.key,
+        token_name: wallet.token.name,
+        token_address: wallet.token.address,
+        trader_row: wallet.row,
+        metrics: JSON.stringify(wallet.metrics),
+        rejection_rule: wallet.rejection?.ruleId ?? null,
+        rejection_reason: wallet.rejection?.reason ?? null,
+        evaluated_at: wallet.evaluatedAt,
+        run_id: runId,
+    };
+}
+
+/**
+ * @param {import('better-sqlite3').Database} db
+ */
+function createStatements(db) {
+    return {
+        // Every write moves change_seq past the others, so the server can send clients only what changed
+        insertPortfolio: db.prepare(
+            `INSERT OR IGNORE INTO portfolios (id, roi, pnl, link, created_at, change_seq)
+             VALUES (@id, @roi, @pnl, @link, @created_at, (SELECT COALESCE(MAX(change_seq), 0) + 1 FROM portfolios))`,
+        ),
+        upsertPortfolio: db.prepare(
+            `INSERT INTO portfolios (id, roi, pnl, link, created_at, change_seq)
+             VALUES (@id, @roi, @pnl, @link, @created_at, (SELECT COALESCE(MAX(change_seq), 0) + 1 FROM portfolios))
+             ON CONFLICT (id) DO UPDATE SET roi = excluded.roi, pnl = excluded.pnl, link = excluded.link,
+                 created_at = excluded.created_at, source = NULL, imported_at = NULL, change_seq = excluded.change_seq`,
+        ),
+        insertImportedPortfolio: db.prepare(
+            `INSERT INTO portfolios (id, roi, pnl, link, created_at, source, imported_at, review_status, tags, notes,
+                 reviewed_by, reviewed_at, change_seq)
+             VALUES (@id, @roi, @pnl, @link, @created_at, @source, @imported_at, @status, @tags, @notes, @updated_by,
+                 @updated_at, (SELECT COALESCE(MAX(change_seq), 0) + 1 FROM portfolios))`,
+        ),
+        updateImportedPortfolio: db.prepare(
+            `UPDATE portfolios SET roi = @roi, pnl = @pnl, link = @link, created_at = @created_at, source = @source,
+                 imported_at = @imported_at, change_seq = (SELECT MAX(change_seq) + 1 FROM portfolios)
+             WHERE id = @id`,
+        ),
+        insertPortfolioVersion: db.prepare(
+            `INSERT INTO portfolio_history (portfolio_id, roi, pnl, link, created_at, source, archived_at)
+             VALUES (@id, @roi, @pnl, @link, @created_at, @source, @archived_at)`,
+        ),
+        listPortfolioHistory: db.prepare('SELECT * FROM portfolio_history WHERE portfolio_id = ? ORDER BY id DESC'),
+        listPortfolios: db.prepare('SELECT * FROM portfolios ORDER BY created_at, id'),
+        getPortfolio: db.prepare('SELECT * FROM portfolios WHERE id = ?'),
+        updatePortfolioReview: db.prepare(
+            `UPDATE portfolios SET review_status = @status, tags = @tags, notes = @notes, reviewed_by = @updated_by,
+                 reviewed_at = @updated_at, change_seq = (SELECT MAX(change_seq) + 1 FROM portfolios)
+             WHERE id = @id`,
+        ),
+        listPortfolioStatuses: db.prepare('SELECT id, review_status FROM portfolios'),
+        portfolioChangesSince: db.prepare('SELECT * FROM portfolios WHERE change_seq > ? ORDER BY change_seq'),
+        lastPortfolioChange: db.prepare('SELECT COALESCE(MAX(change_seq), 0) AS seq FROM portfolios'),
+        // Rows of wallet_tokens are only added, so a rowid past the last one read is a token seen since
+        portfoliosListedSince: db.prepare(
+            `SELECT * FROM portfolios
+             WHERE id IN (SELECT portfolio_id FROM wallet_tokens WHERE rowid > @after AND rowid <= @until)`,
+        ),
+        lastWalletToken: db.prepare('SELECT COALESCE(MAX(rowid), 0) AS seq FROM wallet_tokens'),
+        upsertToken: db.prepare(
+            `INSERT INTO tokens (key, address, name, first_seen, last_scanned)
+             VALUES (@key, @address, @name, @first_seen, @last_scanned)
+             ON CONFLICT (key) DO UPDATE SET address = excluded.address, name = excluded.name,
+                 first_seen = excluded.first_seen, last_scanned = excluded.last_scanned`,
+        ),
+        listTokens: db.prepare('SELECT * FROM tokens'),
+        deleteToken: db.prepare('DELETE FROM tokens WHERE key = ?'),
+        clearTokens: db.prepare('DELETE FROM tokens'),
+        upsertWallet: db.prepare(
+            `INSERT OR REPLACE INTO wallet_evaluations (key, address, portfolio_id, token_key, token_name,
+                 token_address, trader_row, metrics, rejection_rule, rejection_reason, evaluated_at, run_id)
+             VALUES (@key, @address, @portfolio_id, @token_key, @token_name, @token_address, @trader_row, @metrics,
+                 @rejection_rule, @rejection_reason, @evaluated_at, @run_id)`,
+        ),
+        listWallets: db.prepare('SELECT * FROM wallet_evaluations'),
+        // A wallet's evaluation is replaced when another token lists it, the tokens that did are kept here
+        insertWalletToken: db.prepare(
+            `INSERT INTO wallet_tokens (wallet_key, portfolio_id, token_key, first_seen)
+             VALUES (@key, @portfolio_id, @token_key, @evaluated_at)
+             ON CONFLICT (wallet_key, token_key) DO UPDATE SET portfolio_id = COALESCE(excluded.portfolio_id, portfolio_id)`,
+        ),
+        setStat: db.prepare(
+            'INSERT INTO stats (name, value) VALUES (@name, @value) ON CONFLICT (name) DO UPDATE SET value = excluded.value',
+        ),
+        incrementStat: db.prepare(
+            `INSERT INTO stats (name, value) VALUES (?, 1) ON CONFLICT (name) DO UPDATE SET value = value + 1
+             RETURNING value`,
+        ),
+        listStats: db.prepare('SELECT name, value FROM stats'),
+        setConfig: db.prepare(
+            'INSERT INTO config (key, value) VALUES (@key, @value) ON CONFLICT (key) DO UPDATE SET value = excluded.value',
+        ),
+        clearConfig: db.prepare('DELETE FROM config'),
+        listConfig: db.prepare('SELECT key, value FROM config'),
+        interruptRuns: db.prepare(
+            "UPDATE runs SET status = 'interrupted', finished_at = @now WHERE status = 'running'",
+        ),
+        insertRun: db.prepare(
+            "INSERT INTO runs (pid, started_at, status, profile) VALUES (@pid, @now, 'running', @profile)",
+        ),
+        finishRun: db.prepare('UPDATE runs SET status = @status, finished_at = @now WHERE id = @id'),
+        listRuns: db.prepare(
+            `SELECT runs.*, (SELECT count(*) FROM wallet_evaluations WHERE run_id = runs.id) AS wallets_checked
+             FROM runs ORDER BY id DESC LIMIT ?`,
+        ),
+        insertWebhookDelivery: db.prepare(
+            `INSERT INTO webhook_deliveries (webhook_id, webhook_name, event, portfolio_id, test, attempt, status,
+                 response_status, error, attempted_at)
+             VALUES (@webhook_id, @webhook_name, @event, @portfolio_id, @test, @attempt, @status, @response_status,
+                 @error, @attempted_at)`,
+        ),
+        pruneWebhookDeliveries: db.prepare('DELETE FROM webhook_deliveries WHERE id <= ?'),
+        listWebhookDeliveries: db.prepare('SELECT * FROM webhook_deliveries ORDER BY id DESC LIMIT ?'),
+        listProfiles: db.prepare('SELECT * FROM profiles ORDER BY name'),
+        getProfile: db.prepare('SELECT * FROM profiles WHERE id = ?'),
+        insertProfile: db.prepare(
+            `INSERT INTO profiles (name, config, created_at, updated_at) VALUES (@name, @config, @now, @now)`,
+        ),
+        updateProfile: db.prepare(
+            `UPDATE profiles SET name = coalesce(@name, name), config = coalesce(@config, config), updated_at = @now
+             WHERE id = @id`,
+        ),
+        deleteProfile: db.prepare('DELETE FROM profiles WHERE id = ?'),
+        clearActiveProfile: db.prepare('UPDATE profiles SET active = 0'),
+        setActiveProfile: db.prepare('UPDATE profiles SET active = 1 WHERE id = ?'),
+    };
+}
+
+/**
+ * @param {any} row
+ * @returns {Profile}
+ */
+function profileFromRow(row) {
+    return {
+        id: row.id,
+        name: row.name,
+        config: JSON.parse(row.config),
+        active: row.active === 1,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    };
+}
+
+/**
+ * Open the store in a data directory, creating the database and importing the old JSON files on first use
+ * @param {string} dataDir
+ */
+export function openStore(dataDir) {
+    const db = new Database(path.join(dataDir, DATABASE_FILE_NAME));
+    db.pragma('journal_mode = WAL');
+    // The scraper and the server write from separate processes, wait for the other's transaction to finish
+    db.pragma('busy_timeout = 5000');
+    migrate(db);
+
+    const statements = createStatements(db);
+    const imported = db.transaction(() => importJsonFiles(statements, dataDir)).immediate();
+    if (imported.length > 0) {
+        console.log(`Imported ${imported.join(', ')} into ${DATABASE_FILE_NAME}`);
+    }
+
+    return {
+        /**
+         * Every accepted wallet, keyed by portfolio id
+         * @returns {Record<string, Portfolio>}
+         */
+        listPortfolios() {
+            return Object.fromEntries(
+                statements.listPortfolios.all().map((row) => {
+                    const { id, ...portfolio } = portfolioFromRow(row);
+                    return [id, portfolio];
+                }),
+            );
+        },
+
+        /**
+         * One page of the accepted wallets that match a query, with the number of matches
+         * @param {import('./portfolio-query.js').PortfolioQuery} query
+         * @returns {{ items: Array<Portfolio & { id: string }>, total: number }}
+         */
+        queryPortfolios(query) {
+            const { where, orderBy, params } = portfolioFilter(query);
+            const { total } = db.prepare(`SELECT COUNT(*) AS total FROM portfolios ${where}`).get(params);
+            const rows = db
+                .prepare(`SELECT * FROM portfolios ${where} ${orderBy} LIMIT @limit OFFSET @offset`)
+                .all({ ...params, limit: query.pageSize, offset: (query.page - 1) * query.pageSize });
+            return { items: rows.map(portfolioFromRow), total };
+        },
+
+        /**
+         * Every accepted wallet that matches a query, ignoring its page, read one at a time
+         * @param {import('./portfolio-query.js').PortfolioQuery} query
+         * @returns {Generator<Portfolio & { id: string }>}
+         */
+        *iteratePortfolios(query) {
+            const { where, orderBy, params } = portfolioFilter(query);
+            for (const row of db.prepare(`SELECT * FROM portfolios ${where} ${orderBy}`).iterate(params)) {
+                yield portfolioFromRow(row);
+            }
+        },
+
+        /**
+         * Change the review of an accepted wallet, the fields left out stay as they are
+         * @param {string} id
+         * @param {Partial<Pick<PortfolioReview, 'status' | 'tags' | 'notes'>>} changes
+         * @param {string} updatedBy Name of the access token
+         * @returns {(Portfolio & { id: string }) | null} The updated portfolio, null when there is none with the id
+         */
+        updatePortfolioReview(id, changes, updatedBy) {
+            return db
+                .transaction(() => {
+                    const row = statements.getPortfolio.get(id);
+                    if (!row) return null;
+                    statements.updatePortfolioReview.run({
+                        id,
+                        status: changes.status ?? row.review_status,
+                        tags: JSON.stringify(changes.tags ?? JSON.parse(row.tags)),
+                        notes: changes.notes ?? row.notes,
+                        updated_by: updatedBy,
+                        updated_at: new Date().toISOString(),
+                    });
+                    return portfolioFromRow(statements.getPortfolio.get(id));
+                })
+                .immediate();
+        },
+
+        /**
+         * Merge portfolios imported from another instance. Reviews are only taken for portfolios that are new here.
+         * A dry run works out the same counts without writing anything
+         * @param {import('./portfolio-import.js').ImportedPortfolio[]} portfolios
+         * @param {{ policy: string, source: string | null, dryRun?: boolean }} options The source is used for
+         *   portfolios that do not name one
+         * @returns {{ added: number, updated: number, skipped: number, archived: number }} archived counts the
+         *   versions kept in the history, whether the current values or the imported ones
+         */
+        importPortfolios(portfolios, { policy, source, dryRun = false }) {
+            const counts = { added: 0, updated: 0, skipped: 0, archived: 0 };
+            const importedAt = new Date().toISOString();
+            const merge = () => {
+                // A file can have a portfolio more than once, later records merge into what the earlier ones left
+                const merged = new Map();
+                for (const portfolio of portfolios) {
+                    const row = statements.getPortfolio.get(portfolio.id);
+                    const existing = merged.get(portfolio.id) ?? (row ? portfolioFromRow(row) : null);
+                    const incoming = { ...portfolio, source: portfolio.source ?? source };
+                    const action = planPortfolioMerge(existing, incoming, policy);
+                    const archivePolicy = policy === 'history';
+                    if (action === 'add') counts.added++;
+                    else if (action === 'skip') counts.skipped++;
+                    else if (action === 'update') counts.updated++;
+                    if (action === 'archive' || (action === 'update' && archivePolicy)) counts.archived++;
+                    if (action === 'add' || action === 'update') merged.set(portfolio.id, incoming);
+                    if (dryRun || action === 'skip') continue;
+
+                    const values = { ...portfolioRow(portfolio.id, incoming), source: incoming.source };
+                    if (action === 'archive') {
+                        statements.insertPortfolioVersion.run({ ...values, archived_at: importedAt });
+                    } else if (action === 'update') {
+                        if (archivePolicy) {
+                            statements.insertPortfolioVersion.run({
+                                ...portfolioRow(portfolio.id, existing),
+                                source: existing.source ?? null,
+                                archived_at: importedAt,
+                            });
+                        }
+                        statements.updateImportedPortfolio.run({ ...values, imported_at: importedAt });
+                    } else {
+                        const review = incoming.review;
+                        statements.insertImportedPortfolio.run({
+                            ...values,
+                            imported_at: importedAt,
+                            status: review?.status ?? 'new',
+                            tags: JSON.stringify(review?.tags ?? []),
+                            notes: review?.notes ?? '',
+                            updated_by: review?.updatedBy ?? null,
+                            updated_at: review?.updatedAt ?? null,
+                        });
+                    }
+                }
+            };
+            if (dryRun) db.transaction(merge)();
+            else db.transaction(merge).immediate();
+            return counts;
+        },
+
+        /**
+         * Earlier and imported versions of an accepted wallet, the latest first
+         * @param {string} id
+         * @returns {PortfolioVersion[]}
+         */
+        listPortfolioHistory(id) {
+            return statements.listPortfolioHistory.all(id).map((row) => ({
+                roi: row.roi,
+                pnl: row.pnl,
+                link: row.link,
+                createdAt: row.created_at,
+                source: row.source,
+                archivedAt: row.archived_at,
+            }));
+        },
+
+        /**
+         * Accepted wallets added or changed after `seq`, and the seq to ask from next time
+         * @param {number} seq
+         * @returns {{ portfolios: Array<Portfolio & { id: string }>, seq: number }}
+         */
+        portfolioChangesSince(seq) {
+            const rows = statements.portfolioChangesSince.all(seq);
+            return { portfolios: rows.map(portfolioFromRow), seq: rows.at(-1)?.change_seq ?? seq };
+        },
+
+        /**
+         * Review status of every accepted wallet, to tell new portfolios and status changes apart in the changes
+         * @returns {Map<string, string>}
+         */
+        portfolioStatuses() {
+            return new Map(statements.listPortfolioStatuses.all().map((row) => [row.id, row.review_status]));
+        },
+
+        /** @returns {number} The seq of the latest change to the portfolios */
+        lastPortfolioChange() {
+            return statements.lastPortfolioChange.get().seq;
+        },
+
+        /**
+         * Accepted wallets that another token listed after `seq`, which changes their token count but not their
+         * row, and the seq to ask from next time
+         * @param {number} seq
+         * @returns {{ portfolios: Array<Portfolio & { id: string }>, seq: number }}
+         */
+        portfoliosListedSince(seq) {
+            const until = statements.lastWalletToken.get().seq;
+            if (until === seq) return { portfolios: [], seq };
+            const rows = statements.portfoliosListedSince.all({ after: seq, until });
+            return { portfolios: rows.map(portfolioFromRow), seq: until };
+        },
+
+        /** @returns {number} The seq of the latest token a wallet was listed by */
+        lastWalletToken() {
+            return statements.lastWalletToken.get().seq;
+        },
+
+        /**
+         * Save an accepted wallet. Without `overwrite` an existing entry is kept.
+         * @param {string} id
+         * @param {Portfolio} portfolio
+         * @param {{ overwrite?: boolean }} [options]
+         * @returns {boolean} Whether the entry was written
+         */
+        savePortfolio(id, portfolio, { overwrite = true } = {}) {
+            const statement = overwrite ? statements.upsertPortfolio : statements.insertPortfolio;
+            return statement.run(portfolioRow(id, portfolio)).changes > 0;
+        },
+
+        /** @returns {ProcessedTokens} */
+        loadProcessedTokens() {
+            return Object.fromEntries(
+                statements.listTokens.all().map((row) => [
+                    row.key,
+                    {
+                        address: row.address,
+                        name: row.name,
+                        firstSeen: row.first_seen,
+                        lastScanned: row.last_scanned,
+                    },
+                ]),
+            );
+        },
+
+        /**
+         * @param {string} key
+         * @param {ProcessedToken} token
+         */
+        saveProcessedToken(key, token) {
+            statements.upsertToken.run(tokenRow(key, token));
+        },
+
+        /**
+         * @param {string} key
+         * @returns {boolean} Whether the token was known
+         */
+        deleteProcessedToken(key) {
+            return statements.deleteToken.run(key).changes > 0;
+        },
+
+        /** @returns {number} How many tokens were cleared */
+        clearProcessedTokens() {
+            return statements.clearTokens.run().changes;
+        },
+
+        /**
+         * Store an evaluated wallet, replacing an earlier evaluation of it
+         * @param {WalletRecord} wallet
+         * @param {number | null} [runId]
+         */
+        recordWallet: db.transaction((wallet, runId = null) => {
+            const row = walletRow(wallet, runId);
+            statements.upsertWallet.run(row);
+            statements.insertWalletToken.run({ ...row, portfolio_id: wallet.portfolioId || wallet.address });
+        }),
+
+        /**
+         * Number of tokens whose top traders listed each wallet, by the id its portfolio has or would have
+         * @param {string[]} [ids] Only these portfolios, all of them when left out
+         * @returns {Map<string, number>}
+         */
+        portfolioTokenCounts(ids) {
+            const where = ids ? 'WHERE portfolio_id IN (SELECT value FROM json_each(@ids))' : '';
+            const rows = db
+                .prepare(
+                    `SELECT portfolio_id, COUNT(DISTINCT token_key) AS tokens FROM wallet_tokens ${where}
+                     GROUP BY portfolio_id`,
+                )
+                .all(ids ? { ids: JSON.stringify(ids) } : {});
+            return new Map(rows.map((row) => [row.portfolio_id, row.tokens]));
+        },
+
+        /** @returns {WalletRecords} */
+        loadWallets() {
+            return Object.fromEntries(
+                statements.listWallets.all().map((row) => [
+                    row.key,
+                    {
+                        address: row.address,
+                        portfolioId: row.portfolio_id,
+                        token: { key: row.token_key, name: row.token_name, address: row.token_address },
+                        row: row.trader_row,
+                        metrics: JSON.parse(row.metrics),
+                        rejection: row.rejection_rule
+                            ? { ruleId: row.rejection_rule, reason: row.rejection_reason ?? '' }
+                            : null,
+                        evaluatedAt: row.evaluated_at,
+                    },
+                ]),
+            );
+        },
+
+        /** @returns {{ portfoliosChecked: number }} */
+        getStats() {
+            const stats = Object.fromEntries(statements.listStats.all().map((row) => [row.name, row.value]));
+            return { portfoliosChecked: 0, ...stats };
+        },
+
+        /**
+         * @param {string} name
+         * @returns {number} The new value
+         */
+        incrementStat(name) {
+            return statements.incrementStat.get(name).value;
+        },
+
+        /**
+         * The saved configuration, null before it is first saved
+         * @returns {Record<string, unknown> | null}
+         */
+        loadConfig() {
+            const rows = statements.listConfig.all();
+            return rows.length > 0 ? Object.fromEntries(rows.map((row) => [row.key, JSON.parse(row.value)])) : null;
+        },
+
+        /**
+         * Replace the saved configuration
+         * @param {Record<string, unknown>} config
+         */
+        saveConfig: db.transaction((config) => {
+            statements.clearConfig.run();
+            for (const [key, value] of Object.entries(config)) {
+                if (value !== undefined) statements.setConfig.run({ key, value: JSON.stringify(value) });
+            }
+        }),
+
+        /**
+         * Start a scraper run. Runs still marked as running were cut off without finishing.
+         * @param {string | null} [profile] Name of the config profile the run uses
+         * @returns {number} The run id
+         */
+        startRun: db.transaction((profile = null) => {
+            const now = new Date().toISOString();
+            statements.interruptRuns.run({ now });
+            return Number(statements.insertRun.run({ pid: process.pid, now, profile }).lastInsertRowid);
+        }),
+
+        /**
+         * @param {number} id
+         * @param {'finished' | 'failed' | 'interrupted'} status
+         */
+        finishRun(id, status) {
+            statements.finishRun.run({ id, status, now: new Date().toISOString() });
+        },
+
+        /**
+         * Most recent runs first
+         * @param {number} [limit]
+         * @returns {Run[]}
+         */
+        listRuns(limit = 20) {
+            return statements.listRuns.all(limit).map((row) => ({
+                id: row.id,
+                pid: row.pid,
+                startedAt: row.started_at,
+                finishedAt: row.finished_at,
+                status: row.status,
+                profile: row.profile,
+                walletsChecked: row.wallets_checked,
+            }));
+        },
+
+        /**
+         * Add an attempt to the webhook delivery log
+         * @param {import('./webhooks.js').WebhookDelivery} delivery
+         * @returns {import('./webhooks.js').WebhookDelivery & { id: number }}
+         */
+        recordWebhookDelivery: db.transaction((delivery) => {
+            const { lastInsertRowid } = statements.insertWebhookDelivery.run({
+                webhook_id: delivery.webhookId,
+                webhook_name: delivery.webhookName,
+                event: delivery.event,
+                portfolio_id: delivery.portfolioId,
+                test: delivery.test ? 1 : 0,
+                attempt: delivery.attempt,
+                status: delivery.status,
+                response_status: delivery.responseStatus,
+                error: delivery.error,
+                attempted_at: delivery.attemptedAt,
+            });
+            const id = Number(lastInsertRowid);
+            statements.pruneWebhookDeliveries.run(id - WEBHOOK_DELIVERIES_KEPT);
+            return { id, ...delivery };
+        }),
+
+        /**
+         * Most recent delivery attempts first
+         * @param {number} [limit]
+         * @returns {Array<import('./webhooks.js').WebhookDelivery & { id: number }>}
+         */
+        listWebhookDeliveries(limit = 100) {
+            return statements.listWebhookDeliveries.all(limit).map((row) => ({
+                id: row.id,
+                webhookId: row.webhook_id,
+                webhookName: row.webhook_name,
+                event: row.event,
+                portfolioId: row.portfolio_id,
+                test: row.test === 1,
+                attempt: row.attempt,
+                status: row.status,
+                responseStatus: row.response_status,
+                error: row.error,
+                attemptedAt: row.attempted_at,
+            }));
+        },
+
+        /** @returns {Profile[]} */
+        listProfiles() {
+            return statements.listProfiles.all().map(profileFromRow);
+        },
+
+        /**
+         * @param {number} id
+         * @returns {Profile | null}
+         */
+        getProfile(id) {
+            const row = statements.getProfile.get(id);
+            return row ? profileFromRow(row) : null;
+        },
+
+        /**
+         * Save a new profile. Throws when the name is taken
+         * @param {string} name
+         * @param {Record<string, unknown>} config
+         * @returns {Profile}
+         */
+        createProfile(name, config) {
+            const now = new Date().toISOString();
+            const { lastInsertRowid } = statements.insertProfile.run({ name, config: JSON.stringify(config), now });
+            return this.getProfile(Number(lastInsertRowid));
+        },
+
+        /**
+         * Rename a profile or replace its settings. Throws when the new name is taken
+         * @param {number} id
+         * @param {{ name?: string, config?: Record<string, unknown> }} changes
+         * @returns {Profile | null} Null for an unknown profile
+         */
+        updateProfile(id, { name, config }) {
+            statements.updateProfile.run({
+                id,
+                name: name ?? null,
+                config: config ? JSON.stringify(config) : null,
+                now: new Date().toISOString(),
+            });
+            return this.getProfile(id);
+        },
+
+        /**
+         * @param {number} id
+         * @returns {boolean} Whether the profile existed
+         */
+        deleteProfile(id) {
+            return statements.deleteProfile.run(id).changes > 0;
+        },
+
+        /**
+         * Mark a profile as the one the saved configuration belongs to
+         * @param {number} id
+         * @returns {boolean} Whether the profile exists
+         */
+        activateProfile: db.transaction((id) => {
+            if (!statements.getProfile.get(id)) return false;
+            statements.clearActiveProfile.run();
+            return statements.setActiveProfile.run(id).changes > 0;
+        }),
+
+        /**
+         * Changes whenever another process commits, so callers can poll for the scraper's writes
+         * @returns {number}
+         */
+        dataVersion() {
+            return /** @type {number} */ (db.pragma('data_version', { simple: true }));
+        },
+
+        close() {
+            db.close();
+        },
+    };
+}
+
+/** @typedef {ReturnType<typeof openStore>} Store */
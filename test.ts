@@ -1,9 +1,36 @@
-import { existsSync, readFileSync, writeFileSync } from 'fs';
 import path from 'path';
-import { chromium } from 'playwright';
+import { chromium, type BrowserContext, type Page } from 'playwright';
 import fs from 'fs';
+import readline from 'readline';
 import { fileURLToPath } from 'url';
 import dotenv from 'dotenv';
+import { createResponseCapture, walletAddressFromLink, type ExtractionMode } from './capture';
+import { ParseError, parseCount, parseCurrencyIn, parseDuration, tradeAgeGroup, type TradeAgeGroup } from './parsers';
+import { evaluateFilterRules, resolveFilterRules, type FilterRule, type WalletMetrics } from './filters.js';
+import { fillSelector, loadSelectors, toXPath } from './selectors';
+import {
+    findProcessedToken,
+    isScanDue,
+    processedTokenKey,
+    tokenAddressFromLink,
+    type ProcessedTokens,
+} from './processed-tokens.js';
+import {
+    checkTokenFilters,
+    resolveTokenFilters,
+    resolveTokenSort,
+    sortTokens,
+    TOKEN_COLUMNS,
+    type TokenFilters,
+    type TokenSort,
+    type TokenStats,
+} from './token-filters.js';
+import { type WalletRecord } from './wallets.js';
+import { openStore } from './store.js';
+import { formatProgressEvent, type ProgressEvent } from './scraper-progress.js';
+import { configFromEnv } from './config-schema.js';
+import { changedFixedSettings, describeFilterRuleChanges, parseConfigUpdate } from './config-updates.js';
+import { applyScheduleOverrides, parseScheduleOverrides } from './schedules.js';
 
 // Load environment variables
 dotenv.config();
@@ -12,232 +39,464 @@ dotenv.config();
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// Environment variables with fallback values
-const MIN_PNL = Number(process.env.MIN_PNL) || 25000;
-const MIN_ROI = Number(process.env.MIN_ROI) || 2000;
-const MAX_TOKENS_TO_PROCESS = Number(process.env.MAX_TOKENS_TO_PROCESS) || 10;
-const MAX_TRADERS_PER_TOKEN = Number(process.env.MAX_TRADERS_PER_TOKEN) || 20;
-const START_FROM_ROW = Number(process.env.START_FROM_ROW) || 3;
-const CHROME_DEBUG_PORT = Number(process.env.CHROME_DEBUG_PORT) || 9222;
-const BASE_URL = process.env.BASE_URL || 'https://neo.bullx.io';
-
-// Get the host IP from environment variable or use default
-const HOST_IP = process.env.HOST_IP || 'localhost';
-
-const PROCESSED_TOKENS_FILE = path.join(__dirname, 'processed_tokens.json');
-
-// Add stats file path and functions
-const STATS_FILE = path.join(__dirname, 'scraper_stats.json');
+// Settings from the environment, checked against the config schema shared with the server and the dashboard
+const { config: settings, errors: settingErrors } = configFromEnv(process.env);
+for (const [key, error] of Object.entries(settingErrors)) {
+    console.warn(`Warning: ${key}: ${error}`);
+}
+const MAX_TOKENS_TO_PROCESS = settings.MAX_TOKENS_TO_PROCESS;
+const MAX_TRADERS_PER_TOKEN = settings.MAX_TRADERS_PER_TOKEN;
+const START_FROM_ROW = settings.START_FROM_ROW;
+const CHROME_DEBUG_PORT = settings.CHROME_DEBUG_PORT;
+const BASE_URL = settings.BASE_URL;
+const EXTRACTION_MODE: ExtractionMode = settings.EXTRACTION_MODE;
+// Number of browser pages scanning tokens side by side
+const WORKER_COUNT = settings.WORKER_COUNT;
+// Hours before a processed token's top traders are scanned again, 0 never re-scans
+const RESCAN_TTL_HOURS = settings.RESCAN_TTL_HOURS;
+// Keep extracting a rejected wallet's metrics so looser thresholds can be re-applied to all of them later
+const EXTRACT_ALL_METRICS = settings.EXTRACT_ALL_METRICS;
+const HOST_IP = settings.HOST_IP;
+
+// Directory holding the JSON data files, overridable so test runs do not touch real data
+const DATA_DIR = process.env.DATA_DIR || __dirname;
+
+const CHECKPOINT_FILE = path.join(DATA_DIR, 'scraper_checkpoint.json');
+const WORKERS_FILE = path.join(DATA_DIR, 'scraper_workers.json');
+
+// Portfolios, processed tokens, wallet evaluations, runs, stats and config, shared with the server
+const store = openStore(DATA_DIR);
+
+// Config profile the server started this run with. Its saved settings are used instead of the saved configuration,
+// the server passes the .env-style ones as environment variables
+const profileId = Number(process.env.SCRAPER_PROFILE_ID) || null;
+const profile = profileId ? store.getProfile(profileId) : null;
+if (profileId && !profile)
+    console.warn(`Warning: config profile ${profileId} not found, using the saved configuration`);
+
+// Overrides of the scheduled run this is, they win over the saved config and the profile
+const scheduleOverrides = parseScheduleOverrides(process.env);
+
+// Page selectors, loaded from selectors.json so a BullX UI change does not need a code change
+const selectorRegistry = loadSelectors();
+const selectors = selectorRegistry.selectors;
+
+// Progress through the tokens that are being scanned, keyed like the processed tokens, so an interrupted run can pick
+// up where each worker stopped
+interface TokenCheckpoint {
+    lastCompletedRow: number;
+    updatedAt: string;
+}
+type Checkpoints = Record<string, TokenCheckpoint>;
 
-// Function to load processed token names from JSON file
-function loadProcessedTokens(): Set<string> {
+// Function to load the checkpoints left by the previous run
+function loadCheckpoints(): Checkpoints {
     try {
-        if (fs.existsSync(PROCESSED_TOKENS_FILE)) {
-            const data = fs.readFileSync(PROCESSED_TOKENS_FILE, 'utf8');
-            return new Set(JSON.parse(data));
+        if (fs.existsSync(CHECKPOINT_FILE)) {
+            const data = JSON.parse(fs.readFileSync(CHECKPOINT_FILE, 'utf8'));
+            // Single-token checkpoint written before the scraper ran several workers
+            if (typeof data.token === 'string') {
+                return data.state === 'in-progress'
+                    ? { [data.token]: { lastCompletedRow: data.lastCompletedRow, updatedAt: data.updatedAt } }
+                    : {};
+            }
+            return data;
         }
     } catch (error) {
-        console.error('Error loading processed tokens:', error);
+        console.error('Error loading checkpoint:', error);
     }
-    return new Set<string>();
+    return {};
 }
 
-// Function to save processed token names to JSON file
-function saveProcessedTokens(tokens: Set<string>): void {
+// Function to save the checkpoints. Written to a temp file and renamed so a crash never leaves half a file
+function saveCheckpoints(checkpoints: Checkpoints): void {
     try {
-        fs.writeFileSync(PROCESSED_TOKENS_FILE, JSON.stringify(Array.from(tokens)), 'utf8');
+        const tempFile = `${CHECKPOINT_FILE}.tmp`;
+        fs.writeFileSync(tempFile, JSON.stringify(checkpoints, null, 2));
+        fs.renameSync(tempFile, CHECKPOINT_FILE);
     } catch (error) {
-        console.error('Error saving processed tokens:', error);
+        console.error('Error saving checkpoint:', error);
     }
 }
 
-// Function to increment portfolios checked
-function incrementPortfoliosChecked(): void {
+// A token row on the explore page
+interface ListedToken {
+    key: string;
+    name: string;
+    address: string | null;
+    stats: TokenStats;
+}
+
+// Which explore tokens are worth scanning and in what order, from TOKEN_FILTERS/TOKEN_SORT in the saved config
+interface TokenSelection {
+    filters: TokenFilters;
+    sort: TokenSort | null;
+}
+
+// Shared by the workers: hands every due token that passes the token filters to exactly one worker, half-scanned
+// tokens from the last run first, and stops after MAX_TOKENS_TO_PROCESS. All workers run in this process and the checkpoints
+// and store are written with synchronous calls, so concurrent workers cannot interleave their writes
+function createTokenQueue(processedTokens: ProcessedTokens, checkpoints: Checkpoints, selection: TokenSelection) {
+    const claimed = new Set<string>();
+    const skipped = new Set<string>();
+
+    // Every worker reads the same table, so each skipped token is only logged once
+    const passesFilters = (token: ListedToken) => {
+        const reason = checkTokenFilters(token.stats, selection.filters);
+        if (reason && !skipped.has(token.key)) {
+            skipped.add(token.key);
+            console.log(`Skipping token "${token.name}": ${reason}`);
+        }
+        return !reason;
+    };
+
+    return {
+        // Pick the next token among the rows listed on the explore page
+        claim(listedTokens: ListedToken[]): (ListedToken & { index: number; resumeAfterRow?: number }) | null {
+            for (const key of Object.keys(checkpoints)) {
+                if (!claimed.has(key) && !listedTokens.some((token) => token.key === key)) {
+                    console.log(`Token "${key}" from the checkpoint is no longer listed, skipping it`);
+                    delete checkpoints[key];
+                    saveCheckpoints(checkpoints);
+                }
+            }
+            if (claimed.size >= MAX_TOKENS_TO_PROCESS) return null;
+
+            const isFree = (token: ListedToken) =>
+                !claimed.has(token.key) &&
+                isScanDue(findProcessedToken(processedTokens, token.address, token.name), RESCAN_TTL_HOURS);
+            const candidates = sortTokens(listedTokens.filter(passesFilters), selection.sort);
+            const token =
+                candidates.find((entry) => isFree(entry) && checkpoints[entry.key]) ?? candidates.find(isFree);
+            if (!token) return null;
+            claimed.add(token.key);
+
+            // Start the record, carrying over a name-only record once the address is known
+            const previous = findProcessedToken(processedTokens, token.address, token.name);
+            const nameKey = processedTokenKey(null, token.name);
+            if (nameKey !== token.key && processedTokens[nameKey]) {
+                delete processedTokens[nameKey];
+                store.deleteProcessedToken(nameKey);
+            }
+            processedTokens[token.key] = {
+                address: token.address,
+                name: token.name,
+                firstSeen: previous?.firstSeen ?? new Date().toISOString(),
+                lastScanned: previous?.lastScanned ?? null,
+            };
+            store.saveProcessedToken(token.key, processedTokens[token.key]);
+
+            return { ...token, index: claimed.size, resumeAfterRow: checkpoints[token.key]?.lastCompletedRow };
+        },
+
+        // Record the last trader row looked at for a token
+        progress(key: string, lastCompletedRow: number): void {
+            checkpoints[key] = { lastCompletedRow, updatedAt: new Date().toISOString() };
+            saveCheckpoints(checkpoints);
+        },
+
+        // Tokens only count as scanned once every trader row has been looked at
+        complete(key: string): void {
+            processedTokens[key].lastScanned = new Date().toISOString();
+            store.saveProcessedToken(key, processedTokens[key]);
+            delete checkpoints[key];
+            saveCheckpoints(checkpoints);
+        },
+    };
+}
+
+type TokenQueue = ReturnType<typeof createTokenQueue>;
+
+// What each worker is doing, written to WORKERS_FILE for the server's /scraper/status
+interface WorkerStatus {
+    id: number;
+    state: 'starting' | 'scanning' | 'idle' | 'finished' | 'failed';
+    token?: string;
+    row?: number;
+    maxRow: number;
+    tokensProcessed: number;
+    updatedAt: string;
+}
+
+const workerStatuses = new Map<number, WorkerStatus>();
+
+// Function to update a worker's status and write all of them to the workers file
+function reportWorker(id: number, changes: Partial<Omit<WorkerStatus, 'id' | 'updatedAt'>>): void {
+    const previous = workerStatuses.get(id) ?? {
+        id,
+        state: 'starting',
+        maxRow: MAX_TRADERS_PER_TOKEN,
+        tokensProcessed: 0,
+    };
+    workerStatuses.set(id, { ...previous, ...changes, updatedAt: new Date().toISOString() });
     try {
-        console.log('Loading current stats...');
-        const stats = loadStats();
-        console.log(`Current portfolios checked: ${stats.portfoliosChecked}`);
-        stats.portfoliosChecked++;
-        console.log(`Saving updated count: ${stats.portfoliosChecked}`);
-        saveStats(stats);
-        console.log('Stats saved successfully');
+        const tempFile = `${WORKERS_FILE}.tmp`;
+        const content = {
+            pid: process.pid,
+            updatedAt: new Date().toISOString(),
+            workers: [...workerStatuses.values()],
+        };
+        fs.writeFileSync(tempFile, JSON.stringify(content, null, 2));
+        fs.renameSync(tempFile, WORKERS_FILE);
     } catch (error) {
-        console.error('Error in incrementPortfoliosChecked:', error);
+        console.error('Error saving worker status:', error);
     }
 }
 
-// Function to load stats
-function loadStats(): { portfoliosChecked: number } {
+// Function to write a progress event for the server's run progress, as a line of its own on stdout
+function emitProgress(event: ProgressEvent): void {
+    console.log(formatProgressEvent(event));
+}
+
+// Function to turn a dollar value read from the page into a number, naming the field when it cannot be parsed
+function toDollars(text: string | null, label: string): number {
+    const result = parseCurrencyIn(text || '');
+    if (!result.ok) {
+        throw new ParseError(`Could not read ${label} (${result.error.message})`, text || '');
+    }
+    return result.value.value;
+}
+
+// Wallet filter pipeline and the config it was resolved from, replaced when the server sends a saved config
+let filterRules: FilterRule[] = [];
+let runConfig: Record<string, unknown> = {};
+
+// Function to load the saved config, or the run's profile, for the settings that do not fit in .env, over
+// MIN_PNL/MIN_ROI from .env and under the overrides of a scheduled run
+function loadConfig(): Record<string, unknown> {
+    return applyScheduleOverrides(
+        { MIN_PNL: settings.MIN_PNL, MIN_ROI: settings.MIN_ROI, ...(profile?.config ?? store.loadConfig()) },
+        scheduleOverrides,
+    );
+}
+
+// Function to take in a config the server sent after it was saved. The filter rules are replaced, the other
+// settings stay as they were when the run started and a change to them is only logged
+function applyConfigUpdate(update: Record<string, unknown>): void {
+    const config = applyScheduleOverrides(
+        { MIN_PNL: settings.MIN_PNL, MIN_ROI: settings.MIN_ROI, ...update },
+        scheduleOverrides,
+    );
+    const rules = resolveFilterRules(config);
+    const changes = describeFilterRuleChanges(filterRules, rules);
+    const fixed = changedFixedSettings(runConfig, config);
+    filterRules = rules;
+    runConfig = config;
+    console.log(
+        changes.length > 0
+            ? `Config reloaded, filter rules changed: ${changes.join(', ')}`
+            : 'Config reloaded, filter rules unchanged',
+    );
+    if (fixed.length > 0) console.log(`Config reloaded, kept until the next run: ${fixed.join(', ')}`);
+}
+
+// Function to listen for configs on stdin, where the server sends them to the scraper it started
+function listenForConfigUpdates(): void {
+    if (process.stdin.isTTY) return;
+    readline.createInterface({ input: process.stdin }).on('line', (line) => {
+        const update = parseConfigUpdate(line);
+        if (update) applyConfigUpdate(update);
+    });
+    // Waiting for configs does not keep a finished run alive
+    process.stdin.unref();
+}
+
+// Function to find which explore table cell holds each token column, from the header labels
+async function readExploreColumns(page: Page): Promise<Partial<Record<keyof TokenStats, number>>> {
+    const headers = await page.$$eval(selectors.exploreHeaderCell, (cells) =>
+        cells.map((cell) => cell.textContent?.trim() || ''),
+    );
+    const columns: Partial<Record<keyof TokenStats, number>> = {};
+    for (const { id } of TOKEN_COLUMNS) {
+        const index = headers.findIndex((header) => selectorRegistry.columns[id].test(header));
+        if (index >= 0) columns[id] = index;
+    }
+    return columns;
+}
+
+// Function to turn a token row's cells into numbers, leaving out the ones that cannot be read
+function parseTokenStats(cells: string[], columns: Partial<Record<keyof TokenStats, number>>): TokenStats {
+    const cellText = (id: keyof TokenStats) => (columns[id] === undefined ? '' : cells[columns[id]] || '');
+    const stats: TokenStats = {};
+
+    for (const id of ['marketCap', 'liquidity', 'volume'] as const) {
+        const amount = parseCurrencyIn(cellText(id));
+        if (amount.ok) stats[id] = amount.value.value;
+    }
+    const age = parseDuration(cellText('age'));
+    if (age.ok) stats.age = age.value.seconds / 3600;
+    const holders = parseCount(cellText('holders'));
+    if (holders.ok) stats.holders = holders.value.value;
+
+    return stats;
+}
+
+// Function to increment portfolios checked, returning the new total
+function incrementPortfoliosChecked(): number {
     try {
-        if (fs.existsSync(STATS_FILE)) {
-            const fileContent = fs.readFileSync(STATS_FILE, 'utf8');
-            console.log(`Read stats file content: ${fileContent}`);
-            return JSON.parse(fileContent);
-        }
-        console.log('Stats file does not exist, returning default stats');
-        return { portfoliosChecked: 0 };
+        return store.incrementStat('portfoliosChecked');
     } catch (error) {
-        console.error('Error loading stats:', error);
-        return { portfoliosChecked: 0 };
+        console.error('Error in incrementPortfoliosChecked:', error);
+        return 0;
     }
 }
 
-// Function to save stats
-function saveStats(stats: { portfoliosChecked: number }): void {
+// Function to store an evaluated wallet with its metrics, replacing an earlier evaluation of it
+function recordWallet(record: WalletRecord, runId: number): void {
     try {
-        const content = JSON.stringify(stats, null, 2);
-        console.log(`Writing to stats file: ${content}`);
-        fs.writeFileSync(STATS_FILE, content);
-        console.log('Stats file written successfully');
+        store.recordWallet(record, runId);
     } catch (error) {
-        console.error('Error saving stats:', error);
-        console.error('Error details:', error instanceof Error ? error.message : String(error));
+        console.error('Error recording wallet:', error);
     }
 }
 
-async function main() {
-    console.log('Starting browser...');
+// Function to run one worker: a page of its own that takes tokens from the shared queue until none are left
+async function runWorker(workerId: number, context: BrowserContext, queue: TokenQueue, runId: number) {
+    const log = (...args: unknown[]) => console.log(`[worker ${workerId}]`, ...args);
+    const logError = (...args: unknown[]) => console.error(`[worker ${workerId}]`, ...args);
+    reportWorker(workerId, { state: 'starting' });
 
     try {
-        // Connect to the Chrome instance running on the host machine
-        const browser = await chromium.connectOverCDP(`http://${HOST_IP}:${CHROME_DEBUG_PORT}`);
-        console.log('Connected to Chrome on host machine');
-
-        // Get all browser contexts
-        const contexts = browser.contexts();
-        let context;
-
-        if (contexts.length > 0) {
-            // Reuse the first existing context
-            context = contexts[0];
-            console.log('Reusing existing browser context');
-        } else {
-            // Create a new context only if none exists
-            context = await browser.newContext({
-                viewport: { width: 1280, height: 720 },
-            });
-            console.log('Created new browser context');
-        }
-
         // Create a new page in the context
         const page = await context.newPage();
-        console.log('Created new page in context');
+        log('Created new page in context');
 
-        // No need to load cookies manually as we're reusing the existing context
-        // which already has the cookies
+        // Start listening before the first navigation so the Top Traders payloads are not missed
+        const capture = EXTRACTION_MODE === 'network' ? createResponseCapture(page) : null;
 
         // Navigate to the site
-        console.log(`Navigating to ${BASE_URL}...`);
+        log(`Navigating to ${BASE_URL}...`);
         await page.goto(BASE_URL + '/explore', {
             waitUntil: 'networkidle',
             timeout: 60000,
         });
 
-        console.log('Page loaded, waiting for network to be idle...');
+        log('Page loaded, waiting for network to be idle...');
         await page.waitForLoadState('networkidle', { timeout: 60000 });
-        console.log('Network is idle, waiting for DOM content...');
+        log('Network is idle, waiting for DOM content...');
         await page.waitForLoadState('domcontentloaded', { timeout: 60000 });
 
-        console.log('Waiting for table body...');
-        await page.waitForSelector('.b-table-body', { state: 'visible', timeout: 60000 });
-        console.log('Table body found, waiting additional time for content to stabilize...');
+        log('Waiting for table body...');
+        await page.waitForSelector(selectors.exploreTable, { state: 'visible', timeout: 60000 });
+        log('Table body found, waiting additional time for content to stabilize...');
         await page.waitForTimeout(3000);
 
         // Get all token rows
-        console.log('Looking for token rows...');
-        const tokenRows = await page.$$('.b-table-row');
-        console.log(`Found ${tokenRows.length} token rows in the table`);
+        log('Looking for token rows...');
+        const tokenRows = await page.$$(selectors.tokenRow);
+        log(`Found ${tokenRows.length} token rows in the table`);
 
         // Verify rows are actually visible and interactive
         for (const row of tokenRows.slice(0, 3)) {
             // Check first 3 rows
             const isVisible = await row.isVisible();
-            console.log(`Row visible: ${isVisible}`);
+            log(`Row visible: ${isVisible}`);
             if (isVisible) {
                 const box = await row.boundingBox();
-                console.log(`Row bounding box:`, box);
+                log(`Row bounding box:`, box);
             }
         }
 
-        // Load previously processed token names
-        const processedTokenNames = loadProcessedTokens();
-        console.log(`Loaded ${processedTokenNames.size} previously processed tokens`);
+        // Process tokens until the queue runs out
+        for (let tokensProcessed = 0; ; tokensProcessed++) {
+            reportWorker(workerId, { state: 'idle', token: undefined, row: undefined, tokensProcessed });
 
-        // Process each token, up to MAX_TOKENS_TO_PROCESS
-        for (let tokenIndex = 0; tokenIndex < Math.min(tokenRows.length, MAX_TOKENS_TO_PROCESS); tokenIndex++) {
             // Navigate back to the main page if we're not on the first token
-            if (tokenIndex > 0) {
+            if (tokensProcessed > 0) {
                 await page.goto(`${BASE_URL}/explore`);
-                await page.waitForSelector('.b-table-body');
+                await page.waitForSelector(selectors.exploreTable);
                 await page.waitForTimeout(2000);
             }
 
-            // Find all rows that we haven't processed yet
-            const availableRows = await page.$$('.b-table-row');
-            let selectedTokenName = '';
-            let foundNewToken = false;
-
-            // Try to find a row we haven't processed yet
-            for (const row of availableRows) {
-                // Get the token name from the span
-                const nameSpan = await row.$('span.font-normal.text-grey-50.block.text-xs');
-                if (nameSpan) {
-                    const tokenName = (await nameSpan.textContent()) || '';
-                    if (tokenName && !processedTokenNames.has(tokenName)) {
-                        console.log(`Found new token to process: ${tokenName}`);
-                        selectedTokenName = tokenName;
-                        processedTokenNames.add(tokenName);
-                        // Save the updated set after each new token
-                        saveProcessedTokens(processedTokenNames);
-                        console.log(`Processing new token: ${tokenName}`);
-
-                        // Click on this row
-                        await row.click();
-                        foundNewToken = true;
-                        break;
-                    }
+            // Read the token names and columns of all rows
+            const columns = await readExploreColumns(page);
+            const availableRows = [];
+            for (const row of await page.$$(selectors.tokenRow)) {
+                const nameSpan = await row.$(selectors.tokenName);
+                const tokenName = nameSpan ? (await nameSpan.textContent()) || '' : '';
+                const tokenLink = await row.$(selectors.tokenLink);
+                const address = tokenAddressFromLink(tokenLink ? await tokenLink.getAttribute('href') : null);
+                if (tokenName) {
+                    if (!address) log(`No contract address found for token "${tokenName}", keying it by name`);
+                    const cells = await row.$$eval(selectors.tokenCell, (elements) =>
+                        elements.map((element) => element.textContent?.trim() || ''),
+                    );
+                    const stats = parseTokenStats(cells, columns);
+                    availableRows.push({
+                        row,
+                        key: processedTokenKey(address, tokenName),
+                        name: tokenName,
+                        address,
+                        stats,
+                    });
                 }
             }
 
-            if (!foundNewToken) {
-                console.log('No new tokens found to process. Ending script.');
+            const claimed = queue.claim(availableRows.map(({ row, ...token }) => token));
+            const selected = claimed && availableRows.find((entry) => entry.key === claimed.key);
+            if (!claimed || !selected) {
+                log('No new tokens found to process. Worker is done.');
                 break;
             }
 
-            console.log(`Processing token ${tokenIndex + 1}: ${selectedTokenName}`);
+            const selectedTokenName = claimed.name;
+            let firstRow = START_FROM_ROW;
+            if (claimed.resumeAfterRow !== undefined) {
+                firstRow = Math.max(START_FROM_ROW, claimed.resumeAfterRow + 1);
+                log(`Resuming token "${selectedTokenName}" after row ${claimed.resumeAfterRow} from the last run`);
+            }
+            log(`Processing new token: ${selectedTokenName}`);
+            queue.progress(claimed.key, firstRow - 1);
+            reportWorker(workerId, { state: 'scanning', token: selectedTokenName, row: firstRow - 1 });
+            emitProgress({
+                type: 'token-selected',
+                worker: workerId,
+                token: { key: claimed.key, name: claimed.name, address: claimed.address },
+                index: claimed.index,
+                firstRow,
+                lastRow: MAX_TRADERS_PER_TOKEN,
+            });
+
+            // Click on this row
+            await selected.row.click();
+
+            log(`Processing token ${claimed.index}: ${selectedTokenName} (${claimed.address ?? 'no address'})`);
             await page.waitForTimeout(1200);
 
             // Find all spans containing "Top Traders" and log their count and text content
-            const topTradersSpans = await page.$$('span:text("Top Traders")');
+            const topTradersSpans = await page.$$(selectors.topTradersTab);
 
             for (const span of topTradersSpans) {
                 const text = await span.textContent();
             }
 
             // Wait for and click the "Top Traders" span
-            await page.click('span:text("Top Traders")');
+            await page.click(selectors.topTradersTab);
 
             await page.waitForTimeout(1000);
 
             // Wait for the table row containing a Solscan link
             try {
-                await page.waitForSelector('.b-table-row a[href*="solscan"]', { timeout: 10000 });
+                await page.waitForSelector(`${selectors.traderRow} ${selectors.solscanLink}`, { timeout: 10000 });
             } catch (error) {
-                console.log('Could not find Solscan links within 10 seconds, going back to previous page');
+                log('Could not find Solscan links within 10 seconds, going back to previous page');
+                queue.complete(claimed.key);
+                emitProgress({ type: 'token-finished', worker: workerId });
                 await page.goBack();
                 await page.waitForTimeout(2000);
                 continue; // Skip to the next iteration of the main loop
             }
 
             // Process the top traders for this token (limited to MAX_TRADERS_PER_TOKEN)
-            for (let rowNumber = START_FROM_ROW; rowNumber <= MAX_TRADERS_PER_TOKEN; rowNumber++) {
-                console.log(
+            for (let rowNumber = firstRow; rowNumber <= MAX_TRADERS_PER_TOKEN; rowNumber++) {
+                log(
                     `Token "${selectedTokenName}", Processing visible row ${rowNumber} of max ${MAX_TRADERS_PER_TOKEN}`,
                 );
+                emitProgress({ type: 'trader-row', worker: workerId, row: rowNumber, lastRow: MAX_TRADERS_PER_TOKEN });
 
                 try {
                     // Find the row with the specific row number in its first cell
-                    const rowSelector = `.b-table-row:has(.b-table-cell span:text-is("${rowNumber}"))`;
+                    const rowSelector = fillSelector(selectors.traderRowByNumber, { row: rowNumber });
 
                     // Progressive scrolling to find the target row in virtual list
                     let isRowPresent = false;
@@ -254,23 +513,23 @@ async function main() {
                         if (isRowPresent) break;
 
                         // Scroll down progressively to load more rows
-                        await page.evaluate(() => {
-                            const tableBody = document.querySelector('.b-table .no-scrollbar .no-scrollbar');
+                        await page.evaluate((scrollerSelector) => {
+                            const tableBody = document.querySelector(scrollerSelector);
                             if (tableBody) {
                                 // Scroll down by a reasonable amount
                                 tableBody.scrollTop += 300;
                                 return tableBody.scrollTop;
                             }
                             return 0;
-                        });
+                        }, selectors.tradersScroller);
 
                         await page.waitForTimeout(500); // Wait for DOM to update
                         scrollAttempts++;
-                        console.log(`Scrolling attempt ${scrollAttempts} to find row ${rowNumber}...`);
+                        log(`Scrolling attempt ${scrollAttempts} to find row ${rowNumber}...`);
                     }
 
                     if (!isRowPresent) {
-                        console.log(
+                        log(
                             `Could not find row with visible number ${rowNumber} after ${maxScrollAttempts} scroll attempts. Moving to next token.`,
                         );
                         break; // Break the row loop, will continue with the next token
@@ -285,47 +544,56 @@ async function main() {
                     // Additional scrolling if still not visible
                     const isVisible = await row.isVisible();
                     if (!isVisible) {
-                        console.log(`Row ${rowNumber} is not visible, using additional scrolling methods`);
+                        log(`Row ${rowNumber} is not visible, using additional scrolling methods`);
 
                         // Find the scrollable container and scroll it
-                        await page.evaluate((rowNum) => {
-                            // Find the row with this number
-                            const spanWithNumber = Array.from(document.querySelectorAll('.b-table-cell span')).find(
-                                (span) => span.textContent?.trim() === String(rowNum),
-                            );
-
-                            if (spanWithNumber) {
-                                // Get the row containing this span
-                                const targetRow = spanWithNumber.closest('.b-table-row');
-                                if (targetRow) {
-                                    // Scroll with both methods for reliability
-                                    targetRow.scrollIntoView({ behavior: 'smooth', block: 'center' });
-
-                                    // Also scroll the container a bit more
-                                    const scrollables = Array.from(
-                                        document.querySelectorAll('.b-table-body, .no-scrollbar, [style*="overflow"]'),
-                                    ).filter((el) => {
-                                        const style = window.getComputedStyle(el);
-                                        return (
-                                            style.overflow === 'auto' ||
-                                            style.overflow === 'scroll' ||
-                                            style.overflowY === 'auto' ||
-                                            style.overflowY === 'scroll'
-                                        );
-                                    });
-
-                                    if (scrollables.length > 0) {
-                                        // Get the innermost container
-                                        const container = scrollables[scrollables.length - 1];
-                                        // Ensure it's scrolled enough to see the row
-                                        // Cast to HTMLElement to access offsetTop property
-                                        const targetRowElement = targetRow as HTMLElement;
-                                        container.scrollTop =
-                                            targetRowElement.offsetTop - (container as HTMLElement).clientHeight / 2;
+                        await page.evaluate(
+                            ({ rowNum, numberSelector, rowSelector, scrollContainerSelector }) => {
+                                // Find the row with this number
+                                const spanWithNumber = Array.from(document.querySelectorAll(numberSelector)).find(
+                                    (span) => span.textContent?.trim() === String(rowNum),
+                                );
+
+                                if (spanWithNumber) {
+                                    // Get the row containing this span
+                                    const targetRow = spanWithNumber.closest(rowSelector);
+                                    if (targetRow) {
+                                        // Scroll with both methods for reliability
+                                        targetRow.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+                                        // Also scroll the container a bit more
+                                        const scrollables = Array.from(
+                                            document.querySelectorAll(scrollContainerSelector),
+                                        ).filter((el) => {
+                                            const style = window.getComputedStyle(el);
+                                            return (
+                                                style.overflow === 'auto' ||
+                                                style.overflow === 'scroll' ||
+                                                style.overflowY === 'auto' ||
+                                                style.overflowY === 'scroll'
+                                            );
+                                        });
+
+                                        if (scrollables.length > 0) {
+                                            // Get the innermost container
+                                            const container = scrollables[scrollables.length - 1];
+                                            // Ensure it's scrolled enough to see the row
+                                            // Cast to HTMLElement to access offsetTop property
+                                            const targetRowElement = targetRow as HTMLElement;
+                                            container.scrollTop =
+                                                targetRowElement.offsetTop -
+                                                (container as HTMLElement).clientHeight / 2;
+                                        }
                                     }
                                 }
-                            }
-                        }, rowNumber);
+                            },
+                            {
+                                rowNum: rowNumber,
+                                numberSelector: selectors.traderRowNumber,
+                                rowSelector: selectors.traderRow,
+                                scrollContainerSelector: selectors.scrollContainers,
+                            },
+                        );
 
                         // Wait longer for scroll to complete
                         await page.waitForTimeout(800);
@@ -333,235 +601,244 @@ async function main() {
 
                     // Check if the row has a Solscan link
                     const hasSolscanLink = await row
-                        .locator('a[href*="solscan"]')
+                        .locator(selectors.solscanLink)
                         .count()
                         .then((count) => count > 0);
                     if (!hasSolscanLink) {
-                        console.log(`Row ${rowNumber} doesn't have a Solscan link, skipping`);
+                        log(`Row ${rowNumber} doesn't have a Solscan link, skipping`);
                         incrementPortfoliosChecked();
                         continue;
                     }
 
                     // Find and click the div after the Solscan link
-                    const divUnderLink = await row.locator('a[href*="solscan"] + div');
+                    const divUnderLink = await row.locator(selectors.walletButton);
                     if ((await divUnderLink.count()) === 0) {
-                        console.log(`Could not find div under Solscan link for row ${rowNumber}`);
+                        log(`Could not find div under Solscan link for row ${rowNumber}`);
                         incrementPortfoliosChecked();
                         continue;
                     }
 
-                    // Click the div
-                    await divUnderLink.click();
+                    // Wallet address from the Solscan link, used to match captured API responses
+                    const walletAddress = walletAddressFromLink(
+                        await row.locator(selectors.solscanLink).first().getAttribute('href'),
+                    );
 
-                    // Add a small wait to ensure the click action completes
-                    await page.waitForTimeout(2000);
-
-                    // Find and extract Total Revenue
-                    const totalRevenueSpan = await page.locator('span:text("Total Revenue")');
-                    const revenueValueSpan = totalRevenueSpan.locator('xpath=./following-sibling::span');
-
-                    // Wait for loader to disappear and number to appear
-                    await page.waitForFunction((selector) => {
-                        const element = document.evaluate(
-                            selector,
-                            document,
-                            null,
-                            XPathResult.FIRST_ORDERED_NODE_TYPE,
-                            null,
-                        ).singleNodeValue;
-                        return (
-                            element &&
-                            element.textContent &&
-                            !element.textContent.includes('...') &&
-                            /[\d.]+[MK]?/.test(element.textContent)
+                    // Metrics extracted so far, checked against the filter pipeline after every step. A config
+                    // reload takes effect from the next wallet on
+                    const metrics: WalletMetrics = {};
+                    const walletRules = filterRules;
+                    let portfolioId: string | undefined;
+                    let rejection: WalletRecord['rejection'] = null;
+                    const saveWallet = () =>
+                        recordWallet(
+                            {
+                                address: walletAddress,
+                                portfolioId: portfolioId ?? null,
+                                token: { key: claimed.key, name: claimed.name, address: claimed.address },
+                                row: rowNumber,
+                                metrics,
+                                rejection,
+                                evaluatedAt: new Date().toISOString(),
+                            },
+                            runId,
                         );
-                    }, '//span[text()="Total Revenue"]/following-sibling::span');
-
-                    // Find and extract Realized PnL
-                    let realizedPnLDiv = await page.locator('span:text("Realized PnL")');
-                    let pnlValueDiv = realizedPnLDiv.locator('xpath=./following-sibling::span').first();
-
-                    // Wait for loader to disappear and number to appear
-                    await page.waitForFunction((selector) => {
-                        const element = document.evaluate(
-                            selector,
-                            document,
-                            null,
-                            XPathResult.FIRST_ORDERED_NODE_TYPE,
-                            null,
-                        ).singleNodeValue;
-                        return (
-                            element &&
-                            element.textContent &&
-                            !element.textContent.includes('...') &&
-                            /[\d.]+[MK]?/.test(element.textContent)
-                        );
-                    }, '//span[text()="Realized PnL"]/following-sibling::span[1]');
+                    const reject = async () => {
+                        saveWallet();
+                        emitProgress({
+                            type: 'wallet-rejected',
+                            worker: workerId,
+                            row: rowNumber,
+                            address: walletAddress,
+                            ruleId: rejection?.ruleId ?? '',
+                            reason: rejection?.reason ?? '',
+                        });
+                        incrementPortfoliosChecked();
+                        await page.click(selectors.modalClose);
+                        await page.waitForTimeout(500);
+                    };
+                    // With EXTRACT_ALL_METRICS a rejected wallet goes through every step and is stored at the end
+                    const isRejected = async () => {
+                        if (!rejection) {
+                            const result = evaluateFilterRules(walletRules, metrics);
+                            if (result.passed) return false;
+                            log(`Row ${rowNumber} - Not interested in wallet - ${result.reason}`);
+                            rejection = { ruleId: result.ruleId ?? '', reason: result.reason ?? '' };
+                        }
+                        if (EXTRACT_ALL_METRICS) return false;
+                        await reject();
+                        return true;
+                    };
+
+                    // In network mode wait for the wallet's payload instead of a fixed delay. Start listening
+                    // before the click so a fast response is not missed
+                    const walletPayload = capture && walletAddress ? capture.waitForWallet(walletAddress, 10000) : null;
 
-                    let revenueValue = (await revenueValueSpan.textContent()) || '0';
-                    let cleanRevenueValue = revenueValue.replace(/[^0-9MKk.]/g, ''); // Remove everything except numbers, dots, M and K
+                    // Click the div
+                    await divUnderLink.click();
 
-                    let revenueDollars = parseFloat(cleanRevenueValue);
-                    if (cleanRevenueValue.toUpperCase().endsWith('M')) {
-                        revenueDollars *= 1000000;
-                    } else if (cleanRevenueValue.toUpperCase().endsWith('K')) {
-                        revenueDollars *= 1000;
+                    const captured = walletPayload ? await walletPayload : null;
+                    if (capture && !captured) {
+                        log(`Row ${rowNumber} - No wallet payload captured, falling back to DOM values`);
+                    }
+                    if (!captured) {
+                        // Add a small wait to ensure the click action completes
+                        await page.waitForTimeout(2000);
                     }
 
-                    let pnlValue = (await pnlValueDiv.textContent()) || '0';
-                    let cleanPnlValue = pnlValue.replace(/[^0-9MKk.]/g, '');
+                    let revenueDollars: number;
+                    let pnlDollars: number;
 
-                    let pnlDollars = parseFloat(cleanPnlValue);
-                    if (cleanPnlValue.toUpperCase().endsWith('M')) {
-                        pnlDollars *= 1000000;
-                    } else if (cleanPnlValue.toUpperCase().endsWith('K')) {
-                        pnlDollars *= 1000;
-                    }
+                    if (captured?.revenue !== undefined && captured.pnl !== undefined) {
+                        revenueDollars = captured.revenue;
+                        pnlDollars = captured.pnl;
+                    } else {
+                        // Find and extract Total Revenue
+                        const revenueValueSpan = page.locator(selectors.totalRevenueValue);
+
+                        // Wait for loader to disappear and number to appear
+                        await page.waitForFunction((selector) => {
+                            const element = document.evaluate(
+                                selector,
+                                document,
+                                null,
+                                XPathResult.FIRST_ORDERED_NODE_TYPE,
+                                null,
+                            ).singleNodeValue;
+                            return (
+                                element &&
+                                element.textContent &&
+                                !element.textContent.includes('...') &&
+                                /[\d.]+[MK]?/.test(element.textContent)
+                            );
+                        }, toXPath(selectors.totalRevenueValue));
+
+                        // Find and extract Realized PnL
+                        const pnlValueDiv = page.locator(selectors.realizedPnlValue).first();
+
+                        // Wait for loader to disappear and number to appear
+                        await page.waitForFunction((selector) => {
+                            const element = document.evaluate(
+                                selector,
+                                document,
+                                null,
+                                XPathResult.FIRST_ORDERED_NODE_TYPE,
+                                null,
+                            ).singleNodeValue;
+                            return (
+                                element &&
+                                element.textContent &&
+                                !element.textContent.includes('...') &&
+                                /[\d.]+[MK]?/.test(element.textContent)
+                            );
+                        }, toXPath(selectors.realizedPnlValue));
 
-                    console.log(`Row ${rowNumber} - Realized PnL:`, pnlDollars);
-                    if (pnlDollars < MIN_PNL) {
-                        console.log(`Row ${rowNumber} - Not interested in wallet - PnL is too low: ${pnlDollars}`);
-                        incrementPortfoliosChecked();
-                        await page.click('button.w-5.h-5.bg-transparent.outline-none');
-                        await page.waitForTimeout(500);
-                        continue;
+                        revenueDollars = toDollars(await revenueValueSpan.textContent(), 'Total Revenue');
+                        pnlDollars = toDollars(await pnlValueDiv.textContent(), 'Realized PnL');
                     }
-                    console.log(`Row ${rowNumber} - Total Revenue:`, revenueDollars);
 
-                    // Try to click the 7D button with different selectors and add error handling
-                    try {
-                        // First attempt with text selector
-                        await page.click('.ant-modal-content button:text("7D")');
-                        console.log('Successfully clicked 7D button with text selector');
-                    } catch (error) {
-                        console.log('Failed to click 7D button with text selector, trying alternatives...');
-                        try {
-                            // Try with exact text
-                            await page.click('button:has-text("7D")');
-                            console.log('Successfully clicked 7D button with has-text selector');
-                        } catch (error) {
-                            console.log('Failed with has-text selector, trying with XPath...');
+                    log(`Row ${rowNumber} - Realized PnL:`, pnlDollars);
+                    metrics.pnl = pnlDollars;
+                    metrics.revenue = revenueDollars;
+                    if (await isRejected()) continue;
+                    log(`Row ${rowNumber} - Total Revenue:`, revenueDollars);
+
+                    if (captured?.sevenDayPnl !== undefined) {
+                        // Mirror the DOM path, where the 7D Realized PnL also stands in for revenue in the ROI
+                        pnlDollars = captured.sevenDayPnl;
+                        revenueDollars = captured.sevenDayPnl;
+                    } else {
+                        // Try the 7D button selectors in order, continuing without the click if none works
+                        let clickedSevenDay = false;
+                        for (const selector of selectorRegistry.alternatives.sevenDayButton) {
                             try {
-                                // Try with XPath
-                                await page.click('xpath=//button[contains(text(), "7D")]');
-                                console.log('Successfully clicked 7D button with XPath');
+                                await page.click(selector);
+                                log(`Successfully clicked 7D button with ${selector}`);
+                                clickedSevenDay = true;
+                                break;
                             } catch (error) {
-                                console.warn('All attempts to click 7D button failed:', error);
-                                // Continue without clicking the button as a fallback
+                                log(`Failed to click 7D button with ${selector}, trying alternatives...`);
                             }
                         }
-                    }
+                        if (!clickedSevenDay) {
+                            logError('All attempts to click 7D button failed');
+                        }
 
-                    await page.waitForTimeout(1000);
+                        await page.waitForTimeout(1000);
 
-                    // Find and extract Realized PnL
-                    // Find the 7D Realized PnL element
-                    const sevenDayPnLDiv = await page.locator(
-                        '.ant-modal-content div:text-matches(".*Realized PnL.*")',
-                    );
+                        // Find and extract Realized PnL
+                        // Find the 7D Realized PnL element
+                        const sevenDayPnLDiv = page.locator(selectors.periodPnlLabel);
 
-                    // Get the value div that appears right after the 7D Realized PnL div
-                    const sevenDayPnLValueDiv = sevenDayPnLDiv.locator('xpath=./following-sibling::div').first();
+                        // Get the value div that appears right after the 7D Realized PnL div
+                        const sevenDayPnLValueDiv = sevenDayPnLDiv.locator(selectors.periodPnlValue).first();
 
-                    revenueValue = (await sevenDayPnLValueDiv.textContent()) || '0';
-                    cleanRevenueValue = revenueValue.replace(/[^0-9MKk.]/g, ''); // Remove everything except numbers, dots, M and K
-
-                    revenueDollars = parseFloat(cleanRevenueValue);
-                    if (cleanRevenueValue.toUpperCase().endsWith('M')) {
-                        revenueDollars *= 1000000;
-                    } else if (cleanRevenueValue.toUpperCase().endsWith('K')) {
-                        revenueDollars *= 1000;
+                        // Get the 7D PnL value, which also stands in for revenue in the ROI
+                        pnlDollars = toDollars(await sevenDayPnLValueDiv.textContent(), '7D Realized PnL');
+                        revenueDollars = pnlDollars;
                     }
 
-                    // Get the 7D PnL value
-                    const sevenDayPnLValue = (await sevenDayPnLValueDiv.textContent()) || '0';
-                    const cleanSevenDayPnLValue = sevenDayPnLValue.replace(/[^0-9MKk.]/g, '');
-
-                    pnlDollars = parseFloat(cleanSevenDayPnLValue);
-                    if (cleanSevenDayPnLValue.toUpperCase().endsWith('M')) {
-                        pnlDollars *= 1000000;
-                    } else if (cleanSevenDayPnLValue.toUpperCase().endsWith('K')) {
-                        pnlDollars *= 1000;
-                    }
+                    log(`Row ${rowNumber} - 7D Realized PnL:`, pnlDollars);
+                    metrics.sevenDayPnl = pnlDollars;
+                    if (await isRejected()) continue;
+                    log(`Row ${rowNumber} - 7D Total Revenue:`, revenueDollars);
 
-                    console.log(`Row ${rowNumber} - 7D Realized PnL:`, pnlDollars);
-                    if (pnlDollars < 0) {
-                        console.log(`Row ${rowNumber} - Not interested in wallet - 7D PnL is too low: ${pnlDollars}`);
-                        incrementPortfoliosChecked();
-                        await page.click('button.w-5.h-5.bg-transparent.outline-none');
-                        await page.waitForTimeout(500);
-                        continue;
-                    }
-                    console.log(`Row ${rowNumber} - 7D Total Revenue:`, revenueDollars);
-
-                    // Find and extract Total Spent
-                    const totalSpentSpan = await page.locator('span:text("Total Spent")');
-                    const spentValueSpan = totalSpentSpan.locator('xpath=./following-sibling::span');
-
-                    // Wait for loader to disappear and number to appear
-                    await page.waitForFunction((selector) => {
-                        const element = document.evaluate(
-                            selector,
-                            document,
-                            null,
-                            XPathResult.FIRST_ORDERED_NODE_TYPE,
-                            null,
-                        ).singleNodeValue;
-                        return (
-                            element &&
-                            element.textContent &&
-                            !element.textContent.includes('...') &&
-                            /[\d.]+[MK]?/.test(element.textContent)
-                        );
-                    }, '//span[text()="Total Spent"]/following-sibling::span');
-
-                    const spentValue = (await spentValueSpan.textContent()) || '0';
-                    const cleanSpentValue = spentValue.replace(/[^0-9MKk.]/g, '');
+                    let spentDollars: number;
+                    if (captured?.spent !== undefined) {
+                        spentDollars = captured.spent;
+                    } else {
+                        // Find and extract Total Spent
+                        const spentValueSpan = page.locator(selectors.totalSpentValue);
+
+                        // Wait for loader to disappear and number to appear
+                        await page.waitForFunction((selector) => {
+                            const element = document.evaluate(
+                                selector,
+                                document,
+                                null,
+                                XPathResult.FIRST_ORDERED_NODE_TYPE,
+                                null,
+                            ).singleNodeValue;
+                            return (
+                                element &&
+                                element.textContent &&
+                                !element.textContent.includes('...') &&
+                                /[\d.]+[MK]?/.test(element.textContent)
+                            );
+                        }, toXPath(selectors.totalSpentValue));
 
-                    let spentDollars = parseFloat(cleanSpentValue);
-                    if (cleanSpentValue.toUpperCase().endsWith('M')) {
-                        spentDollars *= 1000000;
-                    } else if (cleanSpentValue.toUpperCase().endsWith('K')) {
-                        spentDollars *= 1000;
+                        spentDollars = toDollars(await spentValueSpan.textContent(), 'Total Spent');
                     }
-                    console.log(`Row ${rowNumber} - Total Spent:`, spentDollars);
+                    log(`Row ${rowNumber} - Total Spent:`, spentDollars);
 
                     // Calculate and log ROI
                     const roi = ((revenueDollars - spentDollars) / spentDollars) * 100;
-                    console.log(`Row ${rowNumber} - ROI:`, roi.toFixed(2) + '%');
-                    if (roi < MIN_ROI) {
-                        console.log(
-                            `Row ${rowNumber} - Not interested in wallet - ROI is too low (${roi.toFixed(
-                                2,
-                            )}% < ${MIN_ROI}%)`,
-                        );
-                        incrementPortfoliosChecked();
-                        await page.click('button.w-5.h-5.bg-transparent.outline-none');
-                        await page.waitForTimeout(500);
-                        continue;
-                    }
+                    log(`Row ${rowNumber} - ROI:`, roi.toFixed(2) + '%');
+                    metrics.spent = spentDollars;
+                    metrics.roi = roi;
+                    if (await isRejected()) continue;
 
-                    console.log(`Row ${rowNumber} - ROI check passed, proceeding with portfolio analysis`);
+                    log(`Row ${rowNumber} - ROI checks passed, proceeding with portfolio analysis`);
 
                     // Find the link in the drawer content and extract portfolio ID
-                    const drawerLink = await page.locator('.ant-modal-content a[href*="/portfolio/"]');
+                    const drawerLink = page.locator(selectors.portfolioLink);
                     const href = await drawerLink.getAttribute('href');
-                    const portfolioId = href?.split('/portfolio/')[1];
-                    console.log(`Row ${rowNumber} - Portfolio ID:`, portfolioId);
+                    portfolioId = href?.split('/portfolio/')[1];
+                    log(`Row ${rowNumber} - Portfolio ID:`, portfolioId);
+
+                    // Values from the payload skip the DOM waits above, so give the trade list a moment to render
+                    if (captured) {
+                        await page
+                            .locator(selectors.tradeRow)
+                            .first()
+                            .waitFor({ timeout: 5000 })
+                            .catch(() => undefined);
+                    }
 
                     // Find all rows in the modal
-                    const rows = await page.locator('.ant-modal-content .b-table-row').all();
+                    const rows = await page.locator(selectors.tradeRow).all();
 
                     // For each row, get the first cell's span text within the a tag and group by time
-                    const timeGroups: {
-                        seconds: string[];
-                        lessThan30m: string[];
-                        moreThan30m: string[];
-                        lessThan2h: string[];
-                        moreThan2h: string[];
-                        days: string[];
-                        weeks: string[];
-                    } = {
+                    const timeGroups: Record<TradeAgeGroup, string[]> = {
                         seconds: [],
                         lessThan30m: [],
                         moreThan30m: [],
@@ -572,97 +849,60 @@ async function main() {
                     };
 
                     for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
-                        const spanText = await rows[rowIndex]
-                            .locator('.b-table-cell')
-                            .first()
-                            .locator('a span')
-                            .textContent();
+                        const spanText = await rows[rowIndex].locator(selectors.tradeAge).textContent();
                         const trimmedText = spanText?.trim() || '';
 
                         // Parse the time value
-                        if (trimmedText.includes('s')) {
-                            timeGroups.seconds.push(trimmedText);
-                        } else if (trimmedText.includes('m')) {
-                            const value = parseInt(trimmedText);
-                            if (value < 30) {
-                                timeGroups.lessThan30m.push(trimmedText);
-                            } else {
-                                timeGroups.moreThan30m.push(trimmedText);
-                            }
-                        } else if (trimmedText.includes('h')) {
-                            const value = parseInt(trimmedText);
-                            if (value < 2) {
-                                timeGroups.lessThan2h.push(trimmedText);
-                            } else {
-                                timeGroups.moreThan2h.push(trimmedText);
-                            }
-                        } else if (trimmedText.includes('d')) {
-                            timeGroups.days.push(trimmedText);
-                        } else if (trimmedText.includes('w')) {
-                            timeGroups.weeks.push(trimmedText);
+                        const age = parseDuration(trimmedText);
+                        if (age.ok) {
+                            timeGroups[tradeAgeGroup(age.value)].push(trimmedText);
                         } else {
-                            console.log(
+                            log(
                                 `Row ${rowNumber}, Trade ${rowIndex + 1} - Unrecognized time format:`,
-                                trimmedText,
+                                age.error.message,
                             );
                         }
                     }
 
                     // Log the grouped results
-                    console.log(`Row ${rowNumber} - Seconds group:`, timeGroups.seconds.join(', '));
-                    console.log(`Row ${rowNumber} - Less than 30m group:`, timeGroups.lessThan30m.join(', '));
-                    console.log(`Row ${rowNumber} - More than 30m group:`, timeGroups.moreThan30m.join(', '));
-                    console.log(`Row ${rowNumber} - Less than 2h group:`, timeGroups.lessThan2h.join(', '));
-                    console.log(`Row ${rowNumber} - More than 2h group:`, timeGroups.moreThan2h.join(', '));
-                    console.log(`Row ${rowNumber} - Days group:`, timeGroups.days.join(', '));
-                    console.log(`Row ${rowNumber} - Weeks group:`, timeGroups.weeks.join(', '));
-
-                    // Check if seconds group has the most entries compared to any other individual group
-                    const highestCount = Math.max(
-                        timeGroups.lessThan30m.length,
-                        timeGroups.moreThan30m.length,
-                        timeGroups.lessThan2h.length,
-                        timeGroups.moreThan2h.length,
-                        timeGroups.days.length,
-                        timeGroups.weeks.length,
-                    );
-
-                    if (timeGroups.seconds.length > highestCount) {
-                        console.log(
-                            `Row ${rowNumber} - Not interested in wallet - most trades are in seconds (${timeGroups.seconds.length} trades in seconds vs ${highestCount} in other groups)`,
-                        );
-                        incrementPortfoliosChecked();
-                        await page.click('button.w-5.h-5.bg-transparent.outline-none');
-                        await page.waitForTimeout(500);
-                        continue;
-                    }
+                    log(`Row ${rowNumber} - Seconds group:`, timeGroups.seconds.join(', '));
+                    log(`Row ${rowNumber} - Less than 30m group:`, timeGroups.lessThan30m.join(', '));
+                    log(`Row ${rowNumber} - More than 30m group:`, timeGroups.moreThan30m.join(', '));
+                    log(`Row ${rowNumber} - Less than 2h group:`, timeGroups.lessThan2h.join(', '));
+                    log(`Row ${rowNumber} - More than 2h group:`, timeGroups.moreThan2h.join(', '));
+                    log(`Row ${rowNumber} - Days group:`, timeGroups.days.join(', '));
+                    log(`Row ${rowNumber} - Weeks group:`, timeGroups.weeks.join(', '));
+
+                    metrics.timeGroups = {
+                        seconds: timeGroups.seconds.length,
+                        lessThan30m: timeGroups.lessThan30m.length,
+                        moreThan30m: timeGroups.moreThan30m.length,
+                        lessThan2h: timeGroups.lessThan2h.length,
+                        moreThan2h: timeGroups.moreThan2h.length,
+                        days: timeGroups.days.length,
+                        weeks: timeGroups.weeks.length,
+                    };
+                    if (await isRejected()) continue;
 
-                    const mostProfitableDiv = await page.$('div[data-node-key="MOST_PROFITABLE"]');
+                    const mostProfitableDiv = await page.$(selectors.mostProfitableTab);
                     if (mostProfitableDiv) {
                         await mostProfitableDiv.click();
                     } else {
-                        console.log(`Row ${rowNumber} - MOST_PROFITABLE div not found`);
-                        await page.click('button.w-5.h-5.bg-transparent.outline-none');
+                        log(`Row ${rowNumber} - MOST_PROFITABLE div not found`);
+                        saveWallet();
+                        await page.click(selectors.modalClose);
                         continue;
                     }
 
                     await page.waitForTimeout(1000);
 
                     // Find all rows in the modal
-                    const mostProfitRows = await page
-                        .locator('.ant-modal-content .ant-tabs-tabpane-active .b-table-row')
-                        .all();
+                    const mostProfitRows = await page.locator(selectors.mostProfitableRow).all();
 
                     await page.waitForTimeout(1000);
 
-                    if (mostProfitRows.length < 10) {
-                        console.log(
-                            `Row ${rowNumber} - Not enough most profitable rows, skipping (${mostProfitRows.length} rows)`,
-                        );
-                        await page.click('button.w-5.h-5.bg-transparent.outline-none');
-                        incrementPortfoliosChecked();
-                        continue;
-                    }
+                    metrics.mostProfitableCount = mostProfitRows.length;
+                    if (await isRejected()) continue;
 
                     // Log the number from the second b-table-cell
                     const numbers = [];
@@ -670,96 +910,192 @@ async function main() {
                         try {
                             // Use the specific row element instead of a global selector
                             const row = mostProfitRows[index];
-                            const secondCell = await row.locator('.b-table-cell:nth-of-type(2) div').textContent();
+                            const secondCell = await row.locator(selectors.mostProfitableValue).textContent();
 
-                            const numberMatch = secondCell?.match(/\$?\s*([\d.]+)/);
-                            if (numberMatch) {
-                                const numberValue = parseFloat(numberMatch[1]);
-                                numbers.push(numberValue);
+                            const profit = parseCurrencyIn(secondCell || '');
+                            if (profit.ok) {
+                                numbers.push(profit.value.value);
+                            } else {
+                                log(`Row ${rowNumber} - Skipping profit cell ${index}: ${profit.error.message}`);
                             }
                         } catch (error) {
-                            console.log(`Error processing table row ${index}: ${error}`);
+                            log(`Error processing table row ${index}: ${error}`);
                         }
                     }
 
-                    // Check if 20% of the numbers are 0
-                    const zeroCount = numbers.filter((num) => num === 0).length;
-                    if (zeroCount > 3) {
-                        console.log(
-                            `Row ${rowNumber} - Skipping portfolio - too many 0s (${zeroCount} out of ${numbers.length})`,
-                        );
-                        await page.click('button.w-5.h-5.bg-transparent.outline-none');
-                        incrementPortfoliosChecked();
+                    metrics.zeroProfitCount = numbers.filter((num) => num === 0).length;
+                    if (await isRejected()) continue;
+                    if (rejection) {
+                        await reject();
                         continue;
                     }
 
-                    console.log(`Row ${rowNumber} - Trade duration check passed, proceeding with portfolio save`);
+                    log(`Row ${rowNumber} - All filter rules passed, proceeding with portfolio save`);
 
+                    // Wallets without a portfolio link are listed under their address, like re-applied ones
+                    const savedId = portfolioId || walletAddress || '';
                     const portfolioData = {
                         roi: `${roi.toFixed(2)}%`,
                         pnl: `${pnlDollars}`,
-                        link: `http://neo.bullx.io/portfolio/${portfolioId}`,
+                        link: `http://neo.bullx.io/portfolio/${savedId}`,
                         createdAt: new Date().toISOString(),
                     };
 
-                    // Read existing data from file, or create new if doesn't exist
-                    const filePath = path.join('portfolios.json');
-
-                    let portfolios = {};
-
-                    try {
-                        if (existsSync(filePath)) {
-                            const fileContent = readFileSync(filePath, 'utf8');
-                            portfolios = JSON.parse(fileContent);
-                        }
-                    } catch (error) {
-                        console.log(`Error reading portfolios file: ${error}`);
-                        // If there's an error parsing, start with an empty object
-                        portfolios = {};
-                    }
+                    // The wallet goes first, so the server counts this token when it alerts on the portfolio
+                    saveWallet();
 
                     // Add or update the portfolio data
-                    // @ts-ignore
-                    portfolios[portfolioId] = portfolioData;
-
-                    // Write the updated data back to the file
                     try {
-                        writeFileSync(filePath, JSON.stringify(portfolios, null, 2));
-                        console.log(`Row ${rowNumber} - Saved portfolio data to file`);
+                        store.savePortfolio(savedId, portfolioData);
+                        log(`Row ${rowNumber} - Saved portfolio data`);
                     } catch (error) {
-                        console.log(`Error writing to portfolios file: ${error}`);
+                        log(`Error saving portfolio: ${error}`);
                     }
 
+                    emitProgress({ type: 'wallet-accepted', worker: workerId, row: rowNumber, address: walletAddress });
+
                     // Additional wait to ensure any final loading completes
                     await page.waitForTimeout(1000);
 
-                    await page.click('button.w-5.h-5.bg-transparent.outline-none');
+                    await page.click(selectors.modalClose);
                     await page.waitForTimeout(500);
 
                     // After successfully processing a portfolio:
-                    console.log(`Row ${rowNumber} - All checks passed, incrementing portfolios checked count`);
-                    incrementPortfoliosChecked();
-                    const currentStats = loadStats();
-                    console.log(
-                        `Processed portfolio ${rowNumber}. Total portfolios checked: ${currentStats.portfoliosChecked}`,
-                    );
+                    log(`Row ${rowNumber} - All checks passed, incrementing portfolios checked count`);
+                    const portfoliosChecked = incrementPortfoliosChecked();
+                    log(`Processed portfolio ${rowNumber}. Total portfolios checked: ${portfoliosChecked}`);
                 } catch (error) {
-                    console.error(`Error processing row ${rowNumber}:`, error);
+                    logError(`Error processing row ${rowNumber}:`, error);
+
+                    // Close the wallet modal if it is still open so it does not block the next row
+                    const closeButton = page.locator(selectors.modalClose);
+                    if (await closeButton.isVisible().catch(() => false)) {
+                        await closeButton.click().catch(() => undefined);
+                        await page.waitForTimeout(500);
+                    }
                     continue;
+                } finally {
+                    queue.progress(claimed.key, rowNumber);
+                    reportWorker(workerId, { row: rowNumber });
                 }
             }
+
+            queue.complete(claimed.key);
+            emitProgress({ type: 'token-finished', worker: workerId });
+        }
+
+        reportWorker(workerId, { state: 'finished', token: undefined, row: undefined });
+    } catch (error) {
+        logError('Error:', error);
+        reportWorker(workerId, { state: 'failed' });
+    }
+}
+
+async function main() {
+    // Every wallet evaluated from here on is stored against this run
+    const runId = store.startRun(profile?.name ?? null);
+    console.log(`Starting run ${runId}${profile ? ` with profile "${profile.name}"` : ''}`);
+    emitProgress({
+        type: 'run-started',
+        runId,
+        maxTokens: MAX_TOKENS_TO_PROCESS,
+        firstRow: START_FROM_ROW,
+        lastRow: MAX_TRADERS_PER_TOKEN,
+        workers: WORKER_COUNT,
+    });
+
+    // Stopped from the server or with Ctrl+C: the checkpoints already hold each worker's last row
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+        process.once(signal, () => {
+            console.log(`Received ${signal}, stopping run ${runId}`);
+            store.finishRun(runId, 'interrupted');
+            emitProgress({ type: 'run-finished', status: 'interrupted' });
+            process.exit(signal === 'SIGINT' ? 130 : 143);
+        });
+    }
+    console.log('Starting browser...');
+
+    try {
+        // Connect to the Chrome instance running on the host machine
+        const browser = await chromium.connectOverCDP(`http://${HOST_IP}:${CHROME_DEBUG_PORT}`);
+        console.log('Connected to Chrome on host machine');
+
+        // Get all browser contexts
+        const contexts = browser.contexts();
+        let context;
+
+        if (contexts.length > 0) {
+            // Reuse the first existing context
+            context = contexts[0];
+            console.log('Reusing existing browser context');
+        } else {
+            // Create a new context only if none exists
+            context = await browser.newContext({
+                viewport: { width: 1280, height: 720 },
+            });
+            console.log('Created new browser context');
+        }
+
+        console.log(`Wallet metrics extraction mode: ${EXTRACTION_MODE}`);
+        console.log(`Using selectors version ${selectorRegistry.version} from ${selectorRegistry.file}`);
+
+        // Load the wallet filter pipeline, which the server can replace while the run goes on
+        const config = loadConfig();
+        runConfig = config;
+        filterRules = resolveFilterRules(config);
+        listenForConfigUpdates();
+        console.log(
+            'Filter rules:',
+            filterRules
+                .map((rule) => `${rule.id}${rule.enabled ? '' : ' (off)'} ${JSON.stringify(rule.params)}`)
+                .join(', '),
+        );
+
+        // Load the explore-table token filters and sort order
+        const tokenSelection: TokenSelection = { filters: resolveTokenFilters(config), sort: resolveTokenSort(config) };
+        const ranges = Object.entries(tokenSelection.filters)
+            .filter(([, range]) => range.min !== null || range.max !== null)
+            .map(([id, range]) => `${id} ${range.min ?? '-'}..${range.max ?? '-'}`);
+        console.log(`Token filters: ${ranges.length > 0 ? ranges.join(', ') : 'none'}`);
+        if (tokenSelection.sort) {
+            console.log(`Picking tokens by ${tokenSelection.sort.column} (${tokenSelection.sort.direction})`);
+        }
+
+        // Load previously processed token names
+        const processedTokens = store.loadProcessedTokens();
+        console.log(`Loaded ${Object.keys(processedTokens).length} previously processed tokens`);
+        if (RESCAN_TTL_HOURS > 0) {
+            console.log(`Tokens are scanned again ${RESCAN_TTL_HOURS} hours after their last scan`);
+        }
+
+        // Tokens an interrupted run was in the middle of are handed out first
+        const checkpoints = loadCheckpoints();
+        for (const [key, checkpoint] of Object.entries(checkpoints)) {
+            console.log(`Token "${key}" was interrupted after row ${checkpoint.lastCompletedRow}, resuming it first`);
+        }
+        const queue = createTokenQueue(processedTokens, checkpoints, tokenSelection);
+
+        // Each worker scans tokens on its own page in the shared context
+        console.log(`Starting ${WORKER_COUNT} worker(s)`);
+        await Promise.all(
+            Array.from({ length: WORKER_COUNT }, (_, index) => runWorker(index + 1, context, queue, runId)),
+        );
+        if ([...workerStatuses.values()].every((worker) => worker.state === 'failed')) {
+            throw new Error('All workers failed');
         }
 
-        // Save the final set of processed tokens
-        saveProcessedTokens(processedTokenNames);
         console.log('Finished processing tokens');
-        console.log(`Total processed tokens: ${processedTokenNames.size}`);
+        console.log(`Total processed tokens: ${Object.keys(processedTokens).length}`);
 
         // Close the browser
         await browser.close();
         console.log('Browser closed');
+        store.finishRun(runId, 'finished');
+        emitProgress({ type: 'run-finished', status: 'finished' });
     } catch (error) {
         console.error('Error:', error);
+        store.finishRun(runId, 'failed');
+        emitProgress({ type: 'run-finished', status: 'failed' });
         process.exit(1);
     }
 }
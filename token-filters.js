@@ -0,0 +1,111 @@
+// Explore-table token selection, shared by the scraper and the server. The scraper reads each row's
+// market cap, liquidity, volume, age and holders, skips tokens outside the configured ranges and can
+// pick the remaining ones in the order of a chosen column.
+
+/**
+ * @typedef {Object} TokenStats
+ * @property {number} [marketCap] USD
+ * @property {number} [liquidity] USD
+ * @property {number} [volume] USD
+ * @property {number} [age] Hours since the token was listed
+ * @property {number} [holders]
+ */
+
+/**
+ * @typedef {Object} TokenRange
+ * @property {number | null} min
+ * @property {number | null} max
+ */
+
+/** @typedef {Record<string, TokenRange>} TokenFilters */
+
+/**
+ * @typedef {Object} TokenSort
+ * @property {string} column
+ * @property {'asc' | 'desc'} direction
+ */
+
+/**
+ * Every explore column the scraper reads, in table order
+ * @type {Array<{ id: keyof TokenStats, label: string, unit: 'USD' | 'hours' | 'count' }>}
+ */
+export const TOKEN_COLUMNS = [
+    { id: 'marketCap', label: 'Market cap', unit: 'USD' },
+    { id: 'liquidity', label: 'Liquidity', unit: 'USD' },
+    { id: 'volume', label: 'Volume', unit: 'USD' },
+    { id: 'age', label: 'Age', unit: 'hours' },
+    { id: 'holders', label: 'Holders', unit: 'count' },
+];
+
+/**
+ * @param {unknown} value
+ * @returns {number | null}
+ */
+function toBound(value) {
+    if (value === undefined || value === null || value === '') return null;
+    const number = Number(value);
+    return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Normalise the saved TOKEN_FILTERS to a min/max pair per column, null meaning no bound
+ * @param {Record<string, unknown>} [config]
+ * @returns {TokenFilters}
+ */
+export function resolveTokenFilters(config = {}) {
+    const configured = config.TOKEN_FILTERS && typeof config.TOKEN_FILTERS === 'object' ? config.TOKEN_FILTERS : {};
+    return Object.fromEntries(
+        TOKEN_COLUMNS.map(({ id }) => [id, { min: toBound(configured[id]?.min), max: toBound(configured[id]?.max) }]),
+    );
+}
+
+/**
+ * Normalise the saved TOKEN_SORT, null keeps the explore table's own order
+ * @param {Record<string, unknown>} [config]
+ * @returns {TokenSort | null}
+ */
+export function resolveTokenSort(config = {}) {
+    const sort = config.TOKEN_SORT;
+    if (!sort || !TOKEN_COLUMNS.some((column) => column.id === sort.column)) return null;
+    return { column: sort.column, direction: sort.direction === 'asc' ? 'asc' : 'desc' };
+}
+
+/**
+ * Check a token against the ranges. A bounded column that could not be read rejects the token, so a
+ * layout change never lets tokens outside the band through.
+ * @param {TokenStats} stats
+ * @param {TokenFilters} filters
+ * @returns {string | null} Why the token was skipped, null when it passes
+ */
+export function checkTokenFilters(stats, filters) {
+    for (const { id, label } of TOKEN_COLUMNS) {
+        const range = filters[id];
+        if (!range || (range.min === null && range.max === null)) continue;
+
+        const value = stats[id];
+        if (value === undefined) return `${label} is unknown`;
+        if (range.min !== null && value < range.min) return `${label} ${value} is below ${range.min}`;
+        if (range.max !== null && value > range.max) return `${label} ${value} is above ${range.max}`;
+    }
+    return null;
+}
+
+/**
+ * Order tokens by a column. Tokens without a value for it go last, ties keep the table order.
+ * @template {{ stats: TokenStats }} T
+ * @param {T[]} tokens
+ * @param {TokenSort | null} sort
+ * @returns {T[]}
+ */
+export function sortTokens(tokens, sort) {
+    if (!sort) return tokens;
+    const sign = sort.direction === 'asc' ? 1 : -1;
+    return [...tokens].sort((a, b) => {
+        const left = a.stats[sort.column];
+        const right = b.stats[sort.column];
+        if (left === undefined || right === undefined) {
+            return (left === undefined ? 1 : 0) - (right === undefined ? 1 : 0);
+        }
+        return (left - right) * sign;
+    });
+}
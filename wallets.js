@@ -0,0 +1,72 @@
+// Every wallet the scraper evaluates, shared by the scraper and the server. Each record keeps the
+// metrics extracted before the wallet was accepted or rejected, so the server can re-apply changed
+// filter thresholds to them without scraping again.
+import { evaluateFilterRules, missingFilterMetrics } from './filters.js';
+
+/** @typedef {import('./filters.js').WalletMetrics} WalletMetrics */
+/** @typedef {import('./filters.js').FilterRule} FilterRule */
+
+/**
+ * @typedef {Object} WalletRecord
+ * @property {string | null} address Wallet address from the Solscan link
+ * @property {string | null} portfolioId BullX portfolio id, only read once a wallet gets past the ROI checks
+ * @property {{ key: string, name: string, address: string | null }} token Token whose top traders listed the wallet
+ * @property {number} row Row in the token's Top Traders list
+ * @property {WalletMetrics} metrics
+ * @property {{ ruleId: string, reason: string } | null} rejection The rule that rejected the wallet, null if accepted
+ * @property {string} evaluatedAt
+ */
+
+/** @typedef {Record<string, WalletRecord>} WalletRecords */
+
+/**
+ * @typedef {Object} WalletVerdict
+ * @property {'passed' | 'rejected' | 'incomplete'} status Incomplete wallets pass every rule that could be
+ *   checked but miss metrics for the others
+ * @property {string} [ruleId]
+ * @property {string} [reason]
+ * @property {string[]} [missing]
+ */
+
+/**
+ * Key of a wallet's record. Evaluating the same wallet again, e.g. from another token, replaces it.
+ * @param {Pick<WalletRecord, 'address' | 'portfolioId' | 'token' | 'row'>} record
+ * @returns {string}
+ */
+export function walletRecordKey(record) {
+    return record.address || record.portfolioId || `${record.token.key}#${record.row}`;
+}
+
+/**
+ * Judge a stored wallet against the given rules
+ * @param {WalletRecord} record
+ * @param {FilterRule[]} rules
+ * @returns {WalletVerdict}
+ */
+export function judgeWallet(record, rules) {
+    const result = evaluateFilterRules(rules, record.metrics);
+    if (!result.passed) return { status: 'rejected', ruleId: result.ruleId, reason: result.reason };
+
+    const missing = missingFilterMetrics(rules, record.metrics);
+    return missing.length > 0 ? { status: 'incomplete', missing } : { status: 'passed' };
+}
+
+/**
+ * The portfolio entry for an accepted wallet, the same shape the scraper saves
+ * @param {WalletRecord} record
+ * @returns {{ id: string, entry: { roi: string, pnl: string, link: string, createdAt: string } } | null}
+ */
+export function portfolioEntry(record) {
+    const id = record.portfolioId || record.address;
+    const { roi, sevenDayPnl } = record.metrics;
+    if (!id || roi === undefined || sevenDayPnl === undefined) return null;
+    return {
+        id,
+        entry: {
+            roi: `${roi.toFixed(2)}%`,
+            pnl: `${sevenDayPnl}`,
+            link: `http://neo.bullx.io/portfolio/${id}`,
+            createdAt: new Date().toISOString(),
+        },
+    };
+}
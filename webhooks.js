@@ -0,0 +1,285 @@
+// Outbound webhooks, fired by the server when a portfolio is added or its review status changes. Each webhook
+// posts a generic JSON event or a message shaped for a Discord webhook or the Telegram sendMessage call. The
+// webhooks are saved with the config as WEBHOOKS, every delivery attempt is kept in the store's delivery log.
+// Alert rules also post to the webhooks they pick, whatever events those subscribe to.
+import { randomUUID } from 'crypto';
+
+/** @typedef {'portfolio.added' | 'portfolio.status_changed' | 'alert.matched'} WebhookEventType */
+
+/**
+ * @typedef {Object} Webhook
+ * @property {string} id
+ * @property {string} name
+ * @property {boolean} enabled
+ * @property {string} url For telegram, https://api.telegram.org/bot<token>/sendMessage
+ * @property {'generic' | 'discord' | 'telegram'} template
+ * @property {WebhookEventType[]} events
+ * @property {string} chatId Chat the telegram template posts to
+ */
+
+/**
+ * @typedef {Object} WebhookEvent
+ * @property {WebhookEventType} type
+ * @property {import('./store.js').Portfolio & { id: string }} portfolio
+ * @property {string | null} previousStatus Review status before a status change
+ * @property {string} occurredAt
+ * @property {boolean} test Sent with the test button, the portfolio is made up
+ * @property {{ ruleId: string, ruleName: string, conditions: string }} [alert] The rule an alert.matched event is for
+ */
+
+/**
+ * @typedef {Object} WebhookDelivery
+ * @property {string} webhookId
+ * @property {string} webhookName
+ * @property {WebhookEventType} event
+ * @property {string} portfolioId
+ * @property {boolean} test
+ * @property {number} attempt Starting at 1
+ * @property {'delivered' | 'retrying' | 'failed'} status
+ * @property {number | null} responseStatus
+ * @property {string | null} error
+ * @property {string} attemptedAt
+ */
+
+export const WEBHOOK_TEMPLATES = ['generic', 'discord', 'telegram'];
+
+// Events a webhook can subscribe to, alert.matched goes to the webhooks an alert rule picks
+/** @type {WebhookEventType[]} */
+export const WEBHOOK_EVENTS = ['portfolio.added', 'portfolio.status_changed'];
+
+// Waits before the second, third... attempt. A delivery is given up after the last one
+const RETRY_DELAYS_MS = [2000, 10000, 60000, 300000];
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Why a webhook cannot be saved, null when it is valid
+ * @param {Webhook} webhook
+ * @returns {string | null}
+ */
+export function validateWebhook(webhook) {
+    if (!webhook.name) return 'Name is required';
+    let url;
+    try {
+        url = new URL(webhook.url);
+    } catch {
+        return 'URL is not valid';
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'URL must start with http:// or https://';
+    if (!WEBHOOK_TEMPLATES.includes(webhook.template)) {
+        return `Template must be one of ${WEBHOOK_TEMPLATES.join(', ')}`;
+    }
+    if (webhook.events.length === 0) return 'Pick at least one event';
+    if (webhook.template === 'telegram' && !webhook.chatId) return 'Chat ID is required for Telegram';
+    return null;
+}
+
+/**
+ * Normalise the saved WEBHOOKS, giving new webhooks an id
+ * @param {Record<string, unknown>} [config]
+ * @returns {Webhook[]}
+ */
+export function resolveWebhooks(config = {}) {
+    const configured = Array.isArray(config.WEBHOOKS) ? config.WEBHOOKS : [];
+    return configured
+        .filter((webhook) => webhook && typeof webhook === 'object')
+        .map((webhook) => ({
+            id: webhook.id ? String(webhook.id) : randomUUID(),
+            name: String(webhook.name ?? '').trim(),
+            enabled: webhook.enabled !== false,
+            url: String(webhook.url ?? '').trim(),
+            template: String(webhook.template ?? 'generic'),
+            events: Array.isArray(webhook.events)
+                ? WEBHOOK_EVENTS.filter((event) => webhook.events.includes(event))
+                : [...WEBHOOK_EVENTS],
+            chatId: String(webhook.chatId ?? '').trim(),
+        }));
+}
+
+/**
+ * The event the test button sends, about a made-up portfolio
+ * @returns {WebhookEvent}
+ */
+export function testWebhookEvent() {
+    const id = 'TestWa11et1111111111111111111111111111111111';
+    return {
+        type: 'portfolio.added',
+        portfolio: {
+            id,
+            roi: '250%',
+            pnl: '42000',
+            link: `http://neo.bullx.io/portfolio/${id}`,
+            createdAt: new Date().toISOString(),
+            review: { status: 'new', tags: [], notes: '', updatedBy: null, updatedAt: null },
+        },
+        previousStatus: null,
+        occurredAt: new Date().toISOString(),
+        test: true,
+    };
+}
+
+// One line about the event, for the chat templates
+function summary(event) {
+    const { id, roi, pnl } = event.portfolio;
+    const prefix = event.test ? '[Test] ' : '';
+    if (event.type === 'alert.matched') {
+        return `${prefix}Alert "${event.alert.ruleName}": wallet ${id} matched ${event.alert.conditions} (ROI ${roi}, PnL $${Number(pnl).toLocaleString('en-US')})`;
+    }
+    if (event.type === 'portfolio.status_changed') {
+        return `${prefix}Wallet ${id} is now ${event.portfolio.review?.status} (was ${event.previousStatus})`;
+    }
+    return `${prefix}New wallet ${id} qualified with ROI ${roi} and PnL $${Number(pnl).toLocaleString('en-US')}`;
+}
+
+function escapeHtml(text) {
+    return String(text).replace(/[&<>"]/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char]);
+}
+
+/**
+ * Body of the request for an event, in the shape the webhook's template asks for
+ * @param {Webhook} webhook
+ * @param {WebhookEvent} event
+ * @returns {Record<string, unknown>}
+ */
+export function webhookPayload(webhook, event) {
+    const { portfolio } = event;
+    if (webhook.template === 'discord') {
+        return {
+            content: summary(event),
+            embeds: [
+                {
+                    title: portfolio.id,
+                    url: portfolio.link,
+                    fields: [
+                        { name: 'ROI', value: portfolio.roi, inline: true },
+                        { name: 'PnL', value: `$${Number(portfolio.pnl).toLocaleString('en-US')}`, inline: true },
+                        { name: 'Status', value: portfolio.review?.status ?? 'new', inline: true },
+                    ],
+                    timestamp: event.occurredAt,
+                },
+            ],
+        };
+    }
+    if (webhook.template === 'telegram') {
+        return {
+            chat_id: webhook.chatId,
+            text: `${escapeHtml(summary(event))}\n<a href="${escapeHtml(portfolio.link)}">BullX</a> | <a href="https://gmgn.ai/sol/address/${escapeHtml(portfolio.id)}">GMGN</a>`,
+            parse_mode: 'HTML',
+            disable_web_page_preview: true,
+        };
+    }
+    return {
+        event: event.type,
+        test: event.test,
+        occurredAt: event.occurredAt,
+        previousStatus: event.previousStatus,
+        ...(event.alert ? { alert: event.alert } : {}),
+        portfolio,
+    };
+}
+
+/**
+ * Post one attempt of a delivery
+ * @param {Webhook} webhook
+ * @param {WebhookEvent} event
+ * @returns {Promise<{ ok: boolean, retry: boolean, responseStatus: number | null, error: string | null, retryAfterMs: number | null }>}
+ */
+async function post(webhook, event) {
+    try {
+        const response = await fetch(webhook.url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'User-Agent': 'wltr-webhooks' },
+            body: JSON.stringify(webhookPayload(webhook, event)),
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+        if (response.ok)
+            return { ok: true, retry: false, responseStatus: response.status, error: null, retryAfterMs: null };
+        const body = (await response.text().catch(() => '')).slice(0, 200);
+        const retryAfter = Number(response.headers.get('Retry-After'));
+        return {
+            ok: false,
+            // Rate limits and server errors may pass, other client errors will not
+            retry: response.status === 429 || response.status >= 500,
+            responseStatus: response.status,
+            error: `HTTP ${response.status}${body ? `: ${body}` : ''}`,
+            retryAfterMs: Number.isFinite(retryAfter) && retryAfter > 0 ? Math.min(retryAfter, 600) * 1000 : null,
+        };
+    } catch (error) {
+        const message =
+            error.name === 'TimeoutError' ? `No response within ${REQUEST_TIMEOUT_MS / 1000}s` : error.message;
+        return { ok: false, retry: true, responseStatus: null, error: message, retryAfterMs: null };
+    }
+}
+
+/**
+ * Sends events to the webhooks that subscribe to them. The deliveries of a webhook go out one after the other,
+ * so a webhook that is retrying holds back its later events instead of sending them out of order
+ * @param {{ getWebhooks: () => Webhook[], onDelivery: (delivery: WebhookDelivery) => void, retryDelaysMs?: number[] }} options
+ */
+export function createWebhookDispatcher({ getWebhooks, onDelivery, retryDelaysMs = RETRY_DELAYS_MS }) {
+    /** @type {Map<string, Promise<void>>} */
+    const queues = new Map();
+    const wait = (ms) => new Promise((resolve) => setTimeout(resolve, ms).unref());
+
+    /**
+     * @param {Webhook} webhook
+     * @param {WebhookEvent} event
+     * @param {number} maxAttempts
+     * @returns {Promise<WebhookDelivery>} The last attempt
+     */
+    const deliver = async (webhook, event, maxAttempts) => {
+        for (let attempt = 1; ; attempt++) {
+            const result = await post(webhook, event);
+            const retrying = !result.ok && result.retry && attempt < maxAttempts;
+            /** @type {WebhookDelivery} */
+            const delivery = {
+                webhookId: webhook.id,
+                webhookName: webhook.name,
+                event: event.type,
+                portfolioId: event.portfolio.id,
+                test: event.test,
+                attempt,
+                status: result.ok ? 'delivered' : retrying ? 'retrying' : 'failed',
+                responseStatus: result.responseStatus,
+                error: result.error,
+                attemptedAt: new Date().toISOString(),
+            };
+            try {
+                onDelivery(delivery);
+            } catch (error) {
+                console.error('Error recording webhook delivery:', error);
+            }
+            if (!retrying) return delivery;
+            await wait(Math.max(retryDelaysMs[attempt - 1], result.retryAfterMs ?? 0));
+        }
+    };
+
+    return {
+        /**
+         * Queue an event for every enabled webhook that subscribes to it, or for the given ones
+         * @param {WebhookEvent} event
+         * @param {string[]} [webhookIds] Webhooks to send it to whatever their events, for alerts
+         */
+        dispatch(event, webhookIds) {
+            for (const webhook of getWebhooks()) {
+                const wanted = webhookIds ? webhookIds.includes(webhook.id) : webhook.events.includes(event.type);
+                if (!webhook.enabled || !wanted || validateWebhook(webhook)) continue;
+                const previous = queues.get(webhook.id) ?? Promise.resolve();
+                const next = previous.then(() => deliver(webhook, event, retryDelaysMs.length + 1)).then(() => {});
+                queues.set(webhook.id, next);
+                // Forget the queue once it is drained, unless more was queued behind this delivery
+                next.then(() => {
+                    if (queues.get(webhook.id) === next) queues.delete(webhook.id);
+                });
+            }
+        },
+
+        /**
+         * Send the test event to a webhook right away, once, whether it is enabled or not
+         * @param {Webhook} webhook
+         * @returns {Promise<WebhookDelivery>}
+         */
+        sendTest(webhook) {
+            return deliver(webhook, testWebhookEvent(), 1);
+        },
+    };
+}
@@ -0,0 +1,177 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { createWebhookDispatcher } from './webhooks.js';
+
+/**
+ * A local server standing in for the webhooks, answering each path with the statuses queued for it and 200 after
+ * those, and a dispatcher sending to it with short retry delays
+ * @param {Record<string, Array<number | { status: number, retryAfter: string }>>} responses
+ * @param {number[]} [retryDelaysMs]
+ */
+async function createHarness(responses, retryDelaysMs = [5, 5, 5]) {
+    /** @type {Array<{ path: string, portfolioId: string, at: number }>} */
+    const requests = [];
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+            requests.push({ path: req.url, portfolioId: JSON.parse(body).portfolio.id, at: Date.now() });
+            const next = responses[req.url]?.shift() ?? 200;
+            const { status, retryAfter } = typeof next === 'number' ? { status: next, retryAfter: null } : next;
+            res.writeHead(status, retryAfter ? { 'Retry-After': retryAfter } : {});
+            res.end(status >= 400 ? 'nope' : 'ok');
+        });
+    });
+    await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = /** @type {import('node:net').AddressInfo} */ (server.address());
+
+    const webhook = (name) => ({
+        id: name,
+        name,
+        enabled: true,
+        url: `http://127.0.0.1:${port}/${name}`,
+        template: 'generic',
+        events: ['portfolio.added'],
+        chatId: '',
+    });
+    const webhooks = [webhook('a'), webhook('b')];
+
+    const deliveries = [];
+    let waiting = null;
+    const finished = () => deliveries.filter((delivery) => delivery.status !== 'retrying').length;
+    const dispatcher = createWebhookDispatcher({
+        getWebhooks: () => webhooks,
+        onDelivery: (delivery) => {
+            deliveries.push(delivery);
+            if (waiting && finished() >= waiting.count) waiting.resolve();
+        },
+        retryDelaysMs,
+    });
+
+    return {
+        dispatcher,
+        requests,
+        deliveries,
+        // Resolves once this many deliveries were delivered or given up
+        settled: (count) =>
+            finished() >= count ? Promise.resolve() : new Promise((resolve) => (waiting = { count, resolve })),
+        close: () => {
+            server.closeAllConnections();
+            return new Promise((resolve) => server.close(resolve));
+        },
+    };
+}
+
+const event = (id) => ({
+    type: 'portfolio.added',
+    portfolio: { id, roi: '100%', pnl: '1000', link: `http://neo.bullx.io/portfolio/${id}` },
+    previousStatus: null,
+    occurredAt: '2026-10-18T12:00:00.000Z',
+    test: false,
+});
+
+const attempts = (deliveries, webhookId) =>
+    deliveries
+        .filter((delivery) => delivery.webhookId === webhookId)
+        .map(({ attempt, status, responseStatus }) => [attempt, status, responseStatus]);
+
+test('server errors and rate limits are retried until delivered', async () => {
+    const harness = await createHarness({ '/a': [500, 503, 200], '/b': [429, 200] });
+    try {
+        harness.dispatcher.dispatch(event('Wallet1'));
+        await harness.settled(2);
+        assert.deepEqual(attempts(harness.deliveries, 'a'), [
+            [1, 'retrying', 500],
+            [2, 'retrying', 503],
+            [3, 'delivered', 200],
+        ]);
+        assert.deepEqual(attempts(harness.deliveries, 'b'), [
+            [1, 'retrying', 429],
+            [2, 'delivered', 200],
+        ]);
+        assert.equal(harness.deliveries[0].error, 'HTTP 500: nope');
+    } finally {
+        await harness.close();
+    }
+});
+
+test('other client errors are not retried', async () => {
+    const harness = await createHarness({ '/a': [404], '/b': [400] });
+    try {
+        harness.dispatcher.dispatch(event('Wallet1'));
+        await harness.settled(2);
+        assert.deepEqual(attempts(harness.deliveries, 'a'), [[1, 'failed', 404]]);
+        assert.deepEqual(attempts(harness.deliveries, 'b'), [[1, 'failed', 400]]);
+        assert.equal(harness.requests.length, 2);
+    } finally {
+        await harness.close();
+    }
+});
+
+test('a delivery is given up after the last retry', async () => {
+    const harness = await createHarness({ '/a': [500, 500, 500], '/b': [] }, [5, 5]);
+    try {
+        harness.dispatcher.dispatch(event('Wallet1'));
+        await harness.settled(2);
+        assert.deepEqual(attempts(harness.deliveries, 'a'), [
+            [1, 'retrying', 500],
+            [2, 'retrying', 500],
+            [3, 'failed', 500],
+        ]);
+    } finally {
+        await harness.close();
+    }
+});
+
+test('Retry-After is waited for when it is longer than the retry delay', async () => {
+    const harness = await createHarness({ '/a': [{ status: 429, retryAfter: '1' }], '/b': [503] }, [5]);
+    try {
+        harness.dispatcher.dispatch(event('Wallet1'));
+        await harness.settled(2);
+        const gap = (path) => {
+            const [first, second] = harness.requests.filter((request) => request.path === path);
+            return second.at - first.at;
+        };
+        assert.ok(gap('/a') >= 950, `retried after ${gap('/a')}ms`);
+        assert.ok(gap('/b') < 950, `retried after ${gap('/b')}ms`);
+    } finally {
+        await harness.close();
+    }
+});
+
+test('a retrying webhook holds back its later events but not the other webhooks', async () => {
+    const harness = await createHarness({ '/a': [500, 500], '/b': [] }, [50, 50, 50]);
+    try {
+        harness.dispatcher.dispatch(event('Wallet1'));
+        harness.dispatcher.dispatch(event('Wallet2'));
+        harness.dispatcher.dispatch(event('Wallet3'));
+        await harness.settled(6);
+        const received = (path) =>
+            harness.requests.filter((request) => request.path === path).map(({ portfolioId }) => portfolioId);
+        assert.deepEqual(received('/a'), ['Wallet1', 'Wallet1', 'Wallet1', 'Wallet2', 'Wallet3']);
+        assert.deepEqual(received('/b'), ['Wallet1', 'Wallet2', 'Wallet3']);
+        // b was done before a got past its first event
+        const lastOfB = harness.requests.findLastIndex((request) => request.path === '/b');
+        const secondOfA = harness.requests.findIndex(
+            (request) => request.portfolioId === 'Wallet2' && request.path === '/a',
+        );
+        assert.ok(lastOfB < secondOfA);
+    } finally {
+        await harness.close();
+    }
+});
+
+test('alerts go to the webhooks they name whatever their events', async () => {
+    const harness = await createHarness({});
+    try {
+        harness.dispatcher.dispatch({ ...event('Wallet1'), type: 'alert.matched' }, ['b']);
+        await harness.settled(1);
+        assert.deepEqual(
+            harness.requests.map(({ path }) => path),
+            ['/b'],
+        );
+    } finally {
+        await harness.close();
+    }
+});